@@ -15,9 +15,13 @@ await esbuild.build({
     external: [
         '@aws-sdk/*',
         '@fastify/*',
+        '@opentelemetry/*',
         'fastify',
         'fastify-plugin',
+        'jose',
+        'prom-client',
         'zod',
+        'zod-to-json-schema',
         'dotenv',
         'pino-pretty',
     ],
@@ -37,3 +41,19 @@ await esbuild.build({
     console.error('✗ Build failed:', error);
     process.exit(1);
 });
+
+// API client shipped as the "./client" export (types come from tsconfig.client.json)
+await esbuild.build({
+    entryPoints: ['src/client/index.ts'],
+    bundle: true,
+    platform: 'neutral',
+    target: 'es2022',
+    format: 'esm',
+    outfile: 'dist/client/index.js',
+    sourcemap: true,
+    minify: isProduction,
+    logLevel: 'info',
+}).catch((error) => {
+    console.error('✗ Client build failed:', error);
+    process.exit(1);
+});
@@ -21,6 +21,12 @@ export interface EnvironmentConfig {
     // CORS Configuration
     corsOrigin: string;
 
+    // Authentication: tokens are verified against the JWKS when set, otherwise
+    // against the HS256 secret the stack generates in Secrets Manager
+    jwtJwksUrl?: string;
+    jwtIssuer?: string;
+    jwtAudience?: string;
+
     // VPC Configuration
     vpcLookupTags?: Record<string, string>;
 }
@@ -4,6 +4,7 @@ import * as ecs from 'aws-cdk-lib/aws-ecs';
 import * as ecsPatterns from 'aws-cdk-lib/aws-ecs-patterns';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as logs from 'aws-cdk-lib/aws-logs';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { Construct } from 'constructs';
 import type { EnvironmentConfig } from './config.js';
 
@@ -60,6 +61,8 @@ export class FargateStack extends cdk.Stack {
                     'dynamodb:Scan',
                     'dynamodb:BatchGetItem',
                     'dynamodb:BatchWriteItem',
+                    'dynamodb:ConditionCheckItem',
+                    'dynamodb:DescribeTable',
                 ],
                 resources: [
                     `arn:aws:dynamodb:${config.region}:${this.account}:table/${config.dynamoDbTableName}`,
@@ -68,6 +71,46 @@ export class FargateStack extends cdk.Stack {
             })
         );
 
+        // The audit log is only appended to and queried by record
+        const auditTableName = `${config.dynamoDbTableName}Audit`;
+        taskDefinition.taskRole.addToPrincipalPolicy(
+            new iam.PolicyStatement({
+                effect: iam.Effect.ALLOW,
+                actions: ['dynamodb:BatchWriteItem', 'dynamodb:Query'],
+                resources: [
+                    `arn:aws:dynamodb:${config.region}:${this.account}:table/${auditTableName}`,
+                ],
+            })
+        );
+
+        // Shared secret for signing pagination cursors, so a cursor issued by
+        // one task is accepted by every other task behind the load balancer
+        const cursorSecret = new secretsmanager.Secret(this, 'CursorSecret', {
+            secretName: `fastify-ddb-${config.environmentName}/cursor-secret`,
+            generateSecretString: {
+                excludePunctuation: true,
+                passwordLength: 48,
+            },
+        });
+
+        // HS256 secret for verifying bearer tokens; token issuers read it from
+        // Secrets Manager. Auth is on, so the container refuses to start
+        // without a verifier.
+        const jwtSecret = new secretsmanager.Secret(this, 'JwtSecret', {
+            secretName: `fastify-ddb-${config.environmentName}/jwt-secret`,
+            generateSecretString: {
+                excludePunctuation: true,
+                passwordLength: 64,
+            },
+        });
+
+        const authEnvironment: Record<string, string> = {
+            AUTH_ENABLED: 'true',
+            ...(config.jwtJwksUrl && { JWT_JWKS_URL: config.jwtJwksUrl }),
+            ...(config.jwtIssuer && { JWT_ISSUER: config.jwtIssuer }),
+            ...(config.jwtAudience && { JWT_AUDIENCE: config.jwtAudience }),
+        };
+
         // Add container to task definition
         const container = taskDefinition.addContainer('AppContainer', {
             image: ecs.ContainerImage.fromAsset('..', {
@@ -84,11 +127,20 @@ export class FargateStack extends cdk.Stack {
                 LOG_LEVEL: config.logLevel,
                 DYNAMODB_MODE: config.dynamoDbMode,
                 DYNAMODB_TABLE_NAME: config.dynamoDbTableName,
+                DYNAMODB_AUDIT_TABLE_NAME: auditTableName,
                 AWS_REGION: config.region,
                 CORS_ORIGIN: config.corsOrigin,
+                // The ALB appends the client address to X-Forwarded-For; trust that one hop
+                TRUST_PROXY: '1',
+                ...authEnvironment,
+            },
+            secrets: {
+                CURSOR_SECRET: ecs.Secret.fromSecretsManager(cursorSecret),
+                JWT_SECRET: ecs.Secret.fromSecretsManager(jwtSecret),
             },
+            // Liveness only: a DynamoDB outage should not restart healthy containers
             healthCheck: {
-                command: ['CMD-SHELL', 'node -e "require(\'http\').get(\'http://localhost:3000/health\', (r) => {process.exit(r.statusCode === 200 ? 0 : 1)})"'],
+                command: ['CMD-SHELL', 'node -e "require(\'http\').get(\'http://localhost:3000/health/live\', (r) => {process.exit(r.statusCode === 200 ? 0 : 1)})"'],
                 interval: cdk.Duration.seconds(30),
                 timeout: cdk.Duration.seconds(5),
                 retries: 3,
@@ -120,9 +172,10 @@ export class FargateStack extends cdk.Stack {
             }
         );
 
-        // Configure health check on target group
+        // Configure health check on target group: readiness probes DynamoDB,
+        // so tasks that cannot reach the table stop receiving traffic
         fargateService.targetGroup.configureHealthCheck({
-            path: '/health',
+            path: '/health/ready',
             interval: cdk.Duration.seconds(30),
             timeout: cdk.Duration.seconds(5),
             healthyThresholdCount: 2,
@@ -162,6 +215,12 @@ export class FargateStack extends cdk.Stack {
             exportName: `FastifyDdb-${config.environmentName}-ServiceURL`,
         });
 
+        new cdk.CfnOutput(this, 'JwtSecretArn', {
+            value: jwtSecret.secretArn,
+            description: 'Secret for signing HS256 bearer tokens',
+            exportName: `FastifyDdb-${config.environmentName}-JwtSecretArn`,
+        });
+
         new cdk.CfnOutput(this, 'ClusterName', {
             value: cluster.clusterName,
             description: 'ECS Cluster Name',
@@ -1,8 +1,13 @@
 import {
     CreateTableCommand,
+    DescribeTableCommand,
     DynamoDBClient,
+    DescribeTimeToLiveCommand,
     ResourceInUseException,
+    UpdateTableCommand,
+    UpdateTimeToLiveCommand,
 } from "@aws-sdk/client-dynamodb";
+import type { GlobalSecondaryIndex } from "@aws-sdk/client-dynamodb";
 import dotenv from "dotenv";
 
 // Load environment variables
@@ -18,6 +23,40 @@ const client = new DynamoDBClient({
 });
 
 const tableName = process.env.DYNAMODB_TABLE_NAME || "SkiLifts";
+const auditTableName = process.env.DYNAMODB_AUDIT_TABLE_NAME || `${tableName}Audit`;
+
+/**
+ * Every record by its sort key, so closing a day queries that day's rows
+ * instead of scanning the table (see src/repositories/skilift.repository.ts)
+ */
+const dateIndex: GlobalSecondaryIndex = {
+    IndexName: "SkiLiftsByDate",
+    KeySchema: [
+        {
+            AttributeName: "Metadata",
+            KeyType: "HASH",
+        },
+        {
+            AttributeName: "Lift",
+            KeyType: "RANGE",
+        },
+    ],
+    Projection: {
+        ProjectionType: "INCLUDE",
+        NonKeyAttributes: [
+            "Version",
+            "TotalUniqueLiftRiders",
+            "AverageSnowCoverageInches",
+            "LiftStatus",
+            "AvalancheDanger",
+            "DeletedAt",
+        ],
+    },
+    ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+    },
+};
 
 async function createTable() {
     const command = new CreateTableCommand({
@@ -61,13 +100,14 @@ async function createTable() {
                 ],
                 Projection: {
                     ProjectionType: "INCLUDE",
-                    NonKeyAttributes: ["Metadata"],
+                    NonKeyAttributes: ["Metadata", "DeletedAt"],
                 },
                 ProvisionedThroughput: {
                     ReadCapacityUnits: 5,
                     WriteCapacityUnits: 5,
                 },
             },
+            dateIndex,
         ],
         ProvisionedThroughput: {
             ReadCapacityUnits: 5,
@@ -75,15 +115,98 @@ async function createTable() {
         },
     });
 
+    await send(command);
+}
+
+/**
+ * Tables created before the SkiLiftsByDate index get it added
+ */
+async function addDateIndex() {
+    const { Table } = await client.send(new DescribeTableCommand({ TableName: tableName }));
+    if (Table?.GlobalSecondaryIndexes?.some((index) => index.IndexName === dateIndex.IndexName)) {
+        console.log(`ℹ️  Index ${dateIndex.IndexName} already exists on "${tableName}"`);
+        return;
+    }
+
+    await client.send(
+        new UpdateTableCommand({
+            TableName: tableName,
+            AttributeDefinitions: [
+                { AttributeName: "Lift", AttributeType: "S" },
+                { AttributeName: "Metadata", AttributeType: "S" },
+            ],
+            GlobalSecondaryIndexUpdates: [{ Create: dateIndex }],
+        })
+    );
+    console.log(`✅ Index ${dateIndex.IndexName} is being created on "${tableName}"`);
+}
+
+/**
+ * Soft-deleted records carry an ExpiresAt TTL (see src/utils/soft-delete.ts)
+ */
+async function enableTimeToLive() {
+    const current = await client.send(new DescribeTimeToLiveCommand({ TableName: tableName }));
+    if (current.TimeToLiveDescription?.TimeToLiveStatus === "ENABLED") {
+        console.log(`ℹ️  TTL already enabled on "${tableName}"`);
+        return;
+    }
+
+    await client.send(
+        new UpdateTimeToLiveCommand({
+            TableName: tableName,
+            TimeToLiveSpecification: { AttributeName: "ExpiresAt", Enabled: true },
+        })
+    );
+    console.log(`✅ TTL enabled on "${tableName}" (ExpiresAt)`);
+}
+
+/**
+ * Audit log: one partition per record ("<Lift>#<Metadata>"), entries
+ * sorted by AuditId, which starts with the time of the change
+ */
+async function createAuditTable() {
+    const command = new CreateTableCommand({
+        TableName: auditTableName,
+        AttributeDefinitions: [
+            {
+                AttributeName: "RecordKey",
+                AttributeType: "S",
+            },
+            {
+                AttributeName: "AuditId",
+                AttributeType: "S",
+            },
+        ],
+        KeySchema: [
+            {
+                AttributeName: "RecordKey",
+                KeyType: "HASH",
+            },
+            {
+                AttributeName: "AuditId",
+                KeyType: "RANGE",
+            },
+        ],
+        ProvisionedThroughput: {
+            ReadCapacityUnits: 5,
+            WriteCapacityUnits: 5,
+        },
+    });
+
+    await send(command);
+}
+
+async function send(command: CreateTableCommand) {
+    const name = command.input.TableName;
     try {
         const response = await client.send(command);
         console.log("✅ Table created successfully!");
-        console.log(`Table Name: ${tableName}`);
+        console.log(`Table Name: ${name}`);
         console.log(`Table Status: ${response.TableDescription?.TableStatus}`);
         console.log(`Table ARN: ${response.TableDescription?.TableArn}`);
     } catch (error) {
         if (error instanceof ResourceInUseException) {
-            console.log(`ℹ️  Table "${tableName}" already exists`);
+            console.log(`ℹ️  Table "${name}" already exists`);
         } else {
             console.error("❌ Error creating table:", error);
             throw error;
@@ -92,6 +215,9 @@ async function createTable() {
 }
 
 createTable()
+    .then(() => addDateIndex())
+    .then(() => enableTimeToLive())
+    .then(() => createAuditTable())
     .then(() => {
         console.log("\n🎉 Setup complete!");
         process.exit(0);
@@ -0,0 +1,200 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import type { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import { ScanCommand, TransactWriteCommand } from "@aws-sdk/lib-dynamodb";
+import dotenv from "dotenv";
+import { TABLE_NAME, createDynamoDBClient, getDynamoDBConfig } from "../src/db/dynamodb.client.js";
+import { LEGACY_DATE_PATTERN, toIsoDate } from "../src/utils/dates.js";
+
+/**
+ * Migrate dated sort keys from "MM/DD/YY" to ISO "YYYY-MM-DD".
+ *
+ * Scans the table page by page and, for every dynamic or resort record with a
+ * legacy Metadata value, puts a copy under the ISO key and deletes the original
+ * in one transaction. Progress is checkpointed after each page so an
+ * interrupted run resumes where it stopped.
+ *
+ * Usage:
+ *   npm run migrate:sort-keys -- [--dry-run] [--reset] [--checkpoint <file>] [--page-size <n>]
+ */
+
+// Load environment variables
+dotenv.config();
+
+interface MigrationStats {
+    scanned: number;
+    migrated: number;
+    conflicts: number;
+    failed: number;
+}
+
+interface Checkpoint {
+    lastEvaluatedKey?: Record<string, any>;
+    complete: boolean;
+    stats: MigrationStats;
+}
+
+function parseArgs(argv: string[]) {
+    const flagValue = (flag: string) => {
+        const index = argv.indexOf(flag);
+        return index >= 0 ? argv[index + 1] : undefined;
+    };
+
+    return {
+        dryRun: argv.includes("--dry-run"),
+        reset: argv.includes("--reset"),
+        checkpointFile: flagValue("--checkpoint") || ".sort-key-migration.json",
+        pageSize: Number.parseInt(flagValue("--page-size") || "100", 10),
+    };
+}
+
+/**
+ * Whether a cancelled migration transaction failed only because the ISO record
+ * already exists. Reasons are listed in TransactItems order (Put, then Delete);
+ * anything else, e.g. a throttled item or a vanished original, is a failure
+ * that a rerun should retry.
+ */
+function isExistingIsoRecord(error: unknown): boolean {
+    if ((error as Error).name !== "TransactionCanceledException") {
+        return false;
+    }
+    const [put, ...rest] = (error as TransactionCanceledException).CancellationReasons ?? [];
+    return (
+        put?.Code === "ConditionalCheckFailed" &&
+        rest.every((reason) => !reason.Code || reason.Code === "None")
+    );
+}
+
+function freshCheckpoint(): Checkpoint {
+    return { complete: false, stats: { scanned: 0, migrated: 0, conflicts: 0, failed: 0 } };
+}
+
+function loadCheckpoint(file: string): Checkpoint {
+    if (!existsSync(file)) {
+        return freshCheckpoint();
+    }
+    return JSON.parse(readFileSync(file, "utf8")) as Checkpoint;
+}
+
+async function migrate() {
+    const options = parseArgs(process.argv.slice(2));
+    const dynamodb = createDynamoDBClient(getDynamoDBConfig());
+
+    if (options.reset && existsSync(options.checkpointFile)) {
+        rmSync(options.checkpointFile);
+    }
+
+    // A dry run always starts from the beginning and never touches the checkpoint
+    const checkpoint = options.dryRun ? freshCheckpoint() : loadCheckpoint(options.checkpointFile);
+
+    if (checkpoint.complete) {
+        console.log(`ℹ️  Migration already complete (checkpoint ${options.checkpointFile})`);
+        console.log("   Run with --reset to scan the table again.");
+        return;
+    }
+
+    console.log(
+        `${options.dryRun ? "🔍 Dry run" : "🚚 Migrating"} sort keys in table "${TABLE_NAME}"`
+    );
+
+    let exclusiveStartKey = checkpoint.lastEvaluatedKey;
+    const stats = checkpoint.stats;
+
+    do {
+        const page = await dynamodb.send(
+            new ScanCommand({
+                TableName: TABLE_NAME,
+                Limit: options.pageSize,
+                ExclusiveStartKey: exclusiveStartKey,
+            })
+        );
+
+        for (const item of page.Items || []) {
+            stats.scanned++;
+
+            if (typeof item.Metadata !== "string" || !LEGACY_DATE_PATTERN.test(item.Metadata)) {
+                continue;
+            }
+
+            const isoMetadata = toIsoDate(item.Metadata);
+            const label = `${item.Lift} - ${item.Metadata} → ${isoMetadata}`;
+
+            if (options.dryRun) {
+                console.log(`  would migrate ${label}`);
+                stats.migrated++;
+                continue;
+            }
+
+            try {
+                await dynamodb.send(
+                    new TransactWriteCommand({
+                        TransactItems: [
+                            {
+                                Put: {
+                                    TableName: TABLE_NAME,
+                                    Item: {
+                                        ...item,
+                                        Metadata: isoMetadata,
+                                        Version: (item.Version ?? 0) + 1,
+                                    },
+                                    ConditionExpression: "attribute_not_exists(Lift)",
+                                },
+                            },
+                            {
+                                Delete: {
+                                    TableName: TABLE_NAME,
+                                    Key: { Lift: item.Lift, Metadata: item.Metadata },
+                                    ConditionExpression: "attribute_exists(Lift)",
+                                },
+                            },
+                        ],
+                    })
+                );
+                stats.migrated++;
+            } catch (error) {
+                if (isExistingIsoRecord(error)) {
+                    // An ISO record was written for the same day after the switch; keep both
+                    // and let an operator decide which one wins.
+                    console.warn(`  ⚠️  conflict, ISO record already exists: ${label}`);
+                    stats.conflicts++;
+                } else {
+                    console.error(`  ❌ failed: ${label}`, error);
+                    stats.failed++;
+                }
+            }
+        }
+
+        exclusiveStartKey = page.LastEvaluatedKey;
+
+        if (!options.dryRun) {
+            writeFileSync(
+                options.checkpointFile,
+                JSON.stringify(
+                    { lastEvaluatedKey: exclusiveStartKey, complete: !exclusiveStartKey, stats },
+                    null,
+                    2
+                )
+            );
+        }
+
+        console.log(
+            `  scanned ${stats.scanned}, migrated ${stats.migrated}, ` +
+                `conflicts ${stats.conflicts}, failed ${stats.failed}`
+        );
+    } while (exclusiveStartKey);
+
+    if (stats.failed > 0) {
+        throw new Error(
+            `${stats.failed} records failed to migrate, fix the cause and rerun with --reset`
+        );
+    }
+}
+
+migrate()
+    .then(() => {
+        console.log("\n🎉 Migration finished!");
+        process.exit(0);
+    })
+    .catch((error) => {
+        console.error("\n💥 Migration failed:", error);
+        process.exit(1);
+    });
@@ -17,7 +17,7 @@ NC='\033[0m' # No Color
 
 # Test 1: Health Check
 echo -e "${YELLOW}Test 1: Health Check${NC}"
-curl -s "$BASE_URL/health" | jq .
+curl -s "$BASE_URL/health/ready" | jq .
 echo ""
 echo ""
 
@@ -46,7 +46,7 @@ curl -s -X POST "$BASE_URL/api/skilifts/dynamic" \
   -H "Content-Type: application/json" \
   -d '{
     "Lift": "Lift 5",
-    "Metadata": "11/19/25",
+    "Metadata": "2025-11-19",
     "TotalUniqueLiftRiders": 3500,
     "AverageSnowCoverageInches": 42,
     "LiftStatus": "Open",
@@ -75,7 +75,7 @@ echo -e "${YELLOW}Test 6: Create Resort Data${NC}"
 curl -s -X POST "$BASE_URL/api/skilifts/resort" \
   -H "Content-Type: application/json" \
   -d '{
-    "Metadata": "11/19/25",
+    "Metadata": "2025-11-19",
     "TotalUniqueLiftRiders": 15000,
     "AverageSnowCoverageInches": 40,
     "AvalancheDanger": "Low",
@@ -86,7 +86,7 @@ echo ""
 
 # Test 7: Get Specific Lift Data
 echo -e "${YELLOW}Test 7: Get Specific Lift Data${NC}"
-curl -s "$BASE_URL/api/skilifts/Lift%205/11%2F19%2F25" | jq .
+curl -s "$BASE_URL/api/skilifts/Lift%205/2025-11-19" | jq .
 echo ""
 echo ""
 
@@ -121,7 +121,7 @@ echo ""
 
 # Test 12: Update Dynamic Data
 echo -e "${YELLOW}Test 12: Update Dynamic Data${NC}"
-curl -s -X PUT "$BASE_URL/api/skilifts/Lift%205/11%2F19%2F25" \
+curl -s -X PUT "$BASE_URL/api/skilifts/Lift%205/2025-11-19" \
   -H "Content-Type: application/json" \
   -d '{
     "LiftStatus": "Closed",
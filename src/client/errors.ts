@@ -0,0 +1,71 @@
+/**
+ * Error classes thrown by SkiLiftClient, one per error.code returned by the API
+ */
+
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number,
+        public code?: string,
+        public details?: unknown,
+        public requestId?: string // Server request ID, for finding the failure in its logs
+    ) {
+        super(message);
+        this.name = this.constructor.name;
+    }
+}
+
+export class NotFoundError extends ApiError {}
+
+export class ValidationError extends ApiError {}
+
+export class UnauthorizedError extends ApiError {}
+
+export class ForbiddenError extends ApiError {}
+
+export class ConflictError extends ApiError {}
+
+export class PreconditionFailedError extends ApiError {}
+
+/**
+ * 429 responses, thrown once the client has run out of retries
+ */
+export class TooManyRequestsError extends ApiError {}
+
+/**
+ * 5xx responses, thrown once the client has run out of retries
+ */
+export class ServerError extends ApiError {}
+
+type ApiErrorClass = new (
+    message: string,
+    statusCode: number,
+    code?: string,
+    details?: unknown,
+    requestId?: string
+) => ApiError;
+
+const ERRORS_BY_CODE: Record<string, ApiErrorClass> = {
+    NOT_FOUND: NotFoundError,
+    VALIDATION_ERROR: ValidationError,
+    UNAUTHORIZED: UnauthorizedError,
+    FORBIDDEN: ForbiddenError,
+    CONFLICT: ConflictError,
+    PRECONDITION_FAILED: PreconditionFailedError,
+    TOO_MANY_REQUESTS: TooManyRequestsError,
+    DYNAMODB_ERROR: ServerError,
+    INTERNAL_ERROR: ServerError,
+};
+
+/**
+ * Build the error for a failed response from its formatErrorResponse envelope
+ */
+export function toApiError(statusCode: number, body: unknown): ApiError {
+    const error = (body as { error?: Record<string, any> } | undefined)?.error;
+    const message = error?.message ?? `Request failed with status ${statusCode}`;
+    const code: string | undefined = error?.code;
+    const ErrorClass =
+        (code && ERRORS_BY_CODE[code]) || (statusCode >= 500 ? ServerError : ApiError);
+
+    return new ErrorClass(message, statusCode, code, error?.details, error?.requestId);
+}
@@ -0,0 +1,49 @@
+/**
+ * Public entry point of the ski lift API client
+ */
+export { SkiLiftClient } from "./skilift.client.js";
+export type {
+    CreateDynamicDataRequest,
+    CreateOptions,
+    CreateResortDataRequest,
+    CreateStaticDataRequest,
+    HistoryQuery,
+    PageQuery,
+    ReadOptions,
+    ReadQuery,
+    RiderCountRecord,
+    RidersQuery,
+    SkiLiftClientOptions,
+    StatusUpdateOptions,
+    UpdateDynamicDataRequest,
+    UpdateOptions,
+    UpdateStaticDataRequest,
+} from "./skilift.client.js";
+export {
+    ApiError,
+    ConflictError,
+    ForbiddenError,
+    NotFoundError,
+    PreconditionFailedError,
+    ServerError,
+    TooManyRequestsError,
+    UnauthorizedError,
+    ValidationError,
+} from "./errors.js";
+export type {
+    AuditAction,
+    AuditEntry,
+    AvalancheDanger,
+    BatchItemResult,
+    BatchWriteResponse,
+    DecommissionStatus,
+    FieldChange,
+    LiftStatus,
+    LiftTombstone,
+    PaginatedResponse,
+    ResortData,
+    SkiLiftDynamicData,
+    SkiLiftRecord,
+    SkiLiftStaticData,
+    StatusTransition,
+} from "../types/skilift.types.js";
@@ -0,0 +1,419 @@
+import type {
+    AuditEntry,
+    BatchWriteResponse,
+    LiftTombstone,
+    PaginatedResponse,
+    ResortData,
+    SkiLiftDynamicData,
+    SkiLiftRecord,
+    SkiLiftStaticData,
+} from "../types/skilift.types.js";
+import { toApiError } from "./errors.js";
+
+/**
+ * Request bodies, derived from the record types the API returns
+ */
+export type CreateStaticDataRequest = Omit<SkiLiftStaticData, "Metadata" | "Version">;
+export type CreateDynamicDataRequest = Omit<SkiLiftDynamicData, "Version">;
+export type CreateResortDataRequest = Omit<ResortData, "Lift" | "Version">;
+export type UpdateStaticDataRequest = Partial<
+    Omit<SkiLiftStaticData, "Lift" | "Metadata" | "Version">
+>;
+export type UpdateDynamicDataRequest = Partial<
+    Omit<SkiLiftDynamicData, "Lift" | "Metadata" | "Version" | "StatusTimeline">
+>;
+
+/**
+ * Records returned by the SkiLiftsByRiders index (keys, Metadata and DeletedAt only)
+ */
+export type RiderCountRecord = Pick<
+    SkiLiftDynamicData,
+    "Lift" | "Metadata" | "TotalUniqueLiftRiders" | "DeletedAt"
+>;
+
+export interface PageQuery {
+    limit?: number;
+    cursor?: string;
+}
+
+export interface ReadOptions {
+    includeDeleted?: boolean; // Also return soft-deleted records (admin role)
+}
+
+export type ReadQuery = PageQuery & ReadOptions;
+
+export interface HistoryQuery extends ReadQuery {
+    from: string;
+    to: string;
+}
+
+export interface RidersQuery extends ReadQuery {
+    minRiders?: number;
+    maxRiders?: number;
+}
+
+export interface CreateOptions {
+    upsert?: boolean; // Replace an existing record instead of failing with ConflictError
+}
+
+export interface UpdateOptions {
+    expectedVersion?: number; // Sent as If-Match, fails with PreconditionFailedError if stale
+}
+
+export interface StatusUpdateOptions extends UpdateOptions {
+    override?: boolean; // Skip the status transition rules (admin role), requires a reason
+    reason?: string; // Recorded in the day's StatusTimeline
+}
+
+export interface SkiLiftClientOptions {
+    baseUrl: string;
+    resortId?: string; // Address one resort's data under /api/resorts/:resortId
+    headers?: Record<string, string>;
+    fetch?: typeof fetch;
+    maxRetries?: number; // Retries for throttled and failed requests (default 3), see request
+    retryDelayMs?: number; // Base delay, doubled on every retry (default 100)
+}
+
+interface RequestOptions {
+    query?: Record<string, string | number | boolean | undefined>;
+    body?: unknown;
+    headers?: Record<string, string>;
+    retry?: boolean; // false to never resend the request (default true)
+}
+
+/**
+ * Methods that can be sent again without changing the outcome
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+/**
+ * Error codes of requests that were refused before anything was written
+ */
+const THROTTLED_CODES = new Set(["TOO_MANY_REQUESTS", "DYNAMODB_THROTTLED"]);
+
+/**
+ * Whether a failed request may be resent. Idempotent requests are retried on
+ * 429 and 5xx. Others, e.g. a create, may already have been applied when a 5xx
+ * comes back, and retrying one would turn success into a ConflictError, so
+ * they are only retried when a 429 or 503 says they were throttled.
+ */
+function isRetryable(method: string, response: Response, body: unknown): boolean {
+    if (response.status !== 429 && response.status < 500) {
+        return false;
+    }
+    if (IDEMPOTENT_METHODS.has(method)) {
+        return true;
+    }
+
+    const code = (body as { error?: { code?: unknown } } | undefined)?.error?.code;
+    return (
+        (response.status === 429 || response.status === 503) &&
+        (response.headers.has("retry-after") || THROTTLED_CODES.has(code as string))
+    );
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Decode a JSON body; proxies may answer errors with non-JSON bodies
+ */
+function parseBody(text: string): unknown {
+    try {
+        return text ? JSON.parse(text) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function segment(value: string): string {
+    return encodeURIComponent(value);
+}
+
+function ifMatch(options: UpdateOptions): Record<string, string> {
+    return options.expectedVersion !== undefined
+        ? { "If-Match": `"${options.expectedVersion}"` }
+        : {};
+}
+
+/**
+ * Typed client for the ski lift API. Methods mirror SkiLiftService; failed
+ * requests throw the ApiError subclass matching the response's error.code.
+ */
+export class SkiLiftClient {
+    private baseUrl: string;
+    private apiPrefix: string;
+    private fetchFn: typeof fetch;
+    private maxRetries: number;
+    private retryDelayMs: number;
+
+    constructor(private options: SkiLiftClientOptions) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+        this.apiPrefix = options.resortId ? `/api/resorts/${segment(options.resortId)}` : "/api";
+        this.fetchFn = options.fetch ?? globalThis.fetch;
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 100;
+    }
+
+    async createStaticData(
+        data: CreateStaticDataRequest,
+        options: CreateOptions = {}
+    ): Promise<SkiLiftStaticData> {
+        return this.request("POST", "/skilifts/static", {
+            body: data,
+            query: { upsert: options.upsert },
+        });
+    }
+
+    async createDynamicData(
+        data: CreateDynamicDataRequest,
+        options: CreateOptions = {}
+    ): Promise<SkiLiftDynamicData> {
+        return this.request("POST", "/skilifts/dynamic", {
+            body: data,
+            query: { upsert: options.upsert },
+        });
+    }
+
+    async createResortData(
+        data: CreateResortDataRequest,
+        options: CreateOptions = {}
+    ): Promise<ResortData> {
+        return this.request("POST", "/skilifts/resort", {
+            body: data,
+            query: { upsert: options.upsert },
+        });
+    }
+
+    /**
+     * Resolves with per-item results, including when some items failed (207)
+     */
+    async createDynamicDataBatch(items: CreateDynamicDataRequest[]): Promise<BatchWriteResponse> {
+        return this.request("POST", "/skilifts/dynamic/batch", { body: items });
+    }
+
+    async closeDay(date: string): Promise<ResortData> {
+        return this.request("POST", `/resort/${segment(date)}/close`);
+    }
+
+    async getSkiLift(
+        lift: string,
+        metadata: string,
+        options: ReadOptions = {}
+    ): Promise<SkiLiftRecord> {
+        return this.request("GET", `/skilifts/${segment(lift)}/${segment(metadata)}`, {
+            query: { ...options },
+        });
+    }
+
+    async queryLiftData(
+        lift: string,
+        query: ReadQuery = {}
+    ): Promise<PaginatedResponse<SkiLiftRecord>> {
+        return this.request("GET", `/skilifts/${segment(lift)}`, { query: { ...query } });
+    }
+
+    iterateLiftData(lift: string, query: ReadQuery = {}): AsyncGenerator<SkiLiftRecord> {
+        return this.paginate((cursor) => this.queryLiftData(lift, { ...query, cursor }), query);
+    }
+
+    async queryLiftHistory(
+        lift: string,
+        query: HistoryQuery
+    ): Promise<PaginatedResponse<SkiLiftRecord>> {
+        return this.request("GET", `/skilifts/${segment(lift)}/history`, {
+            query: { ...query },
+        });
+    }
+
+    iterateLiftHistory(lift: string, query: HistoryQuery): AsyncGenerator<SkiLiftRecord> {
+        return this.paginate((cursor) => this.queryLiftHistory(lift, { ...query, cursor }), query);
+    }
+
+    async listSkiLifts(query: ReadQuery = {}): Promise<PaginatedResponse<SkiLiftRecord>> {
+        return this.request("GET", "/skilifts", { query: { ...query } });
+    }
+
+    iterateSkiLifts(query: ReadQuery = {}): AsyncGenerator<SkiLiftRecord> {
+        return this.paginate((cursor) => this.listSkiLifts({ ...query, cursor }), query);
+    }
+
+    async queryByRiders(
+        lift: string,
+        query: RidersQuery = {}
+    ): Promise<PaginatedResponse<RiderCountRecord>> {
+        return this.request("GET", `/skilifts/${segment(lift)}/by-riders`, {
+            query: { ...query },
+        });
+    }
+
+    iterateByRiders(lift: string, query: RidersQuery = {}): AsyncGenerator<RiderCountRecord> {
+        return this.paginate((cursor) => this.queryByRiders(lift, { ...query, cursor }), query);
+    }
+
+    async queryAuditLog(
+        lift: string,
+        metadata: string,
+        query: PageQuery = {}
+    ): Promise<PaginatedResponse<AuditEntry>> {
+        return this.request("GET", `/skilifts/${segment(lift)}/${segment(metadata)}/audit`, {
+            query: { ...query },
+        });
+    }
+
+    iterateAuditLog(
+        lift: string,
+        metadata: string,
+        query: PageQuery = {}
+    ): AsyncGenerator<AuditEntry> {
+        return this.paginate(
+            (cursor) => this.queryAuditLog(lift, metadata, { ...query, cursor }),
+            query
+        );
+    }
+
+    async updateStaticData(
+        lift: string,
+        data: UpdateStaticDataRequest,
+        options: UpdateOptions = {}
+    ): Promise<SkiLiftStaticData> {
+        return this.request("PUT", `/skilifts/${segment(lift)}/static`, {
+            body: data,
+            headers: ifMatch(options),
+        });
+    }
+
+    async updateDynamicData(
+        lift: string,
+        metadata: string,
+        data: UpdateDynamicDataRequest,
+        options: StatusUpdateOptions = {}
+    ): Promise<SkiLiftDynamicData> {
+        return this.request("PUT", `/skilifts/${segment(lift)}/${segment(metadata)}`, {
+            query: { override: options.override, reason: options.reason },
+            body: data,
+            headers: ifMatch(options),
+        });
+    }
+
+    /**
+     * Add to the day's rider count. Never retried: a resent increment could
+     * count the riders twice.
+     */
+    async incrementRiders(lift: string, metadata: string, by = 1): Promise<SkiLiftDynamicData> {
+        return this.request(
+            "POST",
+            `/skilifts/${segment(lift)}/${segment(metadata)}/riders/increment`,
+            { body: { by }, retry: false }
+        );
+    }
+
+    async deleteSkiLift(
+        lift: string,
+        metadata: string,
+        options: UpdateOptions = {}
+    ): Promise<void> {
+        await this.request("DELETE", `/skilifts/${segment(lift)}/${segment(metadata)}`, {
+            headers: ifMatch(options),
+        });
+    }
+
+    /**
+     * Start permanently deleting every record of a lift, leaving a tombstone
+     * that keeps it out of OpenLifts. The deletion runs in the background;
+     * poll getDecommission until DecommissionStatus is Complete, and call
+     * this again to resume a Failed one.
+     */
+    async decommissionLift(lift: string): Promise<LiftTombstone> {
+        return this.request("DELETE", `/skilifts/${segment(lift)}`, {
+            query: { confirm: true },
+        });
+    }
+
+    /**
+     * The tombstone of a decommissioned lift, with the progress of the deletion
+     */
+    async getDecommission(lift: string): Promise<LiftTombstone> {
+        return this.request("GET", `/skilifts/${segment(lift)}/Decommissioned`);
+    }
+
+    async restoreSkiLift(
+        lift: string,
+        metadata: string,
+        options: UpdateOptions = {}
+    ): Promise<SkiLiftRecord> {
+        return this.request("POST", `/skilifts/${segment(lift)}/${segment(metadata)}/restore`, {
+            headers: ifMatch(options),
+        });
+    }
+
+    /**
+     * Yield every item of a paginated endpoint, following nextCursor
+     */
+    private async *paginate<T>(
+        fetchPage: (cursor?: string) => Promise<PaginatedResponse<T>>,
+        query: PageQuery
+    ): AsyncGenerator<T> {
+        let cursor = query.cursor;
+        do {
+            const page = await fetchPage(cursor);
+            yield* page.items;
+            cursor = page.nextCursor;
+        } while (cursor);
+    }
+
+    /**
+     * Send a request, retrying retryable failures (see isRetryable) with
+     * exponential backoff (honouring Retry-After), and decode the JSON response
+     */
+    private async request<T>(
+        method: string,
+        path: string,
+        options: RequestOptions = {}
+    ): Promise<T> {
+        const url = new URL(`${this.baseUrl}${this.apiPrefix}${path}`);
+        for (const [key, value] of Object.entries(options.query ?? {})) {
+            if (value !== undefined) {
+                url.searchParams.set(key, String(value));
+            }
+        }
+
+        const headers: Record<string, string> = {
+            accept: "application/json",
+            ...this.options.headers,
+            ...options.headers,
+        };
+        if (options.body !== undefined) {
+            headers["content-type"] = "application/json";
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            const response = await this.fetchFn(url, {
+                method,
+                headers,
+                body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+            });
+
+            const body = parseBody(await response.text());
+
+            if (
+                options.retry !== false &&
+                attempt < this.maxRetries &&
+                isRetryable(method, response, body)
+            ) {
+                const retryAfter = Number(response.headers.get("retry-after"));
+                await sleep(
+                    retryAfter > 0 ? retryAfter * 1000 : this.retryDelayMs * 2 ** attempt
+                );
+                continue;
+            }
+
+            if (!response.ok) {
+                throw toApiError(response.status, body);
+            }
+
+            return body as T;
+        }
+    }
+}
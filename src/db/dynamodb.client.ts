@@ -1,11 +1,14 @@
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { dynamoDBMetricsMiddleware } from "../utils/metrics.js";
+import type { Metrics } from "../utils/metrics.js";
+import { dynamoDBTracingMiddleware } from "../utils/tracing.js";
 
 /**
  * Configuration for DynamoDB client
  */
 export interface DynamoDBConfig {
-    mode: "local" | "remote";
+    mode: "local" | "remote" | "memory";
     region: string;
     endpoint?: string;
     credentials?: {
@@ -19,15 +22,32 @@ export interface DynamoDBConfig {
  */
 export const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || "SkiLifts";
 
+/**
+ * Audit log table: one entry per write to the SkiLifts table
+ */
+export const AUDIT_TABLE_NAME = process.env.DYNAMODB_AUDIT_TABLE_NAME || `${TABLE_NAME}Audit`;
+
 /**
  * GSI name constant
  */
 export const GSI_NAME = "SkiLiftsByRiders";
 
+/**
+ * Index of every record by its sort key, for reading one day across lifts
+ */
+export const DATE_GSI_NAME = "SkiLiftsByDate";
+
+export interface DynamoDBClientOptions {
+    metrics?: Metrics; // Record latency, outcome and consumed capacity of every command
+}
+
 /**
  * Create DynamoDB client based on configuration
  */
-export function createDynamoDBClient(config: DynamoDBConfig): DynamoDBDocumentClient {
+export function createDynamoDBClient(
+    config: DynamoDBConfig,
+    options: DynamoDBClientOptions = {}
+): DynamoDBDocumentClient {
     const clientConfig: any = {
         region: config.region,
     };
@@ -48,6 +68,19 @@ export function createDynamoDBClient(config: DynamoDBConfig): DynamoDBDocumentCl
 
     const client = new DynamoDBClient(clientConfig);
 
+    // The document client shares this middleware stack, so its commands are
+    // traced and measured too. Spans are no-ops until tracing is initialized
+    client.middlewareStack.add(dynamoDBTracingMiddleware(), {
+        step: "initialize",
+        name: "tracingMiddleware",
+    });
+    if (options.metrics) {
+        client.middlewareStack.add(dynamoDBMetricsMiddleware(options.metrics), {
+            step: "initialize",
+            name: "metricsMiddleware",
+        });
+    }
+
     // Create document client for easier data manipulation
     const docClient = DynamoDBDocumentClient.from(client, {
         marshallOptions: {
@@ -66,7 +99,15 @@ export function createDynamoDBClient(config: DynamoDBConfig): DynamoDBDocumentCl
  * Get DynamoDB configuration from environment variables
  */
 export function getDynamoDBConfig(): DynamoDBConfig {
-    const mode = (process.env.DYNAMODB_MODE || "local") as "local" | "remote";
+    const mode = (process.env.DYNAMODB_MODE || "local") as DynamoDBConfig["mode"];
+
+    // In-memory table for development and tests, no DynamoDB required
+    if (mode === "memory") {
+        return {
+            mode: "memory",
+            region: process.env.DYNAMODB_LOCAL_REGION || "us-east-1",
+        };
+    }
 
     if (mode === "local") {
         return {
@@ -1,11 +1,15 @@
 import dotenv from "dotenv";
 import { startServer } from "./server.js";
+import { initTracing } from "./utils/tracing.js";
 
 // Load environment variables
 dotenv.config();
 
+// Register the tracer provider before the server is built
+const shutdownTracing = initTracing();
+
 // Start the server
-startServer().catch((error) => {
+startServer({ onShutdown: shutdownTracing }).catch((error) => {
     console.error("Failed to start server:", error);
     process.exit(1);
 });
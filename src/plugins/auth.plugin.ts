@@ -0,0 +1,85 @@
+import type { FastifyPluginAsync, FastifyRequest } from "fastify";
+import fp from "fastify-plugin";
+import {
+    ANONYMOUS_PRINCIPAL,
+    createAuthenticators,
+    getAuthConfig,
+    hasRole,
+} from "../utils/auth.js";
+import type { Principal, Role } from "../utils/auth.js";
+import { ConfigurationError, ForbiddenError, UnauthorizedError } from "../utils/error-handler.js";
+
+/**
+ * Extend Fastify with the authenticated principal and the per-route role
+ */
+declare module "fastify" {
+    interface FastifyRequest {
+        principal?: Principal;
+    }
+
+    interface FastifyContextConfig {
+        role?: Role; // Minimum role required to call the route; omit for public routes
+    }
+}
+
+/**
+ * Auth plugin for Fastify
+ * Authenticates callers of every route that declares config.role, using a
+ * bearer JWT or an X-API-Key header, and rejects callers without that role.
+ * 401 and 403 errors are answered by the server's error handler.
+ */
+const authPlugin: FastifyPluginAsync = async (fastify) => {
+    const config = getAuthConfig();
+    const { verifyToken, verifyApiKey } = createAuthenticators(config);
+
+    if (!config.enabled) {
+        fastify.log.warn("Authentication is disabled (AUTH_ENABLED=false)");
+    } else if (!verifyToken && !verifyApiKey) {
+        // Every protected route would answer 401, so refuse to start instead
+        throw new ConfigurationError(
+            "Authentication is enabled but no verifier is configured: " +
+                "set JWT_SECRET, JWT_JWKS, JWT_JWKS_URL or API_KEYS, or AUTH_ENABLED=false"
+        );
+    }
+
+    const authenticate = async (request: FastifyRequest): Promise<Principal> => {
+        const authorization = request.headers.authorization;
+        const apiKey = request.headers["x-api-key"];
+
+        if (authorization?.startsWith("Bearer ") && verifyToken) {
+            return verifyToken(authorization.slice("Bearer ".length).trim());
+        }
+
+        if (typeof apiKey === "string" && verifyApiKey) {
+            return verifyApiKey(apiKey);
+        }
+
+        throw new UnauthorizedError();
+    };
+
+    fastify.decorateRequest("principal", undefined);
+
+    fastify.addHook("onRequest", async (request, reply) => {
+        const role = request.routeOptions.config.role;
+        if (!role) {
+            return;
+        }
+
+        let principal: Principal;
+        try {
+            principal = config.enabled ? await authenticate(request) : ANONYMOUS_PRINCIPAL;
+        } catch (error) {
+            reply.header("WWW-Authenticate", 'Bearer realm="skilifts"');
+            throw error;
+        }
+
+        if (!hasRole(principal, role)) {
+            throw new ForbiddenError(`The ${role} role is required`);
+        }
+        request.principal = principal;
+    });
+};
+
+export default fp(authPlugin, {
+    name: "auth-plugin",
+});
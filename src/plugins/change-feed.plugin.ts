@@ -0,0 +1,33 @@
+import type { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { ChangeFeed, getChangeStreamConfig } from "../utils/change-feed.js";
+
+/**
+ * Extend Fastify instance with the feed of record changes
+ */
+declare module "fastify" {
+    interface FastifyInstance {
+        changeFeed: ChangeFeed;
+    }
+}
+
+/**
+ * Change feed plugin for Fastify
+ * Decorates the Fastify instance with one feed shared by the routes of every
+ * resort, which publish their writes to it and stream it to clients. Open
+ * streams never end by themselves, so they are closed before the server
+ * waits for its connections to finish.
+ */
+const changeFeedPlugin: FastifyPluginAsync = async (fastify) => {
+    const feed = new ChangeFeed(getChangeStreamConfig().bufferSize);
+
+    fastify.decorate("changeFeed", feed);
+
+    fastify.addHook("preClose", async () => {
+        feed.close();
+    });
+};
+
+export default fp(changeFeedPlugin, {
+    name: "change-feed-plugin",
+});
@@ -1,20 +1,37 @@
+import { DescribeTableCommand } from "@aws-sdk/client-dynamodb";
 import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
 import type { FastifyPluginAsync } from "fastify";
 import fp from "fastify-plugin";
-import { createDynamoDBClient, getDynamoDBConfig } from "../db/dynamodb.client.js";
+import { TABLE_NAME, createDynamoDBClient, getDynamoDBConfig } from "../db/dynamodb.client.js";
+import type { AuditRepository } from "../repositories/audit.repository.js";
+import {
+    DynamoDBAuditRepository,
+    DynamoDBSkiLiftRepository,
+} from "../repositories/dynamodb.repository.js";
+import {
+    InMemoryAuditRepository,
+    InMemorySkiLiftRepository,
+} from "../repositories/memory.repository.js";
+import type { SkiLiftRepository } from "../repositories/skilift.repository.js";
+import { ConfigurationError } from "../utils/error-handler.js";
 
 /**
- * Extend Fastify instance with DynamoDB client
+ * Extend Fastify instance with DynamoDB client and the ski lift and audit repositories
  */
 declare module "fastify" {
     interface FastifyInstance {
         dynamodb: DynamoDBDocumentClient;
+        skiLiftRepository: SkiLiftRepository;
+        auditRepository: AuditRepository;
     }
 }
 
 /**
  * DynamoDB plugin for Fastify
- * Initializes and decorates the Fastify instance with a DynamoDB client
+ * Initializes and decorates the Fastify instance with a DynamoDB client,
+ * the repository the routes read and write through and the audit log of
+ * those writes. In memory mode both repositories keep data in process and
+ * the client is never used.
  */
 const dynamoDBPlugin: FastifyPluginAsync = async (fastify) => {
     const config = getDynamoDBConfig();
@@ -23,10 +40,39 @@ const dynamoDBPlugin: FastifyPluginAsync = async (fastify) => {
         `Initializing DynamoDB client in ${config.mode} mode (region: ${config.region})`
     );
 
-    const dynamodbClient = createDynamoDBClient(config);
+    const dynamodbClient = createDynamoDBClient(config, { metrics: fastify.metrics });
 
-    // Decorate Fastify instance with DynamoDB client
+    const repository: SkiLiftRepository =
+        config.mode === "memory"
+            ? new InMemorySkiLiftRepository()
+            : new DynamoDBSkiLiftRepository(dynamodbClient);
+    const auditRepository: AuditRepository =
+        config.mode === "memory"
+            ? new InMemoryAuditRepository()
+            : new DynamoDBAuditRepository(dynamodbClient);
+
+    // Decorate Fastify instance with DynamoDB client and repository
     fastify.decorate("dynamodb", dynamodbClient);
+    fastify.decorate("skiLiftRepository", repository);
+    fastify.decorate("auditRepository", auditRepository);
+
+    // Refuse to start against a table that does not exist, rather than
+    // answering every request with a 500. Other failures (DynamoDB not
+    // reachable yet) are only logged so the server can still come up.
+    if (config.mode !== "memory") {
+        fastify.addHook("onReady", async () => {
+            try {
+                await dynamodbClient.send(new DescribeTableCommand({ TableName: TABLE_NAME }));
+            } catch (error) {
+                if ((error as Error).name === "ResourceNotFoundException") {
+                    throw new ConfigurationError(
+                        `DynamoDB table ${TABLE_NAME} does not exist, check DYNAMODB_TABLE_NAME or run npm run create-table`
+                    );
+                }
+                fastify.log.warn({ err: error }, `Could not verify DynamoDB table ${TABLE_NAME}`);
+            }
+        });
+    }
 
     // Cleanup on server close
     fastify.addHook("onClose", async (instance) => {
@@ -39,4 +85,5 @@ const dynamoDBPlugin: FastifyPluginAsync = async (fastify) => {
 
 export default fp(dynamoDBPlugin, {
     name: "dynamodb-plugin",
+    dependencies: ["metrics-plugin"],
 });
@@ -0,0 +1,60 @@
+import type { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { GSI_NAME, TABLE_NAME, getDynamoDBConfig } from "../db/dynamodb.client.js";
+import { ReadinessProbe, checkTable, getHealthConfig } from "../utils/health.js";
+import type { DependencyCheck } from "../utils/health.js";
+
+/**
+ * Health plugin for Fastify
+ * Serves /health/live for the container health check (the process is up)
+ * and /health/ready for the load balancer (DynamoDB is usable). Readiness
+ * answers 503 while a dependency is down so traffic moves to healthy tasks.
+ * In memory mode there is no table to probe and the check is skipped.
+ * Must be registered after the DynamoDB plugin.
+ */
+const healthPlugin: FastifyPluginAsync = async (fastify) => {
+    const config = getHealthConfig();
+    const memoryMode = getDynamoDBConfig().mode === "memory";
+
+    const probe = new ReadinessProbe(
+        {
+            dynamodb: async (): Promise<DependencyCheck> => {
+                if (memoryMode) {
+                    return { status: "skipped" };
+                }
+                const result = await checkTable(fastify.dynamodb, {
+                    tableName: TABLE_NAME,
+                    indexName: GSI_NAME,
+                    timeoutMs: config.timeoutMs,
+                });
+                if (result.status === "down") {
+                    fastify.log.warn({ check: result }, "DynamoDB readiness check failed");
+                }
+                return result;
+            },
+        },
+        config.cacheTtlMs
+    );
+
+    const live = async () => {
+        return {
+            status: "ok",
+            timestamp: new Date().toISOString(),
+            uptime: process.uptime(),
+        };
+    };
+
+    // /health is kept for existing monitors and behaves like /health/live
+    fastify.get("/health", { config: { rateLimit: false } }, live);
+    fastify.get("/health/live", { config: { rateLimit: false } }, live);
+
+    fastify.get("/health/ready", { config: { rateLimit: false } }, async (_request, reply) => {
+        const report = await probe.check();
+        return reply.code(report.status === "ready" ? 200 : 503).send(report);
+    });
+};
+
+export default fp(healthPlugin, {
+    name: "health-plugin",
+    dependencies: ["dynamodb-plugin"],
+});
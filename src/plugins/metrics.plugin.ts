@@ -0,0 +1,46 @@
+import type { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { Metrics, UNMATCHED_ROUTE } from "../utils/metrics.js";
+
+/**
+ * Extend Fastify instance with the metrics registry
+ */
+declare module "fastify" {
+    interface FastifyInstance {
+        metrics: Metrics;
+    }
+}
+
+export interface MetricsPluginOptions {
+    metrics?: Metrics; // Defaults to a new registry with process metrics
+}
+
+/**
+ * Metrics plugin for Fastify
+ * Counts and times every response by route pattern, and serves the
+ * registry at /metrics in the Prometheus text format. Must be registered
+ * before the DynamoDB plugin, which passes the registry to its client.
+ */
+const metricsPlugin: FastifyPluginAsync<MetricsPluginOptions> = async (fastify, options) => {
+    const metrics = options.metrics ?? new Metrics();
+
+    fastify.decorate("metrics", metrics);
+
+    fastify.addHook("onResponse", async (request, reply) => {
+        metrics.observeRequest(
+            request.method,
+            request.routeOptions.url ?? UNMATCHED_ROUTE,
+            reply.statusCode,
+            reply.elapsedTime / 1000
+        );
+    });
+
+    fastify.get("/metrics", { config: { rateLimit: false } }, async (_request, reply) => {
+        const { contentType, body } = await metrics.render();
+        return reply.type(contentType).send(body);
+    });
+};
+
+export default fp(metricsPlugin, {
+    name: "metrics-plugin",
+});
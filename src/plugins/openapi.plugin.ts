@@ -0,0 +1,89 @@
+import swagger from "@fastify/swagger";
+import swaggerUi from "@fastify/swagger-ui";
+import type { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { resortParamsSchema } from "../schemas/skilift.schemas.js";
+import { toJsonSchema } from "../utils/openapi.js";
+
+const resortIdParamSchema = toJsonSchema(resortParamsSchema.shape.resortId.unwrap());
+
+/**
+ * OpenAPI plugin for Fastify
+ * Collects the route schemas into an OpenAPI 3.1 document served at
+ * /openapi.json, with interactive Swagger UI docs at /docs.
+ * Must be registered before the routes it documents.
+ */
+const openAPIPlugin: FastifyPluginAsync = async (fastify) => {
+    await fastify.register(swagger, {
+        openapi: {
+            openapi: "3.1.0",
+            info: {
+                title: "Fastify DynamoDB API",
+                description: "Ski Lift CRUD API with DynamoDB",
+                version: "1.0.0",
+            },
+            tags: [
+                { name: "Ski Lifts", description: "Static and daily lift data" },
+                { name: "Resort", description: "Resort-wide operations" },
+                { name: "Resorts", description: "The same operations on one resort's data" },
+            ],
+            components: {
+                securitySchemes: {
+                    bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+                    apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+                },
+            },
+        },
+        transform: ({ schema, url, route }) => {
+            if (!schema) {
+                return { schema, url };
+            }
+            let documented = schema;
+
+            // Tenant-scoped copies of the routes share their schemas, which do
+            // not know about the resort prefix
+            if (url.includes(":resortId")) {
+                const params = (schema.params ?? {}) as Record<string, any>;
+                documented = {
+                    ...documented,
+                    tags: ["Resorts"],
+                    params: {
+                        type: "object",
+                        ...params,
+                        properties: {
+                            resortId: resortIdParamSchema,
+                            ...params.properties,
+                        },
+                        required: ["resortId", ...(params.required ?? [])],
+                    },
+                };
+            }
+
+            // Document the role each protected route requires (see auth.plugin.ts)
+            const role = route.config?.role;
+            if (role) {
+                documented = {
+                    ...documented,
+                    description: [schema.description, `Requires the \`${role}\` role.`]
+                        .filter(Boolean)
+                        .join(" "),
+                    security: [{ bearerAuth: [] }, { apiKey: [] }],
+                };
+            }
+
+            return { schema: documented, url };
+        },
+    });
+
+    await fastify.register(swaggerUi, {
+        routePrefix: "/docs",
+    });
+
+    fastify.get("/openapi.json", { schema: { hide: true } }, async () => {
+        return fastify.swagger();
+    });
+};
+
+export default fp(openAPIPlugin, {
+    name: "openapi-plugin",
+});
@@ -0,0 +1,94 @@
+import type { FastifyPluginAsync, FastifyRequest } from "fastify";
+import fp from "fastify-plugin";
+import { TooManyRequestsError } from "../utils/error-handler.js";
+import { InMemoryRateLimitStore, getRateLimitConfig } from "../utils/rate-limit.js";
+import type { RateLimitBudget, RateLimitStore } from "../utils/rate-limit.js";
+
+/**
+ * Extend Fastify with the per-route rate limit budget
+ */
+declare module "fastify" {
+    interface FastifyContextConfig {
+        // Budget the route draws from (default "default"), false to exempt it
+        rateLimit?: RateLimitBudget | false;
+    }
+}
+
+export interface RateLimitPluginOptions {
+    store?: RateLimitStore; // Defaults to an in-process store
+}
+
+/**
+ * Bucket owner: the authenticated API key or token subject, otherwise the client IP
+ */
+function clientKey(request: FastifyRequest): string {
+    const principal = request.principal;
+    if (principal && principal.type !== "anonymous") {
+        return `${principal.type}:${principal.id}`;
+    }
+    return `ip:${request.ip}`;
+}
+
+function rejectUntil(retryAfterSeconds: number): never {
+    throw new TooManyRequestsError(
+        `Rate limit exceeded, retry in ${retryAfterSeconds} seconds`,
+        retryAfterSeconds
+    );
+}
+
+/**
+ * Rate limit plugin for Fastify
+ * Takes a token from the client IP's bucket as each request arrives, before
+ * the auth plugin runs, so callers with missing or invalid credentials are
+ * limited as well. Once authentication has attached a principal, takes a
+ * token from the caller's bucket for the route's budget and sets
+ * RateLimit-* headers. Either empty bucket fails the request with a 429
+ * TooManyRequestsError. Must be registered before the auth plugin.
+ */
+const rateLimitPlugin: FastifyPluginAsync<RateLimitPluginOptions> = async (fastify, options) => {
+    const config = getRateLimitConfig();
+    const store = options.store ?? new InMemoryRateLimitStore();
+
+    if (!config.enabled) {
+        fastify.log.warn("Rate limiting is disabled (RATE_LIMIT_ENABLED=false)");
+        return;
+    }
+
+    fastify.addHook("onRequest", async (request) => {
+        if (request.routeOptions.config.rateLimit === false) {
+            return;
+        }
+
+        const result = await store.take(`ip:${request.ip}`, config.perIp);
+        if (!result.allowed) {
+            rejectUntil(result.retryAfterSeconds);
+        }
+    });
+
+    // preParsing runs after every onRequest hook, i.e. after authentication
+    fastify.addHook("preParsing", async (request, reply) => {
+        const budget = request.routeOptions.config.rateLimit ?? "default";
+        if (budget === false) {
+            return;
+        }
+
+        const policy = config.budgets[budget];
+        const result = await store.take(`${budget}:${clientKey(request)}`, policy);
+
+        reply.header("RateLimit-Limit", policy.capacity);
+        reply.header("RateLimit-Remaining", result.remaining);
+        reply.header("RateLimit-Reset", result.resetSeconds);
+        reply.header(
+            "RateLimit-Policy",
+            `${policy.capacity};w=${Math.ceil(policy.capacity / policy.refillPerSecond)}`
+        );
+
+        if (!result.allowed) {
+            rejectUntil(result.retryAfterSeconds);
+        }
+    });
+};
+
+export default fp(rateLimitPlugin, {
+    name: "rate-limit-plugin",
+});
@@ -0,0 +1,88 @@
+import { SpanKind, SpanStatusCode, context, propagation, trace } from "@opentelemetry/api";
+import type { Span } from "@opentelemetry/api";
+import type { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { TRACER_NAME } from "../utils/tracing.js";
+
+/**
+ * Extend Fastify request with its server and serialization spans
+ */
+declare module "fastify" {
+    interface FastifyRequest {
+        span?: Span;
+        serializationSpan?: Span;
+    }
+}
+
+/**
+ * Tracing plugin for Fastify
+ * Starts a server span per request, continuing the caller's trace when a
+ * W3C traceparent header is present, and runs the rest of the request in
+ * its context so DynamoDB spans become its children. Serialization gets a
+ * child span of its own. Spans are named after the route pattern, e.g.
+ * "GET /api/skilifts/:lift/:metadata". Does nothing until initTracing has
+ * registered a tracer provider.
+ */
+const tracingPlugin: FastifyPluginAsync = async (fastify) => {
+    const tracer = trace.getTracer(TRACER_NAME);
+
+    fastify.addHook("onRequest", (request, _reply, done) => {
+        const route = request.routeOptions.url;
+        const parentContext = propagation.extract(context.active(), request.headers);
+
+        const span = tracer.startSpan(
+            route ? `${request.method} ${route}` : request.method,
+            {
+                kind: SpanKind.SERVER,
+                attributes: {
+                    "http.request.method": request.method,
+                    "url.path": request.url.split("?")[0],
+                    "request.id": request.id,
+                    ...(route && { "http.route": route }),
+                },
+            },
+            parentContext
+        );
+        request.span = span;
+
+        // Run the remaining hooks and the handler with the span active
+        context.with(trace.setSpan(parentContext, span), done);
+    });
+
+    fastify.addHook("preSerialization", async (request, _reply, payload) => {
+        if (request.span) {
+            request.serializationSpan = tracer.startSpan(
+                "serialize",
+                undefined,
+                trace.setSpan(context.active(), request.span)
+            );
+        }
+        return payload;
+    });
+
+    fastify.addHook("onSend", async (request, _reply, payload) => {
+        request.serializationSpan?.end();
+        return payload;
+    });
+
+    fastify.addHook("onError", async (request, _reply, error) => {
+        request.span?.recordException(error);
+    });
+
+    // Only 5xx responses fail the span: a 4xx is the client's mistake, not the server's
+    fastify.addHook("onResponse", async (request, reply) => {
+        const span = request.span;
+        if (!span) {
+            return;
+        }
+        span.setAttribute("http.response.status_code", reply.statusCode);
+        if (reply.statusCode >= 500) {
+            span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        span.end();
+    });
+};
+
+export default fp(tracingPlugin, {
+    name: "tracing-plugin",
+});
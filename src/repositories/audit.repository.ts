@@ -0,0 +1,44 @@
+import type { AuditEntry } from "../types/skilift.types.js";
+import type { ItemKey } from "./skilift.repository.js";
+
+/**
+ * Storage abstraction for the audit log.
+ *
+ * Entries are grouped by the record they describe (its stored Lift and
+ * Metadata) and ordered by AuditId, which starts with the time of the change.
+ */
+
+/**
+ * Partition key of a record's audit entries. Metadata never contains the
+ * separator, so the key cannot be confused with another record's.
+ */
+export function auditRecordKey(key: ItemKey): string {
+    return `${key.Lift}#${key.Metadata}`;
+}
+
+/**
+ * One page of audit entries with the key to resume from
+ */
+export interface AuditPage {
+    items: AuditEntry[];
+    lastEvaluatedKey?: Record<string, any>;
+    count: number;
+}
+
+/**
+ * Query the audit entries of one record, newest first
+ */
+export interface AuditQuery {
+    key: ItemKey;
+    limit?: number;
+    exclusiveStartKey?: Record<string, any>;
+}
+
+export interface AuditRepository {
+    /**
+     * Store entries, retrying any the backend could not write at once
+     */
+    append(entries: AuditEntry[]): Promise<void>;
+
+    query(query: AuditQuery): Promise<AuditPage>;
+}
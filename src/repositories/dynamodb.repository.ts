@@ -0,0 +1,485 @@
+import {
+    BatchGetCommand,
+    BatchWriteCommand,
+    DeleteCommand,
+    GetCommand,
+    PutCommand,
+    QueryCommand,
+    ScanCommand,
+    TransactWriteCommand,
+    UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { AUDIT_TABLE_NAME, DATE_GSI_NAME, GSI_NAME, TABLE_NAME } from "../db/dynamodb.client.js";
+import type { AuditEntry, SkiLiftRecord } from "../types/skilift.types.js";
+import { auditRecordKey } from "./audit.repository.js";
+import type { AuditPage, AuditQuery, AuditRepository } from "./audit.repository.js";
+import type {
+    ItemChanges,
+    ItemKey,
+    MetadataQuery,
+    Page,
+    PartitionQuery,
+    RidersQuery,
+    ScanQuery,
+    SkiLiftRepository,
+    TransactionItem,
+    UpdateResult,
+    WriteCondition,
+} from "./skilift.repository.js";
+
+interface ConditionParams {
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Record<string, any>;
+}
+
+/**
+ * Translate a write condition into a condition expression.
+ * Records written before versioning have no Version attribute and count as version 0.
+ */
+function conditionParams(condition: WriteCondition = {}): ConditionParams {
+    if (condition.ifNotExists) {
+        return { ConditionExpression: "attribute_not_exists(Lift)" };
+    }
+
+    const clauses: string[] = [];
+    const params: ConditionParams = {};
+
+    if (condition.expectedVersion !== undefined) {
+        clauses.push(
+            "attribute_exists(Lift)",
+            condition.expectedVersion === 0
+                ? "(attribute_not_exists(#version) OR #version = :expectedVersion)"
+                : "#version = :expectedVersion"
+        );
+        params.ExpressionAttributeNames = { "#version": "Version" };
+        params.ExpressionAttributeValues = { ":expectedVersion": condition.expectedVersion };
+    } else if (condition.ifExists) {
+        clauses.push("attribute_exists(Lift)");
+    }
+
+    if (condition.ifNotDeleted) {
+        clauses.push("attribute_not_exists(DeletedAt)");
+    }
+
+    return clauses.length > 0 ? { ConditionExpression: clauses.join(" AND "), ...params } : {};
+}
+
+function toPage(result: {
+    Items?: Record<string, any>[];
+    LastEvaluatedKey?: Record<string, any>;
+    Count?: number;
+}): Page {
+    return {
+        items: (result.Items as SkiLiftRecord[]) || [],
+        lastEvaluatedKey: result.LastEvaluatedKey,
+        count: result.Count || 0,
+    };
+}
+
+/**
+ * SkiLifts table backed by DynamoDB
+ */
+export class DynamoDBSkiLiftRepository implements SkiLiftRepository {
+    constructor(private dynamodb: DynamoDBDocumentClient) { }
+
+    async get(key: ItemKey): Promise<SkiLiftRecord | undefined> {
+        const result = await this.dynamodb.send(
+            new GetCommand({
+                TableName: TABLE_NAME,
+                Key: key,
+            })
+        );
+
+        return result?.Item as SkiLiftRecord | undefined;
+    }
+
+    async put(item: SkiLiftRecord, condition?: WriteCondition): Promise<SkiLiftRecord | undefined> {
+        const result = await this.dynamodb.send(
+            new PutCommand({
+                TableName: TABLE_NAME,
+                Item: item,
+                ...conditionParams(condition),
+                ReturnValues: "ALL_OLD",
+            })
+        );
+
+        return result?.Attributes as SkiLiftRecord | undefined;
+    }
+
+    /**
+     * UpdateItem returns either the old or the new image, not both. The update
+     * only sets literal values, removes attributes and increments Version, so
+     * the new image is derived from the old one instead of being read back.
+     */
+    async update(
+        key: ItemKey,
+        changes: ItemChanges,
+        condition?: WriteCondition
+    ): Promise<UpdateResult> {
+        const updateExpressions: string[] = [];
+        const expressionAttributeNames: Record<string, string> = {};
+        const expressionAttributeValues: Record<string, any> = {};
+        const set: Record<string, unknown> = {};
+
+        for (const [attribute, value] of Object.entries(changes.set)) {
+            if (attribute === "Lift" || attribute === "Metadata" || attribute === "Version") {
+                continue;
+            }
+            if (value === undefined) {
+                continue; // Dropped by the marshaller, so never written
+            }
+            updateExpressions.push(`#${attribute} = :${attribute}`);
+            expressionAttributeNames[`#${attribute}`] = attribute;
+            expressionAttributeValues[`:${attribute}`] = value;
+            set[attribute] = value;
+        }
+
+        const defaults: Record<string, unknown> = {};
+        for (const [attribute, value] of Object.entries(changes.defaults ?? {})) {
+            if (attribute in set || value === undefined) {
+                continue;
+            }
+            updateExpressions.push(
+                `#${attribute} = if_not_exists(#${attribute}, :default${attribute})`
+            );
+            expressionAttributeNames[`#${attribute}`] = attribute;
+            expressionAttributeValues[`:default${attribute}`] = value;
+            defaults[attribute] = value;
+        }
+
+        updateExpressions.push("#version = if_not_exists(#version, :zero) + :one");
+        expressionAttributeNames["#version"] = "Version";
+        expressionAttributeValues[":zero"] = 0;
+        expressionAttributeValues[":one"] = 1;
+
+        const removed = (changes.remove ?? []).filter((attribute) => !(attribute in set));
+        for (const attribute of removed) {
+            expressionAttributeNames[`#${attribute}`] = attribute;
+        }
+        const removeExpression =
+            removed.length > 0
+                ? ` REMOVE ${removed.map((attribute) => `#${attribute}`).join(", ")}`
+                : "";
+
+        const added = Object.entries(changes.add ?? {});
+        for (const [attribute, amount] of added) {
+            expressionAttributeNames[`#${attribute}`] = attribute;
+            expressionAttributeValues[`:add${attribute}`] = amount;
+        }
+        const addExpression =
+            added.length > 0
+                ? ` ADD ${added.map(([attribute]) => `#${attribute} :add${attribute}`).join(", ")}`
+                : "";
+
+        const versionCheck = conditionParams(condition);
+
+        const result = await this.dynamodb.send(
+            new UpdateCommand({
+                TableName: TABLE_NAME,
+                Key: key,
+                UpdateExpression: `SET ${updateExpressions.join(", ")}${removeExpression}${addExpression}`,
+                ExpressionAttributeNames: {
+                    ...expressionAttributeNames,
+                    ...versionCheck.ExpressionAttributeNames,
+                },
+                ExpressionAttributeValues: {
+                    ...expressionAttributeValues,
+                    ...versionCheck.ExpressionAttributeValues,
+                },
+                ConditionExpression: versionCheck.ConditionExpression,
+                ReturnValues: "ALL_OLD",
+            })
+        );
+
+        // ALL_OLD is the image this update was applied to, so the new one follows from it
+        const previous = result?.Attributes as SkiLiftRecord | undefined;
+        const item: Record<string, any> = {
+            ...defaults,
+            ...previous,
+            ...set,
+            ...key,
+            Version: (previous?.Version ?? 0) + 1,
+        };
+        for (const attribute of removed) {
+            delete item[attribute];
+        }
+        for (const [attribute, amount] of added) {
+            item[attribute] = (item[attribute] ?? 0) + amount;
+        }
+
+        return { item: item as SkiLiftRecord, previous };
+    }
+
+    async delete(key: ItemKey, condition?: WriteCondition): Promise<SkiLiftRecord | undefined> {
+        const result = await this.dynamodb.send(
+            new DeleteCommand({
+                TableName: TABLE_NAME,
+                Key: key,
+                ...conditionParams(condition),
+                ReturnValues: "ALL_OLD",
+            })
+        );
+
+        return result?.Attributes as SkiLiftRecord | undefined;
+    }
+
+    async queryPartition(query: PartitionQuery): Promise<Page> {
+        const expressionAttributeValues: Record<string, any> = { ":lift": query.lift };
+        let keyConditionExpression = "Lift = :lift";
+
+        if (query.between) {
+            keyConditionExpression += " AND Metadata BETWEEN :from AND :to";
+            expressionAttributeValues[":from"] = query.between.from;
+            expressionAttributeValues[":to"] = query.between.to;
+        }
+
+        const result = await this.dynamodb.send(
+            new QueryCommand({
+                TableName: TABLE_NAME,
+                KeyConditionExpression: keyConditionExpression,
+                ExpressionAttributeValues: expressionAttributeValues,
+                Limit: query.limit,
+                ScanIndexForward: query.between ? true : undefined, // Chronological order
+                ExclusiveStartKey: query.exclusiveStartKey,
+            })
+        );
+
+        return toPage(result);
+    }
+
+    async queryByRiders(query: RidersQuery): Promise<Page> {
+        let keyConditionExpression = "Lift = :lift";
+        const expressionAttributeValues: Record<string, any> = {
+            ":lift": query.lift,
+        };
+
+        // Add range condition for riders if specified
+        if (query.minRiders !== undefined && query.maxRiders !== undefined) {
+            keyConditionExpression += " AND TotalUniqueLiftRiders BETWEEN :minRiders AND :maxRiders";
+            expressionAttributeValues[":minRiders"] = query.minRiders;
+            expressionAttributeValues[":maxRiders"] = query.maxRiders;
+        } else if (query.minRiders !== undefined) {
+            keyConditionExpression += " AND TotalUniqueLiftRiders >= :minRiders";
+            expressionAttributeValues[":minRiders"] = query.minRiders;
+        } else if (query.maxRiders !== undefined) {
+            keyConditionExpression += " AND TotalUniqueLiftRiders <= :maxRiders";
+            expressionAttributeValues[":maxRiders"] = query.maxRiders;
+        }
+
+        const result = await this.dynamodb.send(
+            new QueryCommand({
+                TableName: TABLE_NAME,
+                IndexName: GSI_NAME,
+                KeyConditionExpression: keyConditionExpression,
+                ExpressionAttributeValues: expressionAttributeValues,
+                Limit: query.limit,
+                ScanIndexForward: false, // Sort descending by riders
+                ExclusiveStartKey: query.exclusiveStartKey,
+            })
+        );
+
+        return toPage(result);
+    }
+
+    async queryByMetadata(query: MetadataQuery): Promise<Page> {
+        let keyConditionExpression = "Metadata = :metadata";
+        const expressionAttributeValues: Record<string, any> = {
+            ":metadata": query.metadata,
+        };
+
+        if (query.liftPrefix !== undefined) {
+            keyConditionExpression += " AND begins_with(Lift, :liftPrefix)";
+            expressionAttributeValues[":liftPrefix"] = query.liftPrefix;
+        }
+
+        const result = await this.dynamodb.send(
+            new QueryCommand({
+                TableName: TABLE_NAME,
+                IndexName: DATE_GSI_NAME,
+                KeyConditionExpression: keyConditionExpression,
+                ExpressionAttributeValues: expressionAttributeValues,
+                Limit: query.limit,
+                ExclusiveStartKey: query.exclusiveStartKey,
+            })
+        );
+
+        return toPage(result);
+    }
+
+    async scan(query: ScanQuery): Promise<Page> {
+        const filters: string[] = [];
+        const values: Record<string, any> = {};
+
+        if (Array.isArray(query.metadata)) {
+            const names = query.metadata.map((_, index) => `:metadata${index}`);
+            filters.push(`Metadata IN (${names.join(", ")})`);
+            query.metadata.forEach((metadata, index) => {
+                values[names[index]] = metadata;
+            });
+        } else if (query.metadata !== undefined) {
+            filters.push("Metadata = :metadata");
+            values[":metadata"] = query.metadata;
+        }
+        if (query.liftPrefix !== undefined) {
+            filters.push("begins_with(Lift, :liftPrefix)");
+            values[":liftPrefix"] = query.liftPrefix;
+        }
+
+        const result = await this.dynamodb.send(
+            new ScanCommand({
+                TableName: TABLE_NAME,
+                Limit: query.limit,
+                ExclusiveStartKey: query.exclusiveStartKey,
+                ...(filters.length > 0 && {
+                    FilterExpression: filters.join(" AND "),
+                    ExpressionAttributeValues: values,
+                }),
+                ConsistentRead: query.consistentRead,
+            })
+        );
+
+        return toPage(result);
+    }
+
+    async batchGet(keys: ItemKey[]): Promise<{ items: SkiLiftRecord[]; unprocessed: ItemKey[] }> {
+        const output = await this.dynamodb.send(
+            new BatchGetCommand({
+                RequestItems: {
+                    [TABLE_NAME]: {
+                        Keys: keys.map((key) => ({ Lift: key.Lift, Metadata: key.Metadata })),
+                        ConsistentRead: true,
+                    },
+                },
+            })
+        );
+
+        return {
+            items: (output?.Responses?.[TABLE_NAME] ?? []) as SkiLiftRecord[],
+            unprocessed: (output?.UnprocessedKeys?.[TABLE_NAME]?.Keys ?? []) as ItemKey[],
+        };
+    }
+
+    async batchPut(items: SkiLiftRecord[]): Promise<SkiLiftRecord[]> {
+        const output = await this.dynamodb.send(
+            new BatchWriteCommand({
+                RequestItems: {
+                    [TABLE_NAME]: items.map((item) => ({
+                        PutRequest: { Item: item },
+                    })),
+                },
+            })
+        );
+
+        return (output.UnprocessedItems?.[TABLE_NAME] ?? []).map(
+            (request) => request.PutRequest?.Item as SkiLiftRecord
+        );
+    }
+
+    async batchDelete(keys: ItemKey[]): Promise<ItemKey[]> {
+        const output = await this.dynamodb.send(
+            new BatchWriteCommand({
+                RequestItems: {
+                    [TABLE_NAME]: keys.map((key) => ({
+                        DeleteRequest: { Key: { Lift: key.Lift, Metadata: key.Metadata } },
+                    })),
+                },
+            })
+        );
+
+        return (output.UnprocessedItems?.[TABLE_NAME] ?? []).map(
+            (request) => request.DeleteRequest?.Key as ItemKey
+        );
+    }
+
+    async transactWrite(items: TransactionItem[]): Promise<void> {
+        await this.dynamodb.send(
+            new TransactWriteCommand({
+                TransactItems: items.map((entry) =>
+                    "put" in entry
+                        ? {
+                            Put: {
+                                TableName: TABLE_NAME,
+                                Item: entry.put,
+                                ...conditionParams(entry.condition),
+                            },
+                        }
+                        : {
+                            ConditionCheck: {
+                                TableName: TABLE_NAME,
+                                Key: entry.conditionCheck,
+                                ...(conditionParams(entry.condition) as Required<ConditionParams>),
+                            },
+                        }
+                ),
+            })
+        );
+    }
+}
+
+/**
+ * BatchWriteItem accepts at most 25 requests per call
+ */
+const AUDIT_BATCH_SIZE = 25;
+
+/**
+ * Retry budget for UnprocessedItems when appending audit entries
+ */
+const AUDIT_MAX_ATTEMPTS = 5;
+const AUDIT_BASE_DELAY_MS = 50;
+
+/**
+ * Audit log table backed by DynamoDB. Partition key RecordKey
+ * ("<Lift>#<Metadata>"), sort key AuditId.
+ */
+export class DynamoDBAuditRepository implements AuditRepository {
+    constructor(private dynamodb: DynamoDBDocumentClient) { }
+
+    async append(entries: AuditEntry[]): Promise<void> {
+        for (let start = 0; start < entries.length; start += AUDIT_BATCH_SIZE) {
+            let requests: { PutRequest: { Item: Record<string, any> } }[] = entries
+                .slice(start, start + AUDIT_BATCH_SIZE)
+                .map((entry) => ({
+                    PutRequest: { Item: { RecordKey: auditRecordKey(entry), ...entry } },
+                }));
+
+            for (let attempt = 1; requests.length > 0; attempt++) {
+                if (attempt > AUDIT_MAX_ATTEMPTS) {
+                    throw new Error(
+                        `${requests.length} audit entries unprocessed after ${AUDIT_MAX_ATTEMPTS} attempts`
+                    );
+                }
+                if (attempt > 1) {
+                    await new Promise((resolve) =>
+                        setTimeout(resolve, AUDIT_BASE_DELAY_MS * 2 ** (attempt - 2))
+                    );
+                }
+
+                const output = await this.dynamodb.send(
+                    new BatchWriteCommand({ RequestItems: { [AUDIT_TABLE_NAME]: requests } })
+                );
+                requests = (output.UnprocessedItems?.[AUDIT_TABLE_NAME] ?? []) as typeof requests;
+            }
+        }
+    }
+
+    async query(query: AuditQuery): Promise<AuditPage> {
+        const result = await this.dynamodb.send(
+            new QueryCommand({
+                TableName: AUDIT_TABLE_NAME,
+                KeyConditionExpression: "RecordKey = :recordKey",
+                ExpressionAttributeValues: { ":recordKey": auditRecordKey(query.key) },
+                ScanIndexForward: false,
+                Limit: query.limit,
+                ExclusiveStartKey: query.exclusiveStartKey,
+            })
+        );
+
+        return {
+            items: (result.Items ?? []).map(({ RecordKey, ...entry }) => entry as AuditEntry),
+            lastEvaluatedKey: result.LastEvaluatedKey,
+            count: result.Count || 0,
+        };
+    }
+}
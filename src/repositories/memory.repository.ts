@@ -0,0 +1,359 @@
+import type { AuditEntry, SkiLiftRecord } from "../types/skilift.types.js";
+import { auditRecordKey } from "./audit.repository.js";
+import type { AuditPage, AuditQuery, AuditRepository } from "./audit.repository.js";
+import { DATE_INDEX_ATTRIBUTES } from "./skilift.repository.js";
+import type {
+    ItemChanges,
+    ItemKey,
+    MetadataQuery,
+    Page,
+    PartitionQuery,
+    RidersQuery,
+    ScanQuery,
+    SkiLiftRepository,
+    TransactionItem,
+    UpdateResult,
+    WriteCondition,
+} from "./skilift.repository.js";
+
+/**
+ * Create an error that looks like the matching DynamoDB SDK exception
+ */
+function dynamoDBException(name: string, message: string): Error {
+    const error = new Error(message);
+    error.name = name;
+    return error;
+}
+
+function compare(a: string | number, b: string | number): number {
+    if (a < b) return -1;
+    if (a > b) return 1;
+    return 0;
+}
+
+function keyOf(key: ItemKey): string {
+    return JSON.stringify([key.Lift, key.Metadata]);
+}
+
+function satisfies(existing: SkiLiftRecord | undefined, condition: WriteCondition = {}): boolean {
+    if (condition.ifNotExists && existing) {
+        return false;
+    }
+    if (condition.ifExists && !existing) {
+        return false;
+    }
+    if (condition.ifNotDeleted && existing?.DeletedAt !== undefined) {
+        return false;
+    }
+    if (condition.expectedVersion !== undefined) {
+        // Unversioned records count as version 0
+        return existing !== undefined && (existing.Version ?? 0) === condition.expectedVersion;
+    }
+    return true;
+}
+
+/**
+ * Return one page of items in the given order, resuming at the first item
+ * that sorts after exclusiveStartKey. Like DynamoDB, that works whether or not
+ * the item at the start key still exists, and the limit counts evaluated items.
+ */
+function paginate(
+    candidates: SkiLiftRecord[],
+    options: {
+        order: (a: Record<string, any>, b: Record<string, any>) => number;
+        limit?: number;
+        exclusiveStartKey?: Record<string, any>;
+        toKey: (item: SkiLiftRecord) => Record<string, any>;
+        filter?: (item: SkiLiftRecord) => boolean;
+    }
+): Page {
+    const ordered = [...candidates].sort(options.order);
+
+    let start = 0;
+    const startKey = options.exclusiveStartKey;
+    if (startKey) {
+        start = ordered.findIndex((item) => options.order(item, startKey) > 0);
+        if (start === -1) {
+            start = ordered.length;
+        }
+    }
+
+    const end = options.limit !== undefined ? start + options.limit : ordered.length;
+    const evaluated = ordered.slice(start, end);
+    const items = options.filter ? evaluated.filter(options.filter) : evaluated;
+    const last = evaluated[evaluated.length - 1];
+
+    return {
+        items: items.map((item) => structuredClone(item)),
+        lastEvaluatedKey: end < ordered.length && last ? options.toKey(last) : undefined,
+        count: items.length,
+    };
+}
+
+/**
+ * SkiLifts table kept in process memory. Mirrors the DynamoDB key schema,
+ * the SkiLiftsByRiders and SkiLiftsByDate GSIs and condition semantics so the API can run
+ * without a database (DYNAMODB_MODE=memory), e.g. for local development
+ * and tests. Data is lost when the process exits.
+ */
+export class InMemorySkiLiftRepository implements SkiLiftRepository {
+    private items = new Map<string, SkiLiftRecord>();
+
+    async get(key: ItemKey): Promise<SkiLiftRecord | undefined> {
+        const item = this.items.get(keyOf(key));
+        return item && structuredClone(item);
+    }
+
+    async put(item: SkiLiftRecord, condition?: WriteCondition): Promise<SkiLiftRecord | undefined> {
+        const existing = this.assertCondition(item, condition);
+        this.items.set(keyOf(item), structuredClone(item));
+        return existing && structuredClone(existing);
+    }
+
+    async update(
+        key: ItemKey,
+        changes: ItemChanges,
+        condition?: WriteCondition
+    ): Promise<UpdateResult> {
+        const existing = this.assertCondition(key, condition);
+        const updated: Record<string, any> = {
+            ...(existing ?? { Lift: key.Lift, Metadata: key.Metadata }),
+        };
+
+        for (const [attribute, value] of Object.entries(changes.set)) {
+            if (attribute === "Lift" || attribute === "Metadata" || attribute === "Version") {
+                continue;
+            }
+            if (value !== undefined) {
+                updated[attribute] = structuredClone(value);
+            }
+        }
+        for (const attribute of changes.remove ?? []) {
+            if (!(attribute in changes.set)) {
+                delete updated[attribute];
+            }
+        }
+        for (const [attribute, value] of Object.entries(changes.defaults ?? {})) {
+            if (updated[attribute] === undefined && value !== undefined) {
+                updated[attribute] = structuredClone(value);
+            }
+        }
+        for (const [attribute, amount] of Object.entries(changes.add ?? {})) {
+            updated[attribute] = (updated[attribute] ?? 0) + amount;
+        }
+        updated.Version = (existing?.Version ?? 0) + 1;
+
+        this.items.set(keyOf(key), updated as SkiLiftRecord);
+        return {
+            item: structuredClone(updated as SkiLiftRecord),
+            previous: existing && structuredClone(existing),
+        };
+    }
+
+    async delete(key: ItemKey, condition?: WriteCondition): Promise<SkiLiftRecord | undefined> {
+        const existing = this.assertCondition(key, condition);
+        this.items.delete(keyOf(key));
+        return existing && structuredClone(existing);
+    }
+
+    async queryPartition(query: PartitionQuery): Promise<Page> {
+        const items = [...this.items.values()]
+            .filter((item) => item.Lift === query.lift)
+            .filter(
+                (item) =>
+                    !query.between ||
+                    (item.Metadata >= query.between.from && item.Metadata <= query.between.to)
+            );
+
+        return paginate(items, {
+            order: (a, b) => compare(a.Metadata, b.Metadata),
+            limit: query.limit,
+            exclusiveStartKey: query.exclusiveStartKey,
+            toKey: (item) => ({ Lift: item.Lift, Metadata: item.Metadata }),
+        });
+    }
+
+    async queryByRiders(query: RidersQuery): Promise<Page> {
+        // The GSI is sparse: only records with a rider count are indexed, and it
+        // projects the keys plus Metadata and DeletedAt
+        const items = [...this.items.values()]
+            .filter(
+                (item): item is SkiLiftRecord & { TotalUniqueLiftRiders: number } =>
+                    item.Lift === query.lift &&
+                    typeof (item as any).TotalUniqueLiftRiders === "number"
+            )
+            .filter(
+                (item) =>
+                    (query.minRiders === undefined ||
+                        item.TotalUniqueLiftRiders >= query.minRiders) &&
+                    (query.maxRiders === undefined || item.TotalUniqueLiftRiders <= query.maxRiders)
+            )
+            .map(
+                (item) =>
+                    ({
+                        Lift: item.Lift,
+                        Metadata: item.Metadata,
+                        TotalUniqueLiftRiders: item.TotalUniqueLiftRiders,
+                        ...(item.DeletedAt !== undefined && { DeletedAt: item.DeletedAt }),
+                    }) as SkiLiftRecord
+            );
+
+        return paginate(items, {
+            order: (a, b) =>
+                compare(b.TotalUniqueLiftRiders, a.TotalUniqueLiftRiders) ||
+                compare(b.Metadata, a.Metadata),
+            limit: query.limit,
+            exclusiveStartKey: query.exclusiveStartKey,
+            toKey: (item) => ({
+                Lift: item.Lift,
+                Metadata: item.Metadata,
+                TotalUniqueLiftRiders: (item as any).TotalUniqueLiftRiders,
+            }),
+        });
+    }
+
+    async queryByMetadata(query: MetadataQuery): Promise<Page> {
+        // Projects the keys and the summary attributes, ordered by partition key
+        const items = [...this.items.values()]
+            .filter(
+                (item) =>
+                    item.Metadata === query.metadata &&
+                    (query.liftPrefix === undefined || item.Lift.startsWith(query.liftPrefix))
+            )
+            .map((item) => {
+                const record: Record<string, unknown> = {
+                    Lift: item.Lift,
+                    Metadata: item.Metadata,
+                };
+                for (const attribute of DATE_INDEX_ATTRIBUTES) {
+                    if ((item as any)[attribute] !== undefined) {
+                        record[attribute] = (item as any)[attribute];
+                    }
+                }
+                return structuredClone(record) as unknown as SkiLiftRecord;
+            });
+
+        return paginate(items, {
+            order: (a, b) => compare(a.Lift, b.Lift),
+            limit: query.limit,
+            exclusiveStartKey: query.exclusiveStartKey,
+            toKey: (item) => ({ Lift: item.Lift, Metadata: item.Metadata }),
+        });
+    }
+
+    async scan(query: ScanQuery): Promise<Page> {
+        return paginate([...this.items.values()], {
+            order: (a, b) => compare(a.Lift, b.Lift) || compare(a.Metadata, b.Metadata),
+            limit: query.limit,
+            exclusiveStartKey: query.exclusiveStartKey,
+            toKey: (item) => ({ Lift: item.Lift, Metadata: item.Metadata }),
+            filter: (item) =>
+                (query.metadata === undefined || [query.metadata].flat().includes(item.Metadata)) &&
+                (query.liftPrefix === undefined || item.Lift.startsWith(query.liftPrefix)),
+        });
+    }
+
+    async batchGet(keys: ItemKey[]): Promise<{ items: SkiLiftRecord[]; unprocessed: ItemKey[] }> {
+        const items = keys
+            .map((key) => this.items.get(keyOf(key)))
+            .filter((item): item is SkiLiftRecord => item !== undefined);
+        return { items: items.map((item) => structuredClone(item)), unprocessed: [] };
+    }
+
+    async batchPut(items: SkiLiftRecord[]): Promise<SkiLiftRecord[]> {
+        for (const item of items) {
+            this.items.set(keyOf(item), structuredClone(item));
+        }
+        return [];
+    }
+
+    async batchDelete(keys: ItemKey[]): Promise<ItemKey[]> {
+        for (const key of keys) {
+            this.items.delete(keyOf(key));
+        }
+        return [];
+    }
+
+    async transactWrite(items: TransactionItem[]): Promise<void> {
+        const failed = items.some((entry) => {
+            const key = "put" in entry ? entry.put : entry.conditionCheck;
+            return !satisfies(this.items.get(keyOf(key)), entry.condition);
+        });
+
+        if (failed) {
+            throw dynamoDBException(
+                "TransactionCanceledException",
+                "Transaction cancelled, please refer cancellation reasons for specific reasons"
+            );
+        }
+
+        for (const entry of items) {
+            if ("put" in entry) {
+                this.items.set(keyOf(entry.put), structuredClone(entry.put));
+            }
+        }
+    }
+
+    /**
+     * Return the current record, or reject like DynamoDB when the condition fails
+     */
+    private assertCondition(
+        key: ItemKey,
+        condition?: WriteCondition
+    ): SkiLiftRecord | undefined {
+        const existing = this.items.get(keyOf(key));
+        if (!satisfies(existing, condition)) {
+            throw dynamoDBException(
+                "ConditionalCheckFailedException",
+                "The conditional request failed"
+            );
+        }
+        return existing;
+    }
+}
+
+/**
+ * Audit log kept in process memory, for DYNAMODB_MODE=memory
+ */
+export class InMemoryAuditRepository implements AuditRepository {
+    private entries = new Map<string, AuditEntry[]>();
+
+    async append(entries: AuditEntry[]): Promise<void> {
+        for (const entry of entries) {
+            const recordKey = auditRecordKey(entry);
+            const stored = this.entries.get(recordKey) ?? [];
+            stored.push(structuredClone(entry));
+            this.entries.set(recordKey, stored);
+        }
+    }
+
+    async query(query: AuditQuery): Promise<AuditPage> {
+        const recordKey = auditRecordKey(query.key);
+        const ordered = [...(this.entries.get(recordKey) ?? [])].sort((a, b) =>
+            compare(b.AuditId, a.AuditId)
+        );
+
+        // Resume after the start key even if its entry no longer exists
+        let start = 0;
+        const startId = query.exclusiveStartKey?.AuditId;
+        if (startId !== undefined) {
+            start = ordered.findIndex((entry) => entry.AuditId < startId);
+            if (start === -1) {
+                start = ordered.length;
+            }
+        }
+
+        const end = query.limit !== undefined ? start + query.limit : ordered.length;
+        const items = ordered.slice(start, end);
+        const last = items[items.length - 1];
+
+        return {
+            items: items.map((entry) => structuredClone(entry)),
+            lastEvaluatedKey:
+                end < ordered.length && last
+                    ? { RecordKey: recordKey, AuditId: last.AuditId }
+                    : undefined,
+            count: items.length,
+        };
+    }
+}
@@ -0,0 +1,171 @@
+import type { SkiLiftRecord } from "../types/skilift.types.js";
+
+/**
+ * Storage abstraction for the SkiLifts table.
+ *
+ * Implementations follow DynamoDB semantics, including its error names:
+ * a failed write condition rejects with an error named
+ * "ConditionalCheckFailedException" and a failed transaction with
+ * "TransactionCanceledException".
+ */
+
+/**
+ * Primary key of a record
+ */
+export interface ItemKey {
+    Lift: string;
+    Metadata: string;
+}
+
+/**
+ * Condition a write must satisfy
+ */
+export interface WriteCondition {
+    ifNotExists?: boolean; // The record must not exist yet
+    ifExists?: boolean; // The record must exist
+    ifNotDeleted?: boolean; // The record must not be soft-deleted (absent records pass)
+    expectedVersion?: number; // The record must exist at this Version (0 = unversioned)
+}
+
+/**
+ * Attribute changes for an update. Version is always incremented.
+ */
+export interface ItemChanges {
+    set: Record<string, unknown>;
+    remove?: string[];
+    add?: Record<string, number>; // Added atomically to the stored value (absent counts as 0)
+    defaults?: Record<string, unknown>; // Set only where the attribute is absent
+}
+
+/**
+ * Record after an update and, when it existed, before it
+ */
+export interface UpdateResult {
+    item: SkiLiftRecord;
+    previous?: SkiLiftRecord;
+}
+
+/**
+ * One page of results with the key to resume from
+ */
+export interface Page {
+    items: SkiLiftRecord[];
+    lastEvaluatedKey?: Record<string, any>;
+    count: number;
+}
+
+/**
+ * Query a single lift partition, optionally within a sort key range
+ */
+export interface PartitionQuery {
+    lift: string;
+    between?: { from: string; to: string };
+    limit?: number;
+    exclusiveStartKey?: Record<string, any>;
+}
+
+/**
+ * Query the SkiLiftsByRiders GSI, highest rider counts first
+ */
+export interface RidersQuery {
+    lift: string;
+    minRiders?: number;
+    maxRiders?: number;
+    limit?: number;
+    exclusiveStartKey?: Record<string, any>;
+}
+
+/**
+ * Attributes the SkiLiftsByDate GSI projects besides the keys: what a
+ * resort summary is computed from
+ */
+export const DATE_INDEX_ATTRIBUTES = [
+    "Version",
+    "TotalUniqueLiftRiders",
+    "AverageSnowCoverageInches",
+    "LiftStatus",
+    "AvalancheDanger",
+    "DeletedAt",
+];
+
+/**
+ * Query the SkiLiftsByDate GSI: every record with one sort key value, e.g.
+ * all lifts on a day, optionally only partition keys that start with a
+ * prefix. The index is eventually consistent.
+ */
+export interface MetadataQuery {
+    metadata: string;
+    liftPrefix?: string;
+    limit?: number;
+    exclusiveStartKey?: Record<string, any>;
+}
+
+/**
+ * Scan the whole table, optionally keeping only some sort key values and
+ * partition keys that start with a prefix
+ */
+export interface ScanQuery {
+    metadata?: string | string[];
+    liftPrefix?: string;
+    limit?: number;
+    exclusiveStartKey?: Record<string, any>;
+    consistentRead?: boolean;
+}
+
+/**
+ * Action within an atomic multi-item write
+ */
+export type TransactionItem =
+    | { put: SkiLiftRecord; condition?: WriteCondition }
+    | { conditionCheck: ItemKey; condition: WriteCondition };
+
+export interface SkiLiftRepository {
+    get(key: ItemKey): Promise<SkiLiftRecord | undefined>;
+
+    /**
+     * Write a record and return the one it replaced, if any
+     */
+    put(item: SkiLiftRecord, condition?: WriteCondition): Promise<SkiLiftRecord | undefined>;
+
+    /**
+     * Apply changes and return the record as it is before and after the update.
+     * Creates the record if it does not exist and the condition allows it.
+     */
+    update(key: ItemKey, changes: ItemChanges, condition?: WriteCondition): Promise<UpdateResult>;
+
+    /**
+     * Delete a record and return it, undefined if there was nothing to delete
+     */
+    delete(key: ItemKey, condition?: WriteCondition): Promise<SkiLiftRecord | undefined>;
+
+    queryPartition(query: PartitionQuery): Promise<Page>;
+
+    queryByRiders(query: RidersQuery): Promise<Page>;
+
+    queryByMetadata(query: MetadataQuery): Promise<Page>;
+
+    scan(query: ScanQuery): Promise<Page>;
+
+    /**
+     * Read up to 100 records in one strongly consistent call. Returns the
+     * records found and the keys that were not processed and should be retried.
+     */
+    batchGet(keys: ItemKey[]): Promise<{ items: SkiLiftRecord[]; unprocessed: ItemKey[] }>;
+
+    /**
+     * Put up to 25 items in one call. Returns the items that were not
+     * processed and should be retried.
+     */
+    batchPut(items: SkiLiftRecord[]): Promise<SkiLiftRecord[]>;
+
+    /**
+     * Delete up to 25 records in one call. Returns the keys that were not
+     * processed and should be retried.
+     */
+    batchDelete(keys: ItemKey[]): Promise<ItemKey[]>;
+
+    /**
+     * Apply up to 100 actions atomically
+     */
+    transactWrite(items: TransactionItem[]): Promise<void>;
+}
@@ -1,211 +1,817 @@
+import type { OutgoingHttpHeaders } from "node:http";
 import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
 import {
+    auditEntrySchema,
+    auditQuerySchema,
+    batchDynamicDataSchema,
+    batchWriteResponseSchema,
+    changeEventSchema,
     createDynamicDataSchema,
+    createQuerySchema,
     createResortDataSchema,
     createStaticDataSchema,
+    decommissionQuerySchema,
+    dynamicDataRecordSchema,
+    historyQuerySchema,
+    ifMatchHeadersSchema,
+    lastEventIdHeadersSchema,
     liftMetadataParamsSchema,
     liftParamsSchema,
+    liftTombstoneRecordSchema,
+    liftQuerySchema,
     listQuerySchema,
+    paginatedResponseSchema,
     queryByRidersSchema,
+    readQuerySchema,
+    resortDataRecordSchema,
+    resortDateParamsSchema,
+    resortParamsSchema,
+    riderCountRecordSchema,
+    riderIncrementParamsSchema,
+    riderIncrementSchema,
+    skiLiftRecordSchema,
+    staticDataRecordSchema,
+    statusChangeQuerySchema,
+    streamQuerySchema,
     updateDynamicDataSchema,
     updateStaticDataSchema,
 } from "../schemas/skilift.schemas.js";
+import type { CreateDynamicDataInput } from "../schemas/skilift.schemas.js";
 import { SkiLiftService } from "../services/skilift.service.js";
-import { AppError, formatErrorResponse } from "../utils/error-handler.js";
+import type {
+    BatchItemResult,
+    BatchWriteResponse,
+    ReadOptions,
+    SkiLiftDynamicData,
+} from "../types/skilift.types.js";
+import { AuditTrail } from "../utils/audit.js";
+import { ANONYMOUS_PRINCIPAL, hasRole } from "../utils/auth.js";
+import {
+    EventStreamWriter,
+    formatServerSentEvent,
+    getChangeStreamConfig,
+} from "../utils/change-feed.js";
+import type { ChangeEvent } from "../utils/change-feed.js";
+import { ForbiddenError } from "../utils/error-handler.js";
+import { parseIfMatch, toETag } from "../utils/etag.js";
+import { IncrementBatcher, getIncrementBatchConfig } from "../utils/increment-batcher.js";
+import { getLiftSafetyConfig } from "../utils/lift-status.js";
+import { routeSchema } from "../utils/openapi.js";
+import { getSoftDeleteConfig } from "../utils/soft-delete.js";
+
+/**
+ * Set a Link header pointing at the next page of the current request
+ */
+function withNextLink(request: FastifyRequest, reply: FastifyReply, nextCursor?: string) {
+    if (nextCursor) {
+        const url = new URL(request.url, "http://localhost");
+        url.searchParams.set("cursor", nextCursor);
+        reply.header("Link", `<${url.pathname}${url.search}>; rel="next"`);
+    }
+    return reply;
+}
 
 /**
- * Register SkiLift routes
+ * Principal a write is attributed to, e.g. "jwt:alice"
+ */
+function actorOf(request: FastifyRequest): string {
+    const principal = request.principal ?? ANONYMOUS_PRINCIPAL;
+    return `${principal.type}:${principal.id}`;
+}
+
+/**
+ * Read options from the query string. Only admins may see deleted records.
+ */
+function readOptionsFor(request: FastifyRequest): ReadOptions {
+    const { includeDeleted } = readQuerySchema.parse(request.query);
+    if (includeDeleted && !hasRole(request.principal ?? ANONYMOUS_PRINCIPAL, "admin")) {
+        throw new ForbiddenError("includeDeleted requires the admin role");
+    }
+    return { includeDeleted };
+}
+
+/**
+ * Register SkiLift routes. Registered under /api for the original single-resort
+ * data and under /api/resorts/:resortId for each resort's own data.
  */
 export async function skiLiftRoutes(fastify: FastifyInstance) {
-    const service = new SkiLiftService(fastify.dynamodb);
+    const { retentionDays } = getSoftDeleteConfig();
+    const safety = getLiftSafetyConfig();
+    const { bufferSize, heartbeatMs } = getChangeStreamConfig();
+    const riderIncrements = new IncrementBatcher<SkiLiftDynamicData, SkiLiftService>(
+        getIncrementBatchConfig().windowMs
+    );
+    // Decommissions running in the background, by resort and lift
+    const decommissions = new Map<string, Promise<void>>();
+
+    // Write pending rider increments and let decommissions finish before the
+    // server shuts down
+    fastify.addHook("onClose", async () => {
+        await Promise.allSettled([riderIncrements.close(), ...decommissions.values()]);
+    });
+
+    // Each request gets a service bound to the resort in its URL, if any,
+    // that audits its writes as the request's principal
+    const serviceFor = (request: FastifyRequest) => {
+        const { resortId } = resortParamsSchema.parse(request.params);
+        const audit = new AuditTrail(
+            fastify.auditRepository,
+            {
+                actor: actorOf(request),
+                route: `${request.method} ${request.routeOptions.url}`,
+                requestId: request.id,
+            },
+            (error, entries) =>
+                request.log.error({ err: error, audit: entries }, "Failed to write audit log")
+        );
+        return new SkiLiftService(
+            fastify.skiLiftRepository,
+            resortId,
+            audit,
+            safety,
+            fastify.changeFeed
+        );
+    };
+
+    // Route schemas only document the API (see routeSchema): requests are
+    // validated with Zod in each handler and responses are sent as they are
+    fastify.setValidatorCompiler(() => (data) => ({ value: data }));
+    fastify.setSerializerCompiler(() => (data) => JSON.stringify(data));
 
     /**
-     * POST /api/skilifts/static
-     * Create static ski lift data
+     * POST /skilifts/static
+     * Create static ski lift data (409 if it exists, ?upsert=true replaces it)
      */
-    fastify.post("/api/skilifts/static", async (request: FastifyRequest, reply: FastifyReply) => {
-        try {
+    fastify.post(
+        "/skilifts/static",
+        {
+            config: { role: "admin" },
+            schema: routeSchema({
+                summary: "Create static lift data",
+                querystring: createQuerySchema,
+                body: createStaticDataSchema,
+                response: { 201: staticDataRecordSchema, 200: staticDataRecordSchema },
+                errors: [400, 409],
+            }),
+        },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            const service = serviceFor(request);
             const data = createStaticDataSchema.parse(request.body);
-            const result = await service.createStaticData(data);
-            return reply.code(201).send(result);
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
+            const { upsert } = createQuerySchema.parse(request.query);
+            const result = await service.createStaticData(data, { upsert });
+            return reply.code(result.Version === 1 ? 201 : 200).send(result);
         }
-    });
+    );
 
     /**
-     * POST /api/skilifts/dynamic
-     * Create dynamic ski lift data
+     * POST /skilifts/dynamic
+     * Create dynamic ski lift data (409 if it exists, ?upsert=true replaces it
+     * and checks a status change like PUT, without an override)
      */
-    fastify.post("/api/skilifts/dynamic", async (request: FastifyRequest, reply: FastifyReply) => {
-        try {
+    fastify.post(
+        "/skilifts/dynamic",
+        {
+            config: { role: "operator" },
+            schema: routeSchema({
+                summary: "Create daily lift data",
+                querystring: createQuerySchema,
+                body: createDynamicDataSchema,
+                response: { 201: dynamicDataRecordSchema, 200: dynamicDataRecordSchema },
+                errors: [400, 409],
+            }),
+        },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            const service = serviceFor(request);
             const data = createDynamicDataSchema.parse(request.body);
-            const result = await service.createDynamicData(data);
-            return reply.code(201).send(result);
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
+            const { upsert } = createQuerySchema.parse(request.query);
+            const result = await service.createDynamicData(data, {
+                upsert,
+                changedBy: actorOf(request),
+            });
+            return reply.code(result.Version === 1 ? 201 : 200).send(result);
         }
-    });
+    );
 
     /**
-     * POST /api/skilifts/resort
-     * Create resort data
+     * POST /skilifts/dynamic/batch
+     * Create dynamic data for many lifts in one request, reporting each item
      */
-    fastify.post("/api/skilifts/resort", async (request: FastifyRequest, reply: FastifyReply) => {
-        try {
+    fastify.post(
+        "/skilifts/dynamic/batch",
+        {
+            config: { role: "operator" },
+            schema: routeSchema({
+                summary: "Create daily data for many lifts",
+                description:
+                    "Returns 207 when some items failed; each item reports its outcome. Rows for " +
+                    "days that already exist or are deleted fail instead of replacing them.",
+                body: z.array(createDynamicDataSchema).min(1).max(500),
+                response: { 201: batchWriteResponseSchema, 207: batchWriteResponseSchema },
+                errors: [400],
+            }),
+        },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            const service = serviceFor(request);
+            const rows = batchDynamicDataSchema.parse(request.body);
+            const results: BatchItemResult[] = [];
+            const valid: CreateDynamicDataInput[] = [];
+            const validIndexes: number[] = [];
+
+            rows.forEach((row, index) => {
+                const parsed = createDynamicDataSchema.safeParse(row);
+                if (parsed.success) {
+                    valid.push(parsed.data);
+                    validIndexes.push(index);
+                } else {
+                    results[index] = {
+                        index,
+                        status: "failed",
+                        reason: parsed.error.issues
+                            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+                            .join("; "),
+                    };
+                }
+            });
+
+            for (const result of await service.createDynamicDataBatch(valid)) {
+                const index = validIndexes[result.index];
+                results[index] = { ...result, index };
+            }
+
+            const created = results.filter((result) => result.status === "created").length;
+            const response: BatchWriteResponse = {
+                results,
+                created,
+                failed: results.length - created,
+            };
+
+            // 207 Multi-Status signals a partial failure the caller must inspect
+            return reply.code(response.failed > 0 ? 207 : 201).send(response);
+        }
+    );
+
+    /**
+     * POST /skilifts/resort
+     * Create resort data (409 if it exists, ?upsert=true replaces it)
+     */
+    fastify.post(
+        "/skilifts/resort",
+        {
+            config: { role: "operator" },
+            schema: routeSchema({
+                summary: "Create resort data",
+                tags: ["Resort"],
+                querystring: createQuerySchema,
+                body: createResortDataSchema,
+                response: { 201: resortDataRecordSchema, 200: resortDataRecordSchema },
+                errors: [400, 409],
+            }),
+        },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            const service = serviceFor(request);
             const data = createResortDataSchema.parse(request.body);
-            const result = await service.createResortData(data);
-            return reply.code(201).send(result);
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
+            const { upsert } = createQuerySchema.parse(request.query);
+            const result = await service.createResortData(data, { upsert });
+            return reply.code(result.Version === 1 ? 201 : 200).send(result);
         }
-    });
+    );
 
     /**
-     * GET /api/skilifts/:lift/:metadata
-     * Get specific ski lift data
+     * GET /skilifts/:lift/:metadata
+     * Get specific ski lift data with its ETag
      */
     fastify.get<{
         Params: { lift: string; metadata: string };
-    }>("/api/skilifts/:lift/:metadata", async (request, reply) => {
-        try {
-            const { lift, metadata } = liftMetadataParamsSchema.parse(request.params);
-            const result = await service.getSkiLift(lift, metadata);
-            return reply.send(result);
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
+    }>(
+        "/skilifts/:lift/:metadata",
+        {
+            config: { role: "reader" },
+            schema: routeSchema({
+                summary: "Get a lift record",
+                params: liftMetadataParamsSchema,
+                querystring: readQuerySchema,
+                response: { 200: skiLiftRecordSchema },
+                errors: [400, 403, 404],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
+            const params = liftMetadataParamsSchema.parse(request.params);
+            const { lift } = params;
+            const options = readOptionsFor(request);
+            const metadata = await service.resolveMetadata(params);
+            const result = await service.getSkiLift(lift, metadata, options);
+            return reply.header("ETag", toETag(result.Version)).send(result);
         }
-    });
+    );
+
+    /**
+     * GET /skilifts/:lift/:metadata/audit
+     * Browse the change history of a record, newest first
+     */
+    fastify.get<{
+        Params: { lift: string; metadata: string };
+        Querystring: { limit?: number; cursor?: string };
+    }>(
+        "/skilifts/:lift/:metadata/audit",
+        {
+            config: { role: "operator" },
+            schema: routeSchema({
+                summary: "Browse the change history of a lift record",
+                description:
+                    "Each entry records who changed the record, through which route, and its values before and after.",
+                params: liftMetadataParamsSchema,
+                querystring: auditQuerySchema,
+                response: { 200: paginatedResponseSchema(auditEntrySchema) },
+                errors: [400],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
+            const params = liftMetadataParamsSchema.parse(request.params);
+            const metadata = await service.resolveMetadata(params);
+            const query = auditQuerySchema.parse(request.query);
+            const result = await service.queryAuditLog(params.lift, metadata, query);
+            return withNextLink(request, reply, result.nextCursor).send(result);
+        }
+    );
 
     /**
-     * GET /api/skilifts/:lift
+     * GET /skilifts/:lift
      * Query all data for a specific lift
      */
     fastify.get<{
         Params: { lift: string };
-        Querystring: { limit?: number };
-    }>("/api/skilifts/:lift", async (request, reply) => {
-        try {
+        Querystring: { limit?: number; cursor?: string };
+    }>(
+        "/skilifts/:lift",
+        {
+            config: { role: "reader" },
+            schema: routeSchema({
+                summary: "Query all records of a lift",
+                params: liftParamsSchema,
+                querystring: liftQuerySchema.merge(readQuerySchema),
+                response: { 200: paginatedResponseSchema(skiLiftRecordSchema) },
+                errors: [400, 403],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
             const { lift } = liftParamsSchema.parse(request.params);
-            const limit = request.query.limit || 20;
-            const result = await service.queryLiftData(lift, limit);
-            return reply.send(result);
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
+            const query = liftQuerySchema.parse(request.query);
+            const result = await service.queryLiftData(lift, query, readOptionsFor(request));
+            return withNextLink(request, reply, result.nextCursor).send(result);
         }
-    });
+    );
 
     /**
-     * GET /api/skilifts
+     * GET /skilifts
      * List all ski lifts with pagination
      */
     fastify.get<{
-        Querystring: { limit?: number; lastEvaluatedLift?: string; lastEvaluatedMetadata?: string };
-    }>("/api/skilifts", async (request, reply) => {
-        try {
+        Querystring: { limit?: number; cursor?: string };
+    }>(
+        "/skilifts",
+        {
+            config: { role: "reader", rateLimit: "scan" },
+            schema: routeSchema({
+                summary: "List all records",
+                querystring: listQuerySchema.merge(readQuerySchema),
+                response: { 200: paginatedResponseSchema(skiLiftRecordSchema) },
+                errors: [400, 403],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
             const query = listQuerySchema.parse(request.query);
-            const result = await service.listSkiLifts(query);
-            return reply.send(result);
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
+            const result = await service.listSkiLifts(query, readOptionsFor(request));
+            return withNextLink(request, reply, result.nextCursor).send(result);
         }
-    });
+    );
+
+    /**
+     * GET /skilifts/stream
+     * Stream changes to the resort's records as Server-Sent Events
+     */
+    fastify.get(
+        "/skilifts/stream",
+        {
+            config: { role: "reader" },
+            schema: routeSchema({
+                summary: "Stream record changes",
+                description:
+                    "Sends a `change` event for every write made through this instance of the " +
+                    "API. Reconnect with Last-Event-ID to receive the changes missed since; " +
+                    "a `reset` event means they are no longer buffered, or the ID came from " +
+                    "another instance or from before a restart.",
+                querystring: streamQuerySchema,
+                headers: lastEventIdHeadersSchema,
+                response: { 200: changeEventSchema },
+                errors: [400],
+            }),
+        },
+        async (request, reply) => {
+            const { resortId } = resortParamsSchema.parse(request.params);
+            const { lift } = streamQuerySchema.parse(request.query);
+            const lastEventId = lastEventIdHeadersSchema.parse(request.headers)["last-event-id"];
+            const feed = fastify.changeFeed;
+
+            // The stream stays open, so it is written to the socket directly
+            reply.hijack();
+            const stream = reply.raw;
+            stream.writeHead(200, {
+                ...(reply.getHeaders() as OutgoingHttpHeaders),
+                "Content-Type": "text/event-stream; charset=utf-8",
+                "Cache-Control": "no-cache",
+                Connection: "keep-alive",
+                "X-Accel-Buffering": "no",
+            });
+            stream.flushHeaders();
+
+            // A client further behind than the feed buffers could not resume
+            // from where it is anyway, so it is cut off and gets a reset when
+            // it reconnects
+            const writer = new EventStreamWriter(stream, bufferSize, () => {
+                request.log.warn("Change stream client is not keeping up, disconnecting it");
+                stream.destroy();
+            });
+
+            // Idle connections are cut by the load balancer, so send a comment
+            // line, which clients ignore, whenever the stream has been quiet
+            const heartbeat = setInterval(() => {
+                if (!writer.blocked) {
+                    writer.write(": heartbeat\n\n");
+                }
+            }, heartbeatMs);
+
+            const send = ({ id, ResortId, ...change }: ChangeEvent) => {
+                if (ResortId === resortId && (!lift || change.Lift === lift)) {
+                    writer.write(
+                        formatServerSentEvent({ id, event: "change", data: JSON.stringify(change) })
+                    );
+                }
+            };
+            // The feed closes its subscriptions when the server shuts down
+            const close = () => {
+                clearInterval(heartbeat);
+                subscription.unsubscribe();
+                writer.end();
+            };
+            const subscription = feed.subscribe({ send, close }, lastEventId);
+            stream.on("close", () => {
+                clearInterval(heartbeat);
+                subscription.unsubscribe();
+            });
+
+            if (!subscription.resumed) {
+                writer.write(
+                    formatServerSentEvent({
+                        id: feed.latestId,
+                        event: "reset",
+                        data: JSON.stringify({ message: "Missed changes are no longer available" }),
+                    })
+                );
+            }
+            for (const event of subscription.missed) {
+                send(event);
+            }
+        }
+    );
 
     /**
-     * GET /api/skilifts/:lift/by-riders
+     * GET /skilifts/:lift/by-riders
      * Query ski lift data sorted by riders using GSI
      */
     fastify.get<{
         Params: { lift: string };
-        Querystring: { minRiders?: number; maxRiders?: number; limit?: number };
-    }>("/api/skilifts/:lift/by-riders", async (request, reply) => {
-        try {
+        Querystring: {
+            minRiders?: number;
+            maxRiders?: number;
+            limit?: number;
+            cursor?: string;
+        };
+    }>(
+        "/skilifts/:lift/by-riders",
+        {
+            config: { role: "reader" },
+            schema: routeSchema({
+                summary: "Query a lift's days by rider count, highest first",
+                params: liftParamsSchema,
+                querystring: queryByRidersSchema.merge(readQuerySchema),
+                response: { 200: paginatedResponseSchema(riderCountRecordSchema) },
+                errors: [400, 403],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
             const { lift } = liftParamsSchema.parse(request.params);
             const query = queryByRidersSchema.parse(request.query);
-            const result = await service.queryByRiders(lift, query);
-            return reply.send(result);
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
+            const result = await service.queryByRiders(lift, query, readOptionsFor(request));
+            return withNextLink(request, reply, result.nextCursor).send(result);
         }
-    });
+    );
 
     /**
-     * PUT /api/skilifts/:lift/static
-     * Update static ski lift data
+     * GET /skilifts/:lift/history
+     * Query a lift's dynamic data between two dates, oldest first
+     */
+    fastify.get<{
+        Params: { lift: string };
+        Querystring: { from?: string; to?: string; limit?: number; cursor?: string };
+    }>(
+        "/skilifts/:lift/history",
+        {
+            config: { role: "reader" },
+            schema: routeSchema({
+                summary: "Query a lift's records between two dates",
+                params: liftParamsSchema,
+                querystring: historyQuerySchema.innerType().merge(readQuerySchema),
+                response: { 200: paginatedResponseSchema(skiLiftRecordSchema) },
+                errors: [400, 403],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
+            const { lift } = liftParamsSchema.parse(request.params);
+            const query = historyQuerySchema.parse(request.query);
+            const result = await service.queryLiftHistory(lift, query, readOptionsFor(request));
+            return withNextLink(request, reply, result.nextCursor).send(result);
+        }
+    );
+
+    /**
+     * PUT /skilifts/:lift/static
+     * Update static ski lift data (honours If-Match)
      */
     fastify.put<{
         Params: { lift: string };
-    }>("/api/skilifts/:lift/static", async (request, reply) => {
-        try {
+    }>(
+        "/skilifts/:lift/static",
+        {
+            config: { role: "admin" },
+            schema: routeSchema({
+                summary: "Update static lift data",
+                params: liftParamsSchema,
+                headers: ifMatchHeadersSchema,
+                body: updateStaticDataSchema,
+                response: { 200: staticDataRecordSchema },
+                errors: [400, 412],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
             const { lift } = liftParamsSchema.parse(request.params);
             const data = updateStaticDataSchema.parse(request.body);
-            const result = await service.updateStaticData(lift, data);
-            return reply.send(result);
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
+            const expectedVersion = parseIfMatch(request.headers["if-match"]);
+            const result = await service.updateStaticData(lift, data, { expectedVersion });
+            return reply.header("ETag", toETag(result.Version)).send(result);
         }
-    });
+    );
 
     /**
-     * PUT /api/skilifts/:lift/:metadata
-     * Update dynamic ski lift data
+     * PUT /skilifts/:lift/:metadata
+     * Update dynamic ski lift data (honours If-Match). Status changes are
+     * checked against the transition and safety rules and added to the day's
+     * timeline; admins may override the transition rules with a reason.
      */
     fastify.put<{
         Params: { lift: string; metadata: string };
-    }>("/api/skilifts/:lift/:metadata", async (request, reply) => {
-        try {
-            const { lift, metadata } = liftMetadataParamsSchema.parse(request.params);
+    }>(
+        "/skilifts/:lift/:metadata",
+        {
+            config: { role: "operator" },
+            schema: routeSchema({
+                summary: "Update daily lift data",
+                params: liftMetadataParamsSchema,
+                querystring: statusChangeQuerySchema,
+                headers: ifMatchHeadersSchema,
+                body: updateDynamicDataSchema,
+                response: { 200: dynamicDataRecordSchema },
+                errors: [400, 403, 409, 412],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
+            const params = liftMetadataParamsSchema.parse(request.params);
+            const { lift } = params;
+            const metadata = await service.resolveMetadata(params);
             const data = updateDynamicDataSchema.parse(request.body);
-            const result = await service.updateDynamicData(lift, metadata, data);
-            return reply.send(result);
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
+            const { override, reason } = statusChangeQuerySchema.parse(request.query);
+            if (override && !hasRole(request.principal ?? ANONYMOUS_PRINCIPAL, "admin")) {
+                throw new ForbiddenError("override requires the admin role");
+            }
+            const expectedVersion = parseIfMatch(request.headers["if-match"]);
+            const result = await service.updateDynamicData(lift, metadata, data, {
+                expectedVersion,
+                changedBy: actorOf(request),
+                reason,
+                override,
+            });
+            return reply.header("ETag", toETag(result.Version)).send(result);
         }
-    });
+    );
+
+    /**
+     * POST /skilifts/:lift/:metadata/riders/increment
+     * Atomically add riders to a day's count, creating the day if needed
+     */
+    fastify.post<{
+        Params: { lift: string; metadata: string };
+    }>(
+        "/skilifts/:lift/:metadata/riders/increment",
+        {
+            config: { role: "operator" },
+            schema: routeSchema({
+                summary: "Increment a day's riders",
+                description:
+                    "Adds to TotalUniqueLiftRiders with an atomic ADD, so concurrent scanners never lose counts. A missing day is created as Pending, without an AvalancheDanger. With RIDER_INCREMENT_BATCH_MS set, increments arriving within the window are written together, every caller receives the combined result and each one is audited separately.",
+                params: riderIncrementParamsSchema,
+                body: riderIncrementSchema,
+                response: { 200: dynamicDataRecordSchema },
+                errors: [400, 404],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
+            const params = riderIncrementParamsSchema.parse(request.params);
+            const { by } = riderIncrementSchema.parse(request.body ?? {});
+            const { resortId } = resortParamsSchema.parse(request.params);
+            const metadata = await service.resolveMetadata(params);
+            const result = await riderIncrements.add(
+                JSON.stringify([resortId, params.lift, metadata]),
+                by,
+                (amount, contributions) =>
+                    service.incrementRiders(
+                        params.lift,
+                        metadata,
+                        amount,
+                        contributions.map((contribution) => ({
+                            by: contribution.amount,
+                            service: contribution.contributor ?? service,
+                        }))
+                    ),
+                service
+            );
+            return reply.header("ETag", toETag(result.Version)).send(result);
+        }
+    );
 
     /**
-     * DELETE /api/skilifts/:lift/:metadata
-     * Delete ski lift data
+     * DELETE /skilifts/:lift/:metadata
+     * Soft-delete ski lift data (honours If-Match)
      */
     fastify.delete<{
         Params: { lift: string; metadata: string };
-    }>("/api/skilifts/:lift/:metadata", async (request, reply) => {
-        try {
-            const { lift, metadata } = liftMetadataParamsSchema.parse(request.params);
-            await service.deleteSkiLift(lift, metadata);
+    }>(
+        "/skilifts/:lift/:metadata",
+        {
+            config: { role: "admin" },
+            schema: routeSchema({
+                summary: "Delete a lift record",
+                description:
+                    "Marks the record deleted and hides it from reads. It can be restored until it is purged after the retention window.",
+                params: liftMetadataParamsSchema,
+                headers: ifMatchHeadersSchema,
+                response: { 204: z.null().describe("Deleted") },
+                errors: [400, 412],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
+            const params = liftMetadataParamsSchema.parse(request.params);
+            const { lift } = params;
+            const metadata = await service.resolveMetadata(params);
+            const expectedVersion = parseIfMatch(request.headers["if-match"]);
+            await service.deleteSkiLift(lift, metadata, {
+                expectedVersion,
+                deletedBy: actorOf(request),
+                retentionDays,
+            });
             return reply.code(204).send();
-        } catch (error) {
-            const errorResponse = formatErrorResponse(error as Error);
-            const statusCode =
-                error instanceof AppError ? error.statusCode : errorResponse.error.statusCode;
-            return reply.code(statusCode).send(errorResponse);
         }
-    });
+    );
+
+    /**
+     * DELETE /skilifts/:lift?confirm=true
+     * Decommission a lift: leave a tombstone, then delete all of its data in
+     * the background. The tombstone at Location reports the progress.
+     */
+    fastify.delete<{
+        Params: { lift: string };
+    }>(
+        "/skilifts/:lift",
+        {
+            config: { role: "admin", rateLimit: "scan" },
+            schema: routeSchema({
+                summary: "Decommission a lift",
+                description:
+                    "Leaves a Decommissioned tombstone that keeps the lift out of OpenLifts when later days are closed, then permanently deletes every record of the lift, including deleted ones, in the background. Answers 202 with the tombstone, whose DecommissionStatus and DeletedRecords report the progress at the Location URL. A Failed or interrupted decommission resumes when the request is repeated.",
+                params: liftParamsSchema,
+                querystring: decommissionQuerySchema,
+                response: { 202: liftTombstoneRecordSchema },
+                errors: [400, 404],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
+            const { resortId } = resortParamsSchema.parse(request.params);
+            const { lift } = liftParamsSchema.parse(request.params);
+            decommissionQuerySchema.parse(request.query);
+            const location = `${new URL(request.url, "http://localhost").pathname}/Decommissioned`;
+            const key = `${resortId ?? ""}|${lift}`;
+
+            reply.code(202).header("Location", location);
+
+            // Already running here: report its progress rather than start again
+            if (decommissions.has(key)) {
+                return reply.send(await service.getSkiLift(lift, "Decommissioned"));
+            }
+
+            const started = service.beginDecommission(lift, {
+                decommissionedBy: actorOf(request),
+            });
+            const job = started
+                .then(
+                    (tombstone) =>
+                        service
+                            .finishDecommission(lift, tombstone, {
+                                onProgress: (deleted) =>
+                                    request.log.info({ lift, deleted }, "Decommissioning lift"),
+                            })
+                            .then(
+                                (result) => request.log.info(result, "Decommissioned lift"),
+                                (error) =>
+                                    request.log.error(
+                                        { err: error, lift },
+                                        "Decommissioning failed, repeat the request to resume"
+                                    )
+                            ),
+                    () => undefined // Answered below
+                )
+                .finally(() => decommissions.delete(key));
+            decommissions.set(key, job);
+
+            return reply.send(await started);
+        }
+    );
+
+    /**
+     * POST /skilifts/:lift/:metadata/restore
+     * Restore soft-deleted ski lift data (honours If-Match)
+     */
+    fastify.post<{
+        Params: { lift: string; metadata: string };
+    }>(
+        "/skilifts/:lift/:metadata/restore",
+        {
+            config: { role: "admin" },
+            schema: routeSchema({
+                summary: "Restore a deleted lift record",
+                params: liftMetadataParamsSchema,
+                headers: ifMatchHeadersSchema,
+                response: { 200: skiLiftRecordSchema },
+                errors: [400, 404, 409, 412],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
+            const params = liftMetadataParamsSchema.parse(request.params);
+            const { lift } = params;
+            const metadata = await service.resolveMetadata(params);
+            const expectedVersion = parseIfMatch(request.headers["if-match"]);
+            const result = await service.restoreSkiLift(lift, metadata, { expectedVersion });
+            return reply.header("ETag", toETag(result.Version)).send(result);
+        }
+    );
+
+    /**
+     * POST /resort/:date/close
+     * Recompute and atomically write the day's resort summary from its lift rows
+     */
+    fastify.post<{
+        Params: { date: string };
+    }>(
+        "/resort/:date/close",
+        {
+            config: { role: "operator", rateLimit: "scan" },
+            schema: routeSchema({
+                summary: "Close the day",
+                description:
+                    "Recomputes the resort summary from the day's lift rows. The summary is " +
+                    "written in one transaction with a check of every row, so a day can have " +
+                    "at most 99 lift rows (400 above that).",
+                tags: ["Resort"],
+                params: resortDateParamsSchema,
+                response: { 200: resortDataRecordSchema },
+                errors: [400, 404, 409],
+            }),
+        },
+        async (request, reply) => {
+            const service = serviceFor(request);
+            const { date } = resortDateParamsSchema.parse(request.params);
+            const result = await service.closeDay(date);
+            return reply.header("ETag", toETag(result.Version)).send(result);
+        }
+    );
 }
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { LEGACY_DATE_PATTERN, isValidIsoDate, toIsoDate } from "../utils/dates.js";
+import { RESORT_DATA_LIFT, TENANT_SEPARATOR } from "../utils/tenant.js";
 
 /**
  * Validation schemas for SkiLifts API
@@ -8,11 +10,40 @@ import { z } from "zod";
 export const LiftStatusEnum = z.enum(["Open", "Closed", "Pending"]);
 export const AvalancheDangerEnum = z.enum(["Low", "Moderate", "Considerable", "High", "Extreme"]);
 
+/**
+ * Date sort key: accepts "YYYY-MM-DD" or legacy "MM/DD/YY" and normalizes to ISO
+ */
+export const dateKeySchema = z
+    .string()
+    .transform(toIsoDate)
+    .refine(isValidIsoDate, "Date must be in format YYYY-MM-DD (or legacy MM/DD/YY)");
+
+/**
+ * Lift in a URL, which becomes the partition key within a resort (see
+ * TenantScope). It may also be RESORT_DATA_LIFT, to read the resort summaries.
+ */
+const liftKeySchema = z
+    .string()
+    .min(1, "Lift name is required")
+    .refine(
+        (lift) => !lift.includes(TENANT_SEPARATOR),
+        `Lift name must not contain "${TENANT_SEPARATOR}"`
+    );
+
+/**
+ * Name of a lift being created. The resort summaries' partition is reserved,
+ * so a lift cannot write rows that closing the day would overwrite.
+ */
+export const liftNameSchema = liftKeySchema.refine(
+    (lift) => lift !== RESORT_DATA_LIFT,
+    `Lift name "${RESORT_DATA_LIFT}" is reserved for the resort summaries`
+);
+
 /**
  * Schema for creating static ski lift data
  */
 export const createStaticDataSchema = z.object({
-    Lift: z.string().min(1, "Lift name is required"),
+    Lift: liftNameSchema,
     ExperiencedRidersOnly: z.boolean(),
     VerticalFeet: z.number().positive("Vertical feet must be positive"),
     LiftTime: z.string().regex(/^\d{1,2}:\d{2}$/, "LiftTime must be in format HH:MM"),
@@ -24,8 +55,8 @@ export type CreateStaticDataInput = z.infer<typeof createStaticDataSchema>;
  * Schema for creating dynamic ski lift data
  */
 export const createDynamicDataSchema = z.object({
-    Lift: z.string().min(1, "Lift name is required"),
-    Metadata: z.string().regex(/^\d{2}\/\d{2}\/\d{2}$/, "Metadata must be in format MM/DD/YY"),
+    Lift: liftNameSchema,
+    Metadata: dateKeySchema,
     TotalUniqueLiftRiders: z.number().nonnegative("Total riders must be non-negative"),
     AverageSnowCoverageInches: z.number().nonnegative("Snow coverage must be non-negative"),
     LiftStatus: LiftStatusEnum,
@@ -34,11 +65,20 @@ export const createDynamicDataSchema = z.object({
 
 export type CreateDynamicDataInput = z.infer<typeof createDynamicDataSchema>;
 
+/**
+ * Schema for batch ingest of dynamic data. Rows are validated one by one against
+ * createDynamicDataSchema so a single bad row does not reject the whole batch.
+ */
+export const batchDynamicDataSchema = z
+    .array(z.unknown())
+    .min(1, "Batch must contain at least one item")
+    .max(500, "Batch must contain at most 500 items");
+
 /**
  * Schema for creating resort data
  */
 export const createResortDataSchema = z.object({
-    Metadata: z.string().regex(/^\d{2}\/\d{2}\/\d{2}$/, "Metadata must be in format MM/DD/YY"),
+    Metadata: dateKeySchema,
     TotalUniqueLiftRiders: z.number().nonnegative("Total riders must be non-negative"),
     AverageSnowCoverageInches: z.number().nonnegative("Snow coverage must be non-negative"),
     AvalancheDanger: AvalancheDangerEnum,
@@ -77,29 +117,386 @@ export type UpdateDynamicDataInput = z.infer<typeof updateDynamicDataSchema>;
  * Schema for path parameters
  */
 export const liftParamsSchema = z.object({
-    lift: z.string().min(1, "Lift name is required"),
+    lift: liftKeySchema,
 });
 
-export const liftMetadataParamsSchema = z.object({
-    lift: z.string().min(1, "Lift name is required"),
-    metadata: z.string().min(1, "Metadata is required"),
+/**
+ * Legacy "MM/DD/YY" dates in the URL are normalized to ISO. legacyMetadata keeps
+ * the original value so records not yet migrated keep resolving (see resolveMetadata).
+ */
+export const liftMetadataParamsSchema = z
+    .object({
+        lift: liftKeySchema,
+        metadata: z.string().min(1, "Metadata is required"),
+    })
+    .transform(({ lift, metadata }) => ({
+        lift,
+        metadata: toIsoDate(metadata),
+        legacyMetadata: LEGACY_DATE_PATTERN.test(metadata) ? metadata : undefined,
+    }));
+
+export type LiftMetadataParams = z.infer<typeof liftMetadataParamsSchema>;
+
+/**
+ * Rider counts only exist on daily records
+ */
+export const riderIncrementParamsSchema = liftMetadataParamsSchema.refine(
+    (params) => isValidIsoDate(params.metadata),
+    { message: "Date must be in format YYYY-MM-DD (or legacy MM/DD/YY)", path: ["metadata"] }
+);
+
+/**
+ * Schema for incrementing a day's rider count
+ */
+export const riderIncrementSchema = z.object({
+    by: z.number().int().positive("by must be a positive integer").max(10000).optional().default(1),
+});
+
+export type RiderIncrementInput = z.infer<typeof riderIncrementSchema>;
+
+export const resortDateParamsSchema = z.object({
+    date: dateKeySchema,
+});
+
+/**
+ * Resort of a tenant-scoped route (/api/resorts/:resortId/...), absent on the
+ * original /api/skilifts routes
+ */
+export const resortParamsSchema = z.object({
+    resortId: z
+        .string()
+        .regex(
+            /^[a-z0-9][a-z0-9-]{0,62}$/,
+            "Resort ID must be lowercase letters, digits and dashes (at most 63 characters)"
+        )
+        .optional(),
 });
 
 /**
  * Schema for query parameters
  */
+export const createQuerySchema = z.object({
+    upsert: z
+        .enum(["true", "false"])
+        .optional()
+        .transform((value) => value === "true"),
+});
+
+export type CreateQueryInput = z.infer<typeof createQuerySchema>;
+
 export const listQuerySchema = z.object({
     limit: z.coerce.number().positive().max(100).optional().default(20),
-    lastEvaluatedLift: z.string().optional(),
-    lastEvaluatedMetadata: z.string().optional(),
+    cursor: z.string().optional(),
 });
 
 export type ListQueryInput = z.infer<typeof listQuerySchema>;
 
+export const liftQuerySchema = z.object({
+    limit: z.coerce.number().positive().max(100).optional().default(20),
+    cursor: z.string().optional(),
+});
+
+export type LiftQueryInput = z.infer<typeof liftQuerySchema>;
+
+export const historyQuerySchema = z
+    .object({
+        from: dateKeySchema,
+        to: dateKeySchema,
+        limit: z.coerce.number().positive().max(100).optional().default(20),
+        cursor: z.string().optional(),
+    })
+    .refine((query) => query.from <= query.to, {
+        message: "from must not be after to",
+        path: ["from"],
+    });
+
+export type HistoryQueryInput = z.infer<typeof historyQuerySchema>;
+
 export const queryByRidersSchema = z.object({
     minRiders: z.coerce.number().nonnegative().optional(),
     maxRiders: z.coerce.number().nonnegative().optional(),
     limit: z.coerce.number().positive().max(100).optional().default(20),
+    cursor: z.string().optional(),
 });
 
 export type QueryByRidersInput = z.infer<typeof queryByRidersSchema>;
+
+/**
+ * Admin view of soft-deleted records on read routes
+ */
+export const readQuerySchema = z.object({
+    includeDeleted: z
+        .enum(["true", "false"])
+        .optional()
+        .transform((value) => value === "true")
+        .describe("Also return soft-deleted records (admin role)"),
+});
+
+/**
+ * Decommissioning a lift deletes all of its data, so it must be asked for explicitly
+ */
+export const decommissionQuerySchema = z.object({
+    confirm: z
+        .enum(["true"], {
+            errorMap: () => ({
+                message: "Pass confirm=true to delete the lift and all of its data",
+            }),
+        })
+        .describe("Must be true"),
+});
+
+/**
+ * Options for a status change. A supervisor override skips the transition
+ * rules, never the avalanche safety rules, and must say why.
+ */
+export const statusChangeQuerySchema = z
+    .object({
+        override: z
+            .enum(["true", "false"])
+            .optional()
+            .transform((value) => value === "true")
+            .describe("Allow a status transition the rules forbid (admin role)"),
+        reason: z
+            .string()
+            .min(1)
+            .max(500)
+            .optional()
+            .describe("Why the status changed, recorded in the timeline"),
+    })
+    .refine((query) => !query.override || query.reason !== undefined, {
+        message: "An override requires a reason",
+        path: ["reason"],
+    });
+
+export const streamQuerySchema = z.object({
+    lift: z.string().min(1).optional().describe("Only stream changes to this lift"),
+});
+
+export const auditQuerySchema = z.object({
+    limit: z.coerce.number().positive().max(100).optional().default(20),
+    cursor: z.string().optional(),
+});
+
+export type AuditQueryInput = z.infer<typeof auditQuerySchema>;
+
+/**
+ * Response schemas. Handlers validate input with the schemas above; these
+ * describe what they send back and feed the OpenAPI document.
+ */
+const versionSchema = z
+    .number()
+    .int()
+    .describe("Incremented on every write, also sent as the ETag header");
+
+/**
+ * Present only on soft-deleted records, which reads return with includeDeleted=true
+ */
+const deletionFields = {
+    DeletedAt: z.string().datetime().optional().describe("When the record was deleted"),
+    DeletedBy: z.string().optional().describe("Principal that deleted the record"),
+    ExpiresAt: z
+        .number()
+        .int()
+        .optional()
+        .describe("Epoch seconds after which the deleted record is purged"),
+};
+
+export const staticDataRecordSchema = createStaticDataSchema
+    .extend({
+        Metadata: z.literal("Static Data"),
+        Version: versionSchema,
+        ...deletionFields,
+    })
+    .describe("Static lift data");
+
+const statusTransitionSchema = z.object({
+    From: z.enum(["Open", "Closed", "Pending"]).optional(),
+    To: z.enum(["Open", "Closed", "Pending"]),
+    ChangedAt: z.string().datetime(),
+    ChangedBy: z.string().optional().describe("Principal that changed the status"),
+    Reason: z.string().optional(),
+    Override: z.literal(true).optional().describe("Present when the rules were overridden"),
+});
+
+export const dynamicDataRecordSchema = createDynamicDataSchema
+    .extend({
+        Metadata: z.string().describe("Date in format YYYY-MM-DD"),
+        AvalancheDanger: AvalancheDangerEnum.optional().describe(
+            "Absent on a day created by a rider increment until it is set; the lift cannot open while unknown"
+        ),
+        Version: versionSchema,
+        StatusTimeline: z
+            .array(statusTransitionSchema)
+            .optional()
+            .describe("Status changes made through updates, oldest first"),
+        ...deletionFields,
+    })
+    .describe("Daily lift data");
+
+export const resortDataRecordSchema = createResortDataSchema
+    .extend({
+        Lift: z.literal("Resort Data"),
+        Metadata: z.string().describe("Date in format YYYY-MM-DD"),
+        AvalancheDanger: AvalancheDangerEnum.optional().describe(
+            "Highest level known among the day's lifts, absent when none is known"
+        ),
+        Version: versionSchema,
+        ...deletionFields,
+    })
+    .describe("Daily resort summary");
+
+export const liftTombstoneRecordSchema = z
+    .object({
+        Lift: z.string(),
+        Metadata: z.literal("Decommissioned"),
+        DecommissionedAt: z.string().datetime().describe("When the decommission started"),
+        DecommissionedBy: z.string().optional().describe("Principal that decommissioned the lift"),
+        DecommissionStatus: z
+            .enum(["InProgress", "Complete", "Failed"])
+            .optional()
+            .describe("Progress of deleting the lift's data"),
+        DeletedRecords: z
+            .number()
+            .int()
+            .optional()
+            .describe("Records deleted so far, across resumed runs"),
+        CompletedAt: z.string().datetime().optional(),
+        FailureReason: z.string().optional().describe("Why the last run stopped, while Failed"),
+        Version: versionSchema,
+        ...deletionFields,
+    })
+    .describe("Left by a decommissioned lift, which keeps it out of OpenLifts");
+
+export const skiLiftRecordSchema = z
+    .union([
+        staticDataRecordSchema,
+        dynamicDataRecordSchema,
+        resortDataRecordSchema,
+        liftTombstoneRecordSchema,
+    ])
+    .describe("Ski lift record");
+
+export const auditEntrySchema = z
+    .object({
+        AuditId: z.string().describe("Change timestamp and a unique suffix"),
+        Lift: z.string(),
+        Metadata: z.string(),
+        ChangedAt: z.string().datetime(),
+        Action: z.enum(["create", "update", "delete", "restore", "batch-put", "close-day"]),
+        Actor: z.string().describe('Principal that made the change, e.g. "jwt:alice"'),
+        Route: z.string().optional().describe('e.g. "PUT /api/skilifts/:lift/:metadata"'),
+        RequestId: z.string().optional(),
+        Before: skiLiftRecordSchema.optional().describe("Absent for creates and batch puts"),
+        After: skiLiftRecordSchema.optional().describe("Absent for deletes"),
+        Changes: z
+            .record(z.object({ from: z.unknown(), to: z.unknown() }))
+            .describe("Attributes that changed, keyed by name"),
+    })
+    .describe("One change to a lift record");
+
+export const changeEventSchema = z
+    .object({
+        Action: auditEntrySchema.shape.Action,
+        Lift: z.string(),
+        Metadata: z.string(),
+        ChangedAt: z.string().datetime(),
+        Record: skiLiftRecordSchema
+            .optional()
+            .describe("The record after the change, absent when it was deleted"),
+    })
+    .describe(
+        "Server-Sent Events stream (text/event-stream). Each change is a `change` event whose " +
+            "data is this object; a `reset` event means missed changes can no longer be " +
+            "replayed and the client should reload"
+    );
+
+/**
+ * SkiLiftsByRiders only projects the keys, Metadata and DeletedAt
+ */
+export const riderCountRecordSchema = z.object({
+    Lift: z.string(),
+    Metadata: z.string(),
+    TotalUniqueLiftRiders: z.number(),
+    DeletedAt: deletionFields.DeletedAt,
+});
+
+export function paginatedResponseSchema<T extends z.ZodTypeAny>(item: T) {
+    return z
+        .object({
+            items: z.array(item),
+            nextCursor: z
+                .string()
+                .optional()
+                .describe("Opaque token for the next page, absent on the last page"),
+            count: z.number().int(),
+        })
+        .describe("One page of results");
+}
+
+export const batchWriteResponseSchema = z
+    .object({
+        results: z.array(
+            z.object({
+                index: z.number().int(),
+                Lift: z.string().optional(),
+                Metadata: z.string().optional(),
+                status: z.enum(["created", "failed"]),
+                reason: z.string().optional(),
+            })
+        ),
+        created: z.number().int(),
+        failed: z.number().int(),
+    })
+    .describe("Outcome of every item in the batch");
+
+/**
+ * Envelope produced by formatErrorResponse
+ */
+export const errorResponseSchema = z.object({
+    error: z.object({
+        message: z.string(),
+        code: z.string().optional(),
+        statusCode: z.number().int(),
+        details: z.unknown().optional(),
+        requestId: z.string().optional().describe("Also sent as the X-Request-Id header"),
+    }),
+});
+
+/**
+ * RFC 9457 problem details produced by formatProblemDetails, sent as
+ * application/problem+json to clients that ask for it
+ */
+export const problemDetailsSchema = z.object({
+    type: z.string().describe("Problem type URI, e.g. urn:problem-type:validation-error"),
+    title: z.string().describe("HTTP reason phrase of the status"),
+    status: z.number().int(),
+    detail: z.string(),
+    instance: z.string().describe("Request path that failed"),
+    code: z.string().optional(),
+    errors: z
+        .array(
+            z.object({
+                path: z.string(),
+                message: z.string(),
+                code: z.string(),
+            })
+        )
+        .optional()
+        .describe("Every invalid field, for validation failures"),
+    requestId: z.string().optional().describe("Also sent as the X-Request-Id header"),
+});
+
+export const ifMatchHeadersSchema = z.object({
+    "if-match": z
+        .string()
+        .optional()
+        .describe('ETag of the version being replaced, e.g. "3"; "*" matches any version'),
+});
+
+export const lastEventIdHeadersSchema = z.object({
+    "last-event-id": z
+        .string()
+        .regex(/^[\w-]{1,64}$/, "Last-Event-ID must be the ID of a change event")
+        .optional()
+        .describe("ID of the last event received, to resume after a reconnect"),
+});
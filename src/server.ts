@@ -1,9 +1,40 @@
 import compress from "@fastify/compress";
 import cors from "@fastify/cors";
 import helmet from "@fastify/helmet";
-import Fastify from "fastify";
+import Fastify, { type FastifyReply, type FastifyRequest } from "fastify";
+import authPlugin from "./plugins/auth.plugin.js";
+import changeFeedPlugin from "./plugins/change-feed.plugin.js";
 import dynamoDBPlugin from "./plugins/dynamodb.plugin.js";
+import healthPlugin from "./plugins/health.plugin.js";
+import metricsPlugin from "./plugins/metrics.plugin.js";
+import openAPIPlugin from "./plugins/openapi.plugin.js";
+import rateLimitPlugin from "./plugins/rate-limit.plugin.js";
+import tracingPlugin from "./plugins/tracing.plugin.js";
 import { skiLiftRoutes } from "./routes/skilift.routes.js";
+import {
+    AppError,
+    NotFoundError,
+    PROBLEM_JSON_MEDIA_TYPE,
+    formatErrorResponse,
+    formatProblemDetails,
+    prefersProblemDetails,
+} from "./utils/error-handler.js";
+
+/**
+ * Which proxies to trust for X-Forwarded-For (and so request.ip): "true" for
+ * any, a hop count, or comma-separated addresses and CIDR ranges. Off unless
+ * TRUST_PROXY is set, because a client could otherwise choose its own IP.
+ */
+function getTrustProxy(): boolean | number | string {
+    const value = process.env.TRUST_PROXY?.trim();
+    if (!value || value === "false") {
+        return false;
+    }
+    if (value === "true") {
+        return true;
+    }
+    return /^\d+$/.test(value) ? Number(value) : value;
+}
 
 /**
  * Build Fastify server
@@ -23,8 +54,57 @@ export async function buildServer() {
                     }
                     : undefined,
         },
+        // Reuse the caller's request ID (e.g. from the load balancer) when present
+        requestIdHeader: "x-request-id",
+        trustProxy: getTrustProxy(),
+    });
+
+    // Echo the request ID so callers can quote it when reporting a failure
+    fastify.addHook("onRequest", async (request, reply) => {
+        reply.header("X-Request-Id", request.id);
+    });
+
+    // One format for every error: AppErrors and Zod errors from handlers,
+    // Fastify's own errors (bad JSON, payload too large) and SDK exceptions.
+    // Clients that accept application/problem+json get RFC 9457 problem details,
+    // everyone else the { error } envelope. Throttling (503) and rate limit (429)
+    // errors also tell the caller when to retry
+    const sendError = (error: Error, request: FastifyRequest, reply: FastifyReply) => {
+        if (error instanceof AppError && error.retryAfterSeconds) {
+            reply.header("Retry-After", error.retryAfterSeconds);
+        }
+
+        if (prefersProblemDetails(request.headers.accept)) {
+            const problem = formatProblemDetails(error, request.url, request.id);
+            return reply
+                .code(problem.status)
+                .type(`${PROBLEM_JSON_MEDIA_TYPE}; charset=utf-8`)
+                .send(problem);
+        }
+
+        const errorResponse = formatErrorResponse(error, request.id);
+        return reply.code(errorResponse.error.statusCode).send(errorResponse);
+    };
+
+    fastify.setErrorHandler((error, request, reply) => {
+        const sent = sendError(error as Error, request, reply);
+        if (reply.statusCode >= 500) {
+            request.log.error({ err: error }, "Request failed");
+        }
+        return sent;
     });
 
+    fastify.setNotFoundHandler((request, reply) => {
+        return sendError(
+            new NotFoundError(`Route ${request.method} ${request.url} not found`),
+            request,
+            reply
+        );
+    });
+
+    // Register request tracing first, so every later hook runs inside the request span
+    await fastify.register(tracingPlugin);
+
     // Register Helmet for security headers
     await fastify.register(helmet, {
         contentSecurityPolicy: {
@@ -47,20 +127,31 @@ export async function buildServer() {
         credentials: true,
     });
 
+    // Register request and DynamoDB metrics (before the DynamoDB client they measure)
+    await fastify.register(metricsPlugin);
+
     // Register DynamoDB plugin
     await fastify.register(dynamoDBPlugin);
 
-    // Register routes
-    await fastify.register(skiLiftRoutes);
+    // Register per-client rate limiting (before auth, so failed logins are limited by IP)
+    await fastify.register(rateLimitPlugin);
 
-    // Health check endpoint
-    fastify.get("/health", async () => {
-        return {
-            status: "ok",
-            timestamp: new Date().toISOString(),
-            uptime: process.uptime(),
-        };
-    });
+    // Register authentication and role checks for protected routes
+    await fastify.register(authPlugin);
+
+    // Register the feed of record changes the routes publish and stream
+    await fastify.register(changeFeedPlugin);
+
+    // Register OpenAPI document and docs UI (before the routes it documents)
+    await fastify.register(openAPIPlugin);
+
+    // Register routes: the original single-resort API, then the same routes
+    // scoped to one resort's data
+    await fastify.register(skiLiftRoutes, { prefix: "/api" });
+    await fastify.register(skiLiftRoutes, { prefix: "/api/resorts/:resortId" });
+
+    // Register liveness and readiness checks
+    await fastify.register(healthPlugin);
 
     // Root endpoint
     fastify.get("/", async () => {
@@ -69,8 +160,14 @@ export async function buildServer() {
             version: "1.0.0",
             description: "Ski Lift CRUD API with DynamoDB",
             endpoints: {
-                health: "/health",
+                health: "/health/live",
+                ready: "/health/ready",
+                metrics: "/metrics",
                 api: "/api/skilifts",
+                stream: "/api/skilifts/stream",
+                resorts: "/api/resorts/:resortId/skilifts",
+                docs: "/docs",
+                openapi: "/openapi.json",
             },
         };
     });
@@ -78,10 +175,14 @@ export async function buildServer() {
     return fastify;
 }
 
+export interface StartServerOptions {
+    onShutdown?: () => Promise<void>; // Runs after the server has closed, e.g. to flush spans
+}
+
 /**
  * Start the server
  */
-export async function startServer() {
+export async function startServer(options: StartServerOptions = {}) {
     const fastify = await buildServer();
 
     const host = process.env.HOST || "0.0.0.0";
@@ -101,6 +202,7 @@ export async function startServer() {
         process.on(signal, async () => {
             fastify.log.info(`Received ${signal}, closing server gracefully`);
             await fastify.close();
+            await options.onShutdown?.();
             process.exit(0);
         });
     }
@@ -1,67 +1,338 @@
-import {
-    DeleteCommand,
-    GetCommand,
-    PutCommand,
-    QueryCommand,
-    ScanCommand,
-    UpdateCommand,
-} from "@aws-sdk/lib-dynamodb";
-import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
-import { GSI_NAME, TABLE_NAME } from "../db/dynamodb.client.js";
 import type {
+    ItemChanges,
+    ItemKey,
+    Page,
+    SkiLiftRepository,
+    UpdateResult,
+    WriteCondition,
+} from "../repositories/skilift.repository.js";
+import type {
+    AuditQueryInput,
     CreateDynamicDataInput,
     CreateResortDataInput,
     CreateStaticDataInput,
+    HistoryQueryInput,
+    LiftMetadataParams,
+    LiftQueryInput,
     ListQueryInput,
     QueryByRidersInput,
     UpdateDynamicDataInput,
     UpdateStaticDataInput,
 } from "../schemas/skilift.schemas.js";
 import type {
+    AuditAction,
+    AuditEntry,
+    AvalancheDanger,
+    BatchItemResult,
+    DecommissionOptions,
+    DecommissionResponse,
+    DeleteOptions,
+    LiftTombstone,
     PaginatedResponse,
+    ReadOptions,
     ResortData,
     SkiLiftDynamicData,
     SkiLiftRecord,
     SkiLiftStaticData,
+    StatusChangeOptions,
+    StatusTransition,
+    WriteOptions,
 } from "../types/skilift.types.js";
-import { DynamoDBError, NotFoundError } from "../utils/error-handler.js";
+import type { AuditChange, AuditTrail } from "../utils/audit.js";
+import type { ChangeFeed } from "../utils/change-feed.js";
+import { decodeCursor, encodeCursor } from "../utils/cursor.js";
+import {
+    ConfigurationError,
+    ConflictError,
+    DynamoDBError,
+    NotFoundError,
+    PreconditionFailedError,
+    ValidationError,
+} from "../utils/error-handler.js";
+import {
+    AVALANCHE_DANGER_LEVELS,
+    DEFAULT_LIFT_SAFETY,
+    canTransition,
+    dangerExceeds,
+} from "../utils/lift-status.js";
+import type { LiftSafetyConfig } from "../utils/lift-status.js";
+import { SOFT_DELETE_ATTRIBUTES, isDeleted, purgeAt } from "../utils/soft-delete.js";
+import { RESORT_DATA_LIFT, TenantScope } from "../utils/tenant.js";
+
+/**
+ * BatchWriteItem accepts at most 25 requests per call
+ */
+const BATCH_WRITE_CHUNK_SIZE = 25;
+
+/**
+ * Retry budget for UnprocessedItems returned by BatchWriteItem
+ */
+const BATCH_WRITE_MAX_ATTEMPTS = 5;
+const BATCH_WRITE_BASE_DELAY_MS = 50;
+
+/**
+ * TransactWriteItems accepts at most 100 actions; one is the resort record
+ */
+const MAX_TRANSACT_ITEMS = 100;
+
+/**
+ * Sort key of the tombstone a decommissioned lift leaves in its partition
+ */
+const DECOMMISSIONED_METADATA: LiftTombstone["Metadata"] = "Decommissioned";
+
+/**
+ * Attributes of a day record created by a rider increment, until an operator
+ * sets the real values. AvalancheDanger stays unknown, which keeps the lift
+ * from opening until it is set.
+ */
+const INCREMENT_DAY_DEFAULTS: Partial<SkiLiftDynamicData> = {
+    AverageSnowCoverageInches: 0,
+    LiftStatus: "Pending",
+};
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Check whether an SDK error was caused by a failed condition expression
+ */
+function isConditionalCheckFailed(error: any): boolean {
+    return error?.name === "ConditionalCheckFailedException";
+}
 
 /**
- * Service class for SkiLift CRUD operations
+ * Keep only the attributes that were provided in a partial update
+ */
+function definedFields(data: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Extract the lift number from names like "Lift 3"
+ */
+function liftNumber(lift: string): number | undefined {
+    const match = /(\d+)$/.exec(lift);
+    return match ? Number.parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Compute the resort summary for a day from that day's lift rows. Lifts that
+ * have been decommissioned never count as open. The avalanche danger is the
+ * highest level among the rows that know it.
+ */
+function aggregateResortData(
+    metadata: string,
+    rows: SkiLiftDynamicData[],
+    version: number,
+    decommissioned: Set<string>
+): ResortData {
+    const totalRiders = rows.reduce((sum, row) => sum + row.TotalUniqueLiftRiders, 0);
+    const totalSnow = rows.reduce((sum, row) => sum + row.AverageSnowCoverageInches, 0);
+    const dangerIndex = Math.max(
+        ...rows.map((row) =>
+            row.AvalancheDanger ? AVALANCHE_DANGER_LEVELS.indexOf(row.AvalancheDanger) : -1
+        )
+    );
+    const openLifts = rows
+        .filter((row) => row.LiftStatus === "Open" && !decommissioned.has(row.Lift))
+        .map((row) => liftNumber(row.Lift))
+        .filter((lift): lift is number => lift !== undefined)
+        .sort((a, b) => a - b);
+
+    return {
+        Lift: RESORT_DATA_LIFT,
+        Metadata: metadata,
+        TotalUniqueLiftRiders: totalRiders,
+        AverageSnowCoverageInches: Math.round((totalSnow / rows.length) * 10) / 10,
+        AvalancheDanger: AVALANCHE_DANGER_LEVELS[dangerIndex],
+        OpenLifts: openLifts,
+        Version: version,
+    };
+}
+
+/**
+ * One request's part of a rider increment that sums several requests
+ */
+export interface RiderIncrementShare {
+    by: number;
+    service: SkiLiftService; // Audits the share as its request's principal
+}
+
+/**
+ * Service class for SkiLift CRUD operations.
+ *
+ * Each instance is bound to one resort: every key it reads or writes is
+ * composed within that resort's TenantScope and every record it returns is
+ * checked to belong to it, so no operation can reach another resort's data.
+ * Without a resortId the service works on the original untenanted records.
+ *
+ * With an AuditTrail, every successful write is recorded with the record's
+ * previous and new values, and with a ChangeFeed it is published for the
+ * change stream.
+ *
+ * Deletes are soft: the record is marked deleted and hidden from reads
+ * unless they ask for deleted records, until it is restored or purged.
+ *
+ * Status changes follow the transition rules in utils/lift-status, and a
+ * lift only opens within the avalanche danger levels of the safety config.
  */
 export class SkiLiftService {
-    constructor(private dynamodb: DynamoDBDocumentClient) { }
+    private tenant: TenantScope;
+    private experiencedOnly = new Map<string, Promise<boolean>>();
+
+    constructor(
+        private repository: SkiLiftRepository,
+        resortId?: string,
+        private audit?: AuditTrail,
+        private safety: LiftSafetyConfig = DEFAULT_LIFT_SAFETY,
+        private feed?: ChangeFeed
+    ) {
+        this.tenant = new TenantScope(resortId);
+    }
+
+    /**
+     * Audit successful writes and publish them to the change feed
+     */
+    private async recordChanges(changes: AuditChange[]): Promise<void> {
+        this.publishChanges(changes);
+        await this.audit?.record(changes);
+    }
+
+    private publishChanges(changes: AuditChange[]): void {
+        if (this.feed && changes.length > 0) {
+            const changedAt = new Date().toISOString();
+            this.feed.publish(
+                changes.map((change) => ({
+                    ResortId: this.tenant.resortId,
+                    Action: change.action,
+                    Lift: this.tenant.fromKey(change.key.Lift),
+                    Metadata: change.key.Metadata,
+                    ChangedAt: changedAt,
+                    Record:
+                        change.after && !isDeleted(change.after)
+                            ? this.fromStored(change.after)
+                            : undefined,
+                }))
+            );
+        }
+    }
+
+    /**
+     * Stored form of a record: the partition key prefixed with the resort
+     */
+    private toStored<T extends SkiLiftRecord>(record: T): T {
+        return { ...record, Lift: this.tenant.toKey(record.Lift) };
+    }
+
+    /**
+     * API form of a stored record: the partition key without the resort prefix
+     */
+    private fromStored<T extends SkiLiftRecord>(record: T): T {
+        return { ...record, Lift: this.tenant.fromKey(record.Lift) };
+    }
+
+    /**
+     * Keep only the records of this resort and strip their key prefix
+     */
+    private ownRecords(items: SkiLiftRecord[]): SkiLiftRecord[] {
+        return items
+            .filter((item) => this.tenant.owns(item.Lift))
+            .map((item) => this.fromStored(item));
+    }
+
+    /**
+     * Records of this resort a read may return: deleted ones only on request
+     */
+    private visibleRecords(items: SkiLiftRecord[], options: ReadOptions): SkiLiftRecord[] {
+        return this.ownRecords(items).filter((item) => options.includeDeleted || !isDeleted(item));
+    }
+
+    /**
+     * Why a lift may not open at this avalanche danger, undefined if it may.
+     * An unknown danger never allows opening. Static data is only read when
+     * the experienced-only level is exceeded.
+     */
+    private async openingBlockedBy(
+        lift: string,
+        danger: AvalancheDanger | undefined
+    ): Promise<string | undefined> {
+        if (danger === undefined) {
+            return "avalanche danger is not known, set AvalancheDanger first";
+        }
+        if (dangerExceeds(danger, this.safety.maxOpenDanger)) {
+            return `avalanche danger ${danger} is above ${this.safety.maxOpenDanger}`;
+        }
+        if (!dangerExceeds(danger, this.safety.maxOpenDangerExperiencedOnly)) {
+            return undefined;
+        }
+
+        let experiencedOnly = this.experiencedOnly.get(lift);
+        if (!experiencedOnly) {
+            experiencedOnly = this.repository
+                .get({ Lift: this.tenant.toKey(lift), Metadata: "Static Data" })
+                .then(
+                    (item) =>
+                        item !== undefined &&
+                        !isDeleted(item) &&
+                        "ExperiencedRidersOnly" in item &&
+                        item.ExperiencedRidersOnly
+                );
+            this.experiencedOnly.set(lift, experiencedOnly);
+        }
+
+        try {
+            return (await experiencedOnly)
+                ? `avalanche danger ${danger} is above ${this.safety.maxOpenDangerExperiencedOnly} for an experienced riders only lift`
+                : undefined;
+        } catch (error) {
+            this.experiencedOnly.delete(lift);
+            throw new DynamoDBError("Failed to read static data", error);
+        }
+    }
+
+    private async assertSafeToOpen(
+        lift: string,
+        status: string | undefined,
+        danger: AvalancheDanger | undefined
+    ): Promise<void> {
+        if (status !== "Open") {
+            return;
+        }
+        const reason = await this.openingBlockedBy(lift, danger);
+        if (reason) {
+            throw new ConflictError(`${lift} cannot open: ${reason}`);
+        }
+    }
 
     /**
      * Create static ski lift data
      */
-    async createStaticData(data: CreateStaticDataInput): Promise<SkiLiftStaticData> {
+    async createStaticData(
+        data: CreateStaticDataInput,
+        options: WriteOptions = {}
+    ): Promise<SkiLiftStaticData> {
         const item: SkiLiftStaticData = {
             Lift: data.Lift,
             Metadata: "Static Data",
             ExperiencedRidersOnly: data.ExperiencedRidersOnly,
             VerticalFeet: data.VerticalFeet,
             LiftTime: data.LiftTime,
+            Version: 1,
         };
 
-        try {
-            await this.dynamodb.send(
-                new PutCommand({
-                    TableName: TABLE_NAME,
-                    Item: item,
-                })
-            );
-
-            return item;
-        } catch (error) {
-            throw new DynamoDBError("Failed to create static data", error);
-        }
+        return this.writeItem(item, options, "Failed to create static data");
     }
 
     /**
-     * Create dynamic ski lift data
+     * Create dynamic ski lift data. In upsert mode a change to the status of
+     * an existing day is checked and recorded like one made by
+     * updateDynamicData.
      */
-    async createDynamicData(data: CreateDynamicDataInput): Promise<SkiLiftDynamicData> {
+    async createDynamicData(
+        data: CreateDynamicDataInput,
+        options: StatusChangeOptions = {}
+    ): Promise<SkiLiftDynamicData> {
         const item: SkiLiftDynamicData = {
             Lift: data.Lift,
             Metadata: data.Metadata,
@@ -69,69 +340,504 @@ export class SkiLiftService {
             AverageSnowCoverageInches: data.AverageSnowCoverageInches,
             LiftStatus: data.LiftStatus,
             AvalancheDanger: data.AvalancheDanger,
+            Version: 1,
         };
 
-        try {
-            await this.dynamodb.send(
-                new PutCommand({
-                    TableName: TABLE_NAME,
-                    Item: item,
-                })
-            );
+        if (options.upsert) {
+            return this.upsertDynamicData(item, options);
+        }
 
-            return item;
+        await this.assertSafeToOpen(item.Lift, item.LiftStatus, item.AvalancheDanger);
+        return this.writeItem(item, options, "Failed to create dynamic data");
+    }
+
+    /**
+     * Replace a day's data, adding a status change to the timeline the
+     * replacement keeps. A deleted day comes back with the status it had, so
+     * its next change is checked against that.
+     */
+    private async upsertDynamicData(
+        item: SkiLiftDynamicData,
+        options: StatusChangeOptions
+    ): Promise<SkiLiftDynamicData> {
+        const { Lift, Metadata, Version, ...attributes } = item;
+        const key = { Lift: this.tenant.toKey(Lift), Metadata };
+
+        let existing: SkiLiftDynamicData | undefined;
+        try {
+            existing = (await this.repository.get(key)) as SkiLiftDynamicData | undefined;
         } catch (error) {
             throw new DynamoDBError("Failed to create dynamic data", error);
         }
+
+        const transition = await this.statusTransition(Lift, existing, item, options);
+        if (!transition) {
+            await this.assertSafeToOpen(Lift, item.LiftStatus, item.AvalancheDanger);
+        }
+        const set: Record<string, unknown> = transition
+            ? { ...attributes, StatusTimeline: [...(existing?.StatusTimeline ?? []), transition] }
+            : attributes;
+
+        // The status was checked against the record read above, so the write
+        // must fail if the record has changed since
+        const result = await this.updateItem(
+            key,
+            { set, remove: SOFT_DELETE_ATTRIBUTES },
+            existing ? { expectedVersion: existing.Version ?? 0 } : { ifNotExists: true },
+            (error) => {
+                if (isConditionalCheckFailed(error)) {
+                    return new ConflictError(
+                        `${Lift} - ${Metadata} changed while it was replaced, retry the request`
+                    );
+                }
+                return new DynamoDBError("Failed to create dynamic data", error);
+            }
+        );
+
+        return result as SkiLiftDynamicData;
     }
 
     /**
      * Create resort data
      */
-    async createResortData(data: CreateResortDataInput): Promise<ResortData> {
+    async createResortData(
+        data: CreateResortDataInput,
+        options: WriteOptions = {}
+    ): Promise<ResortData> {
         const item: ResortData = {
-            Lift: "Resort Data",
+            Lift: RESORT_DATA_LIFT,
             Metadata: data.Metadata,
             TotalUniqueLiftRiders: data.TotalUniqueLiftRiders,
             AverageSnowCoverageInches: data.AverageSnowCoverageInches,
             AvalancheDanger: data.AvalancheDanger,
             OpenLifts: data.OpenLifts,
+            Version: 1,
         };
 
+        return this.writeItem(item, options, "Failed to create resort data");
+    }
+
+    /**
+     * Create dynamic data for many lifts at once with BatchWriteItem.
+     * Batch writes cannot carry condition expressions, so each chunk's keys
+     * are read first and rows for days that already exist or are deleted
+     * fail, like a single create would; only a day created between the read
+     * and the write is replaced. Rows that would open a lift against the
+     * safety rules fail too. Each item is reported as created or failed with
+     * a reason.
+     */
+    async createDynamicDataBatch(items: CreateDynamicDataInput[]): Promise<BatchItemResult[]> {
+        const results: BatchItemResult[] = [];
+        const candidates: { index: number; item: SkiLiftDynamicData }[] = [];
+        const pending: { index: number; item: SkiLiftDynamicData }[] = [];
+        const seenKeys = new Set<string>();
+
+        items.forEach((data, index) => {
+            const key = `${data.Lift}|${data.Metadata}`;
+
+            // BatchWriteItem rejects the whole request if a key appears twice
+            if (seenKeys.has(key)) {
+                results[index] = {
+                    index,
+                    Lift: data.Lift,
+                    Metadata: data.Metadata,
+                    status: "failed",
+                    reason: "Duplicate Lift and Metadata in batch",
+                };
+                return;
+            }
+            seenKeys.add(key);
+
+            candidates.push({
+                index,
+                item: this.toStored({
+                    Lift: data.Lift,
+                    Metadata: data.Metadata,
+                    TotalUniqueLiftRiders: data.TotalUniqueLiftRiders,
+                    AverageSnowCoverageInches: data.AverageSnowCoverageInches,
+                    LiftStatus: data.LiftStatus,
+                    AvalancheDanger: data.AvalancheDanger,
+                    Version: 1,
+                }),
+            });
+        });
+
+        for (const candidate of candidates) {
+            const { Lift, Metadata, LiftStatus, AvalancheDanger } = candidate.item;
+            const lift = this.tenant.fromKey(Lift);
+            const blockedBy =
+                LiftStatus === "Open"
+                    ? await this.openingBlockedBy(lift, AvalancheDanger)
+                    : undefined;
+            if (blockedBy) {
+                results[candidate.index] = {
+                    index: candidate.index,
+                    Lift: lift,
+                    Metadata,
+                    status: "failed",
+                    reason: `Cannot open: ${blockedBy}`,
+                };
+            } else {
+                pending.push(candidate);
+            }
+        }
+
+        for (let start = 0; start < pending.length; start += BATCH_WRITE_CHUNK_SIZE) {
+            const chunk = pending.slice(start, start + BATCH_WRITE_CHUNK_SIZE);
+            for (const result of await this.writeBatchChunk(chunk)) {
+                results[result.index] = result;
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Write up to 25 new items, retrying UnprocessedItems with exponential
+     * backoff. Items whose key already holds a record fail instead.
+     */
+    private async writeBatchChunk(
+        chunk: { index: number; item: SkiLiftDynamicData }[]
+    ): Promise<BatchItemResult[]> {
+        const keyOf = (item: Record<string, any>) => `${item.Lift}|${item.Metadata}`;
+        const toResult = (
+            entry: { index: number; item: SkiLiftDynamicData },
+            status: BatchItemResult["status"],
+            reason?: string
+        ): BatchItemResult => ({
+            index: entry.index,
+            Lift: this.tenant.fromKey(entry.item.Lift),
+            Metadata: entry.item.Metadata,
+            status,
+            reason,
+        });
+
+        let stored: SkiLiftRecord[];
+        try {
+            stored = await this.batchGetRecords(
+                chunk.map(({ item }) => ({ Lift: item.Lift, Metadata: item.Metadata }))
+            );
+        } catch (error) {
+            return chunk.map((entry) => toResult(entry, "failed", (error as Error).message));
+        }
+
+        const existing = new Map(stored.map((item) => [keyOf(item), item]));
+        const results: BatchItemResult[] = [];
+        let unprocessed: typeof chunk = [];
+        for (const entry of chunk) {
+            const record = existing.get(keyOf(entry.item));
+            if (!record) {
+                unprocessed.push(entry);
+                continue;
+            }
+            const name = `${this.tenant.fromKey(entry.item.Lift)} - ${entry.item.Metadata}`;
+            const reason = isDeleted(record)
+                ? `Ski lift data for ${name} is deleted, restore it first`
+                : `Ski lift data already exists for ${name}`;
+            results.push(toResult(entry, "failed", reason));
+        }
+        if (unprocessed.length === 0) {
+            return results;
+        }
+
+        for (let attempt = 1; attempt <= BATCH_WRITE_MAX_ATTEMPTS; attempt++) {
+            let remaining: SkiLiftRecord[];
+            try {
+                remaining = await this.repository.batchPut(unprocessed.map((entry) => entry.item));
+            } catch (error) {
+                const reason = (error as Error).message || "Batch write failed";
+                return results.concat(
+                    unprocessed.map((entry) => toResult(entry, "failed", reason))
+                );
+            }
+
+            const remainingKeys = new Set(remaining.map(keyOf));
+            const written = unprocessed.filter((entry) => !remainingKeys.has(keyOf(entry.item)));
+
+            // BatchWriteItem cannot return old values, so only the new one is recorded
+            await this.recordChanges(
+                written.map((entry) => ({
+                    action: "batch-put",
+                    key: { Lift: entry.item.Lift, Metadata: entry.item.Metadata },
+                    after: entry.item,
+                }))
+            );
+            for (const entry of written) {
+                results.push(toResult(entry, "created"));
+            }
+
+            unprocessed = unprocessed.filter((entry) => remainingKeys.has(keyOf(entry.item)));
+            if (unprocessed.length === 0) {
+                return results;
+            }
+
+            if (attempt < BATCH_WRITE_MAX_ATTEMPTS) {
+                await sleep(BATCH_WRITE_BASE_DELAY_MS * 2 ** (attempt - 1));
+            }
+        }
+
+        const reason = `Unprocessed after ${BATCH_WRITE_MAX_ATTEMPTS} attempts`;
+        return results.concat(unprocessed.map((entry) => toResult(entry, "failed", reason)));
+    }
+
+    /**
+     * Read the records at up to 100 keys, retrying UnprocessedKeys with
+     * exponential backoff
+     */
+    private async batchGetRecords(keys: ItemKey[]): Promise<SkiLiftRecord[]> {
+        const items: SkiLiftRecord[] = [];
+        let unprocessed = keys;
+
+        for (let attempt = 1; attempt <= BATCH_WRITE_MAX_ATTEMPTS; attempt++) {
+            let result: { items: SkiLiftRecord[]; unprocessed: ItemKey[] };
+            try {
+                result = await this.repository.batchGet(unprocessed);
+            } catch (error) {
+                throw new DynamoDBError("Failed to check for existing data", error);
+            }
+
+            items.push(...result.items);
+            unprocessed = result.unprocessed;
+            if (unprocessed.length === 0) {
+                return items;
+            }
+
+            if (attempt < BATCH_WRITE_MAX_ATTEMPTS) {
+                await sleep(BATCH_WRITE_BASE_DELAY_MS * 2 ** (attempt - 1));
+            }
+        }
+
+        throw new DynamoDBError(
+            `Existing data could not be checked after ${BATCH_WRITE_MAX_ATTEMPTS} attempts`
+        );
+    }
+
+    /**
+     * Close the day: recompute the resort's ResortData record from that day's
+     * lift rows and write it in a transaction that also checks every row is
+     * unchanged, so the summary can never disagree with the lift data it was
+     * built from. The rows come from the eventually consistent SkiLiftsByDate
+     * index: a row that changed since it was indexed fails its check (409).
+     * The transaction limits a day to MAX_TRANSACT_ITEMS - 1 lift rows.
+     */
+    async closeDay(metadata: string): Promise<ResortData> {
+        const rows: SkiLiftDynamicData[] = [];
+        const decommissioned = new Set<string>();
+        let existing: ResortData | undefined;
+
         try {
-            await this.dynamodb.send(
-                new PutCommand({
-                    TableName: TABLE_NAME,
-                    Item: item,
-                })
+            // Only this resort's records for the day and its tombstones are
+            // read, from the SkiLiftsByDate index rather than a table scan
+            for (const item of await this.queryByMetadata(metadata)) {
+                if (item.Lift !== RESORT_DATA_LIFT && "LiftStatus" in item && !isDeleted(item)) {
+                    rows.push(item);
+                }
+            }
+            for (const item of await this.queryByMetadata(DECOMMISSIONED_METADATA)) {
+                if (!isDeleted(item)) {
+                    decommissioned.add(item.Lift);
+                }
+            }
+
+            const resortKey = { Lift: this.tenant.toKey(RESORT_DATA_LIFT), Metadata: metadata };
+            const stored = await this.repository.get(resortKey);
+            existing = stored && (this.fromStored(stored) as ResortData);
+        } catch (error) {
+            throw new DynamoDBError("Failed to read lift data for the day", error);
+        }
+
+        if (rows.length === 0) {
+            throw new NotFoundError(`No lift data found for ${metadata}`);
+        }
+
+        if (rows.length > MAX_TRANSACT_ITEMS - 1) {
+            throw new ValidationError(
+                `Cannot close a day with more than ${MAX_TRANSACT_ITEMS - 1} lifts in one transaction`
             );
+        }
+
+        const resortData = aggregateResortData(
+            metadata,
+            rows,
+            (existing?.Version ?? 0) + 1,
+            decommissioned
+        );
+        const stored = this.toStored(resortData);
+        try {
+            await this.repository.transactWrite([
+                {
+                    put: stored,
+                    condition: existing
+                        ? { expectedVersion: existing.Version ?? 0 }
+                        : { ifNotExists: true },
+                },
+                ...rows.map((row) => ({
+                    conditionCheck: { Lift: this.tenant.toKey(row.Lift), Metadata: row.Metadata },
+                    condition: { expectedVersion: row.Version ?? 0 },
+                })),
+            ]);
+        } catch (error) {
+            if ((error as Error)?.name === "TransactionCanceledException") {
+                throw new ConflictError(
+                    `Lift data for ${metadata} changed while closing the day, retry the request`
+                );
+            }
+            throw new DynamoDBError("Failed to close the day", error);
+        }
+
+        await this.recordChanges([
+            {
+                action: "close-day",
+                key: { Lift: stored.Lift, Metadata: metadata },
+                before: existing && this.toStored(existing),
+                after: stored,
+            },
+        ]);
+
+        return resortData;
+    }
+
+    /**
+     * Every record of this resort with the sort key value, from the
+     * SkiLiftsByDate index
+     */
+    private async queryByMetadata(metadata: string): Promise<SkiLiftRecord[]> {
+        const items: SkiLiftRecord[] = [];
+        let exclusiveStartKey: Record<string, any> | undefined;
+        do {
+            const result = await this.repository.queryByMetadata({
+                metadata,
+                liftPrefix: this.tenant.keyPrefix,
+                exclusiveStartKey,
+            });
+            items.push(...this.ownRecords(result.items));
+            exclusiveStartKey = result.lastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return items;
+    }
+
+    /**
+     * Write a new record. Refuses to overwrite an existing item unless
+     * options.upsert is set, in which case the item is replaced in place and
+     * its version bumped.
+     */
+    private async writeItem<T extends SkiLiftRecord>(
+        item: T,
+        options: WriteOptions,
+        failureMessage: string
+    ): Promise<T> {
+        if (options.upsert) {
+            return this.upsertItem(item, failureMessage);
+        }
 
-            return item;
+        const stored = this.toStored(item);
+        try {
+            await this.repository.put(stored, { ifNotExists: true });
         } catch (error) {
-            throw new DynamoDBError("Failed to create resort data", error);
+            if (isConditionalCheckFailed(error)) {
+                throw new ConflictError(
+                    `Ski lift data already exists for ${item.Lift} - ${item.Metadata}`
+                );
+            }
+            throw new DynamoDBError(failureMessage, error);
+        }
+
+        await this.recordChanges([
+            {
+                action: "create",
+                key: { Lift: stored.Lift, Metadata: stored.Metadata },
+                after: stored,
+            },
+        ]);
+
+        return item;
+    }
+
+    /**
+     * Replace every non-key attribute of a record, creating it if absent
+     */
+    private async upsertItem<T extends SkiLiftRecord>(item: T, failureMessage: string): Promise<T> {
+        const { Lift, Metadata, Version, ...attributes } = item;
+
+        // A replaced record is live again, even if it had been deleted
+        return this.updateItem(
+            { Lift: this.tenant.toKey(Lift), Metadata },
+            { set: attributes, remove: SOFT_DELETE_ATTRIBUTES },
+            {},
+            (error) => new DynamoDBError(failureMessage, error)
+        ) as Promise<T>;
+    }
+
+    /**
+     * Update a record and audit the change. toError translates a failed write.
+     */
+    private async updateItem(
+        key: ItemKey,
+        changes: ItemChanges,
+        condition: WriteCondition,
+        toError: (error: unknown) => Error,
+        action?: AuditAction
+    ): Promise<SkiLiftRecord> {
+        let result: UpdateResult;
+        try {
+            result = await this.repository.update(key, changes, condition);
+        } catch (error) {
+            throw toError(error);
+        }
+
+        await this.recordChanges([
+            {
+                action: action ?? (result.previous ? "update" : "create"),
+                key,
+                before: result.previous,
+                after: result.item,
+            },
+        ]);
+
+        return this.fromStored(result.item);
+    }
+
+    /**
+     * Resolve the stored sort key for a record addressed with a legacy
+     * "MM/DD/YY" date: the migrated ISO key if that record exists, otherwise
+     * the legacy key. Lets old URLs keep working while the table is migrated.
+     */
+    async resolveMetadata(params: LiftMetadataParams): Promise<string> {
+        if (!params.legacyMetadata) {
+            return params.metadata;
+        }
+
+        try {
+            const item = await this.repository.get({
+                Lift: this.tenant.toKey(params.lift),
+                Metadata: params.metadata,
+            });
+
+            return item ? params.metadata : params.legacyMetadata;
+        } catch (error) {
+            throw new DynamoDBError("Failed to resolve ski lift key", error);
         }
     }
 
     /**
      * Get ski lift data by Lift and Metadata
      */
-    async getSkiLift(lift: string, metadata: string): Promise<SkiLiftRecord> {
+    async getSkiLift(
+        lift: string,
+        metadata: string,
+        options: ReadOptions = {}
+    ): Promise<SkiLiftRecord> {
         try {
-            const result = await this.dynamodb.send(
-                new GetCommand({
-                    TableName: TABLE_NAME,
-                    Key: {
-                        Lift: lift,
-                        Metadata: metadata,
-                    },
-                })
-            );
+            const item = await this.repository.get({
+                Lift: this.tenant.toKey(lift),
+                Metadata: metadata,
+            });
 
-            if (!result.Item) {
+            if (!item || (isDeleted(item) && !options.includeDeleted)) {
                 throw new NotFoundError(`Ski lift data not found for ${lift} - ${metadata}`);
             }
 
-            return result.Item as SkiLiftRecord;
+            return this.fromStored(item);
         } catch (error) {
             if (error instanceof NotFoundError) {
                 throw error;
@@ -143,186 +849,590 @@ export class SkiLiftService {
     /**
      * Query all data for a specific lift
      */
-    async queryLiftData(lift: string, limit = 20): Promise<PaginatedResponse<SkiLiftRecord>> {
+    async queryLiftData(
+        lift: string,
+        query: LiftQueryInput = { limit: 20 },
+        options: ReadOptions = {}
+    ): Promise<PaginatedResponse<SkiLiftRecord>> {
+        const scope = this.tenant.cursorScope(`lift:${lift}`);
+        const exclusiveStartKey = decodeCursor(query.cursor, scope);
+
         try {
-            const result = await this.dynamodb.send(
-                new QueryCommand({
-                    TableName: TABLE_NAME,
-                    KeyConditionExpression: "Lift = :lift",
-                    ExpressionAttributeValues: {
-                        ":lift": lift,
-                    },
-                    Limit: limit,
-                })
-            );
+            const result = await this.repository.queryPartition({
+                lift: this.tenant.toKey(lift),
+                limit: query.limit,
+                exclusiveStartKey,
+            });
+
+            const items = this.visibleRecords(result.items, options);
 
             return {
-                items: (result.Items as SkiLiftRecord[]) || [],
-                lastEvaluatedKey: result.LastEvaluatedKey as any,
-                count: result.Count || 0,
+                items,
+                nextCursor: encodeCursor(result.lastEvaluatedKey, scope),
+                count: items.length,
             };
         } catch (error) {
             throw new DynamoDBError("Failed to query lift data", error);
         }
     }
 
+    /**
+     * Query a lift's dated records between two ISO dates, oldest first
+     */
+    async queryLiftHistory(
+        lift: string,
+        query: HistoryQueryInput,
+        options: ReadOptions = {}
+    ): Promise<PaginatedResponse<SkiLiftRecord>> {
+        const scope = this.tenant.cursorScope(`history:${lift}`);
+        const exclusiveStartKey = decodeCursor(query.cursor, scope);
+
+        try {
+            const result = await this.repository.queryPartition({
+                lift: this.tenant.toKey(lift),
+                between: { from: query.from, to: query.to },
+                limit: query.limit,
+                exclusiveStartKey,
+            });
+
+            const items = this.visibleRecords(result.items, options);
+
+            return {
+                items,
+                nextCursor: encodeCursor(result.lastEvaluatedKey, scope),
+                count: items.length,
+            };
+        } catch (error) {
+            throw new DynamoDBError("Failed to query lift history", error);
+        }
+    }
+
     /**
      * Update static ski lift data
      */
     async updateStaticData(
         lift: string,
-        data: UpdateStaticDataInput
+        data: UpdateStaticDataInput,
+        options: WriteOptions = {}
     ): Promise<SkiLiftStaticData> {
-        const updateExpressions: string[] = [];
-        const expressionAttributeValues: Record<string, any> = {};
-        const expressionAttributeNames: Record<string, string> = {};
+        const changes = definedFields(data);
 
-        if (data.ExperiencedRidersOnly !== undefined) {
-            updateExpressions.push("#experiencedRidersOnly = :experiencedRidersOnly");
-            expressionAttributeNames["#experiencedRidersOnly"] = "ExperiencedRidersOnly";
-            expressionAttributeValues[":experiencedRidersOnly"] = data.ExperiencedRidersOnly;
+        if (Object.keys(changes).length === 0) {
+            throw new ValidationError("No fields to update");
         }
 
-        if (data.VerticalFeet !== undefined) {
-            updateExpressions.push("#verticalFeet = :verticalFeet");
-            expressionAttributeNames["#verticalFeet"] = "VerticalFeet";
-            expressionAttributeValues[":verticalFeet"] = data.VerticalFeet;
-        }
+        const result = await this.updateItem(
+            { Lift: this.tenant.toKey(lift), Metadata: "Static Data" },
+            { set: changes },
+            { expectedVersion: options.expectedVersion, ifNotDeleted: true },
+            (error) => {
+                if (options.expectedVersion !== undefined && isConditionalCheckFailed(error)) {
+                    return new PreconditionFailedError(
+                        `Version ${options.expectedVersion} of ${lift} - Static Data is stale`
+                    );
+                }
+                if (isConditionalCheckFailed(error)) {
+                    return new NotFoundError(`Ski lift data for ${lift} - Static Data is deleted`);
+                }
+                return new DynamoDBError("Failed to update static data", error);
+            }
+        );
+
+        return result as SkiLiftStaticData;
+    }
+
+    /**
+     * Update dynamic ski lift data
+     */
+    async updateDynamicData(
+        lift: string,
+        metadata: string,
+        data: UpdateDynamicDataInput,
+        options: StatusChangeOptions = {}
+    ): Promise<SkiLiftDynamicData> {
+        const changes = definedFields(data);
 
-        if (data.LiftTime !== undefined) {
-            updateExpressions.push("#liftTime = :liftTime");
-            expressionAttributeNames["#liftTime"] = "LiftTime";
-            expressionAttributeValues[":liftTime"] = data.LiftTime;
+        if (Object.keys(changes).length === 0) {
+            throw new ValidationError("No fields to update");
         }
 
-        if (updateExpressions.length === 0) {
-            throw new DynamoDBError("No fields to update");
+        const key = { Lift: this.tenant.toKey(lift), Metadata: metadata };
+        let condition: WriteCondition = {
+            expectedVersion: options.expectedVersion,
+            ifNotDeleted: true,
+        };
+        let transition: StatusTransition | undefined;
+
+        if (data.LiftStatus !== undefined) {
+            const existing = await this.getForStatusChange(key, lift, metadata);
+            transition = await this.statusTransition(lift, existing, data, options);
+            if (transition) {
+                changes.StatusTimeline = [...(existing?.StatusTimeline ?? []), transition];
+                // The transition was checked against the status read above, so
+                // the write must fail if the record has changed since
+                if (options.expectedVersion === undefined) {
+                    condition = existing
+                        ? { expectedVersion: existing.Version ?? 0, ifNotDeleted: true }
+                        : { ifNotExists: true };
+                }
+            }
         }
 
+        const result = await this.updateItem(key, { set: changes }, condition, (error) => {
+            if (options.expectedVersion !== undefined && isConditionalCheckFailed(error)) {
+                return new PreconditionFailedError(
+                    `Version ${options.expectedVersion} of ${lift} - ${metadata} is stale`
+                );
+            }
+            if (transition && isConditionalCheckFailed(error)) {
+                return new ConflictError(
+                    `${lift} - ${metadata} changed while its status was updated, retry the request`
+                );
+            }
+            if (isConditionalCheckFailed(error)) {
+                return new NotFoundError(`Ski lift data for ${lift} - ${metadata} is deleted`);
+            }
+            return new DynamoDBError("Failed to update dynamic data", error);
+        });
+
+        return result as SkiLiftDynamicData;
+    }
+
+    private async getForStatusChange(
+        key: ItemKey,
+        lift: string,
+        metadata: string
+    ): Promise<SkiLiftDynamicData | undefined> {
+        let existing: SkiLiftRecord | undefined;
         try {
-            const result = await this.dynamodb.send(
-                new UpdateCommand({
-                    TableName: TABLE_NAME,
-                    Key: {
-                        Lift: lift,
-                        Metadata: "Static Data",
-                    },
-                    UpdateExpression: `SET ${updateExpressions.join(", ")}`,
-                    ExpressionAttributeNames: expressionAttributeNames,
-                    ExpressionAttributeValues: expressionAttributeValues,
-                    ReturnValues: "ALL_NEW",
-                })
+            existing = await this.repository.get(key);
+        } catch (error) {
+            throw new DynamoDBError("Failed to update dynamic data", error);
+        }
+
+        if (existing && isDeleted(existing)) {
+            throw new NotFoundError(`Ski lift data for ${lift} - ${metadata} is deleted`);
+        }
+        return existing as SkiLiftDynamicData | undefined;
+    }
+
+    /**
+     * Check a status change against the transition and safety rules and
+     * describe it for the timeline; undefined when the status is unchanged
+     */
+    private async statusTransition(
+        lift: string,
+        existing: SkiLiftDynamicData | undefined,
+        data: UpdateDynamicDataInput,
+        options: StatusChangeOptions
+    ): Promise<StatusTransition | undefined> {
+        const from = existing?.LiftStatus;
+        const to = data.LiftStatus;
+
+        if (to === undefined || from === to) {
+            return undefined;
+        }
+
+        const allowed = from === undefined || canTransition(from, to);
+        if (!allowed && !options.override) {
+            throw new ConflictError(
+                `${lift} cannot go from ${from} to ${to} without a supervisor override`
             );
+        }
+
+        await this.assertSafeToOpen(lift, to, data.AvalancheDanger ?? existing?.AvalancheDanger);
 
-            return result.Attributes as SkiLiftStaticData;
+        return {
+            From: from,
+            To: to,
+            ChangedAt: new Date().toISOString(),
+            ChangedBy: options.changedBy,
+            Reason: options.reason,
+            Override: allowed ? undefined : true,
+        };
+    }
+
+    /**
+     * Add riders to a day's count with an atomic ADD, so concurrent scanners
+     * never overwrite each other. Creates the day's record if it is missing.
+     *
+     * When by sums a batch of requests, shares lists each request's part in
+     * order. The write is published once, and every share is audited by its
+     * own request's service as an increment of its own, so each principal
+     * that contributed appears in the audit log.
+     */
+    async incrementRiders(
+        lift: string,
+        metadata: string,
+        by: number,
+        shares: RiderIncrementShare[] = [{ by, service: this }]
+    ): Promise<SkiLiftDynamicData> {
+        const key = { Lift: this.tenant.toKey(lift), Metadata: metadata };
+        let result: UpdateResult;
+        try {
+            result = await this.repository.update(
+                key,
+                { set: {}, add: { TotalUniqueLiftRiders: by }, defaults: INCREMENT_DAY_DEFAULTS },
+                { ifNotDeleted: true }
+            );
         } catch (error) {
-            throw new DynamoDBError("Failed to update static data", error);
+            if (isConditionalCheckFailed(error)) {
+                throw new NotFoundError(`Ski lift data for ${lift} - ${metadata} is deleted`);
+            }
+            throw new DynamoDBError("Failed to increment riders", error);
         }
+
+        this.publishChanges([
+            {
+                action: result.previous ? "update" : "create",
+                key,
+                before: result.previous,
+                after: result.item,
+            },
+        ]);
+
+        // Replay the shares on the previous image, so each entry shows its own part
+        let before = result.previous as SkiLiftDynamicData | undefined;
+        const changes = shares.map(({ by: share }) => {
+            const after = {
+                ...(result.item as SkiLiftDynamicData),
+                TotalUniqueLiftRiders: (before?.TotalUniqueLiftRiders ?? 0) + share,
+            };
+            const change: AuditChange = {
+                action: before ? "update" : "create",
+                key,
+                before,
+                after,
+            };
+            before = after;
+            return change;
+        });
+        await Promise.all(
+            shares.map((share, index) => share.service.audit?.record([changes[index]]))
+        );
+
+        return this.fromStored(result.item) as SkiLiftDynamicData;
     }
 
     /**
-     * Update dynamic ski lift data
+     * Soft-delete ski lift data: mark it deleted by the caller and, with a
+     * retention window, due for purging. Deleting a missing or already deleted
+     * record changes nothing.
      */
-    async updateDynamicData(
+    async deleteSkiLift(
         lift: string,
         metadata: string,
-        data: UpdateDynamicDataInput
-    ): Promise<SkiLiftDynamicData> {
-        const updateExpressions: string[] = [];
-        const expressionAttributeValues: Record<string, any> = {};
-        const expressionAttributeNames: Record<string, string> = {};
+        options: DeleteOptions = {}
+    ): Promise<void> {
+        const key = { Lift: this.tenant.toKey(lift), Metadata: metadata };
+        const deletedAt = new Date();
+        let result: UpdateResult;
 
-        if (data.TotalUniqueLiftRiders !== undefined) {
-            updateExpressions.push("#totalUniqueLiftRiders = :totalUniqueLiftRiders");
-            expressionAttributeNames["#totalUniqueLiftRiders"] = "TotalUniqueLiftRiders";
-            expressionAttributeValues[":totalUniqueLiftRiders"] = data.TotalUniqueLiftRiders;
+        try {
+            result = await this.repository.update(
+                key,
+                {
+                    set: {
+                        DeletedAt: deletedAt.toISOString(),
+                        DeletedBy: options.deletedBy,
+                        ExpiresAt: purgeAt(deletedAt, options.retentionDays ?? 0),
+                    },
+                },
+                { expectedVersion: options.expectedVersion, ifExists: true, ifNotDeleted: true }
+            );
+        } catch (error) {
+            if (options.expectedVersion !== undefined && isConditionalCheckFailed(error)) {
+                throw new PreconditionFailedError(
+                    `Version ${options.expectedVersion} of ${lift} - ${metadata} is stale`
+                );
+            }
+            if (isConditionalCheckFailed(error)) {
+                return;
+            }
+            throw new DynamoDBError("Failed to delete ski lift data", error);
         }
 
-        if (data.AverageSnowCoverageInches !== undefined) {
-            updateExpressions.push("#averageSnowCoverageInches = :averageSnowCoverageInches");
-            expressionAttributeNames["#averageSnowCoverageInches"] = "AverageSnowCoverageInches";
-            expressionAttributeValues[":averageSnowCoverageInches"] = data.AverageSnowCoverageInches;
+        await this.recordChanges([
+            { action: "delete", key, before: result.previous, after: result.item },
+        ]);
+    }
+
+    /**
+     * Restore soft-deleted ski lift data
+     */
+    async restoreSkiLift(
+        lift: string,
+        metadata: string,
+        options: WriteOptions = {}
+    ): Promise<SkiLiftRecord> {
+        const key = { Lift: this.tenant.toKey(lift), Metadata: metadata };
+        let existing: SkiLiftRecord | undefined;
+
+        try {
+            existing = await this.repository.get(key);
+        } catch (error) {
+            throw new DynamoDBError("Failed to restore ski lift data", error);
         }
 
-        if (data.LiftStatus !== undefined) {
-            updateExpressions.push("#liftStatus = :liftStatus");
-            expressionAttributeNames["#liftStatus"] = "LiftStatus";
-            expressionAttributeValues[":liftStatus"] = data.LiftStatus;
+        if (!existing || !isDeleted(existing)) {
+            throw new NotFoundError(`No deleted ski lift data for ${lift} - ${metadata}`);
         }
 
-        if (data.AvalancheDanger !== undefined) {
-            updateExpressions.push("#avalancheDanger = :avalancheDanger");
-            expressionAttributeNames["#avalancheDanger"] = "AvalancheDanger";
-            expressionAttributeValues[":avalancheDanger"] = data.AvalancheDanger;
+        // Pinning the version read above makes the restore fail if the record
+        // changed (was purged, restored or rewritten) in the meantime
+        return this.updateItem(
+            key,
+            { set: {}, remove: SOFT_DELETE_ATTRIBUTES },
+            { expectedVersion: options.expectedVersion ?? existing.Version ?? 0 },
+            (error) => {
+                if (options.expectedVersion !== undefined && isConditionalCheckFailed(error)) {
+                    return new PreconditionFailedError(
+                        `Version ${options.expectedVersion} of ${lift} - ${metadata} is stale`
+                    );
+                }
+                if (isConditionalCheckFailed(error)) {
+                    return new ConflictError(
+                        `${lift} - ${metadata} changed while being restored, retry the request`
+                    );
+                }
+                return new DynamoDBError("Failed to restore ski lift data", error);
+            },
+            "restore"
+        );
+    }
+
+    /**
+     * Decommission a lift from start to finish: see beginDecommission and
+     * finishDecommission
+     */
+    async decommissionLift(
+        lift: string,
+        options: DecommissionOptions = {}
+    ): Promise<DecommissionResponse> {
+        const tombstone = await this.beginDecommission(lift, options);
+        return this.finishDecommission(lift, tombstone, options);
+    }
+
+    /**
+     * Start decommissioning a lift by writing an InProgress tombstone in its
+     * partition, which keeps the lift out of OpenLifts when later days are
+     * closed and reports how far the deletion has got. A tombstone left
+     * InProgress or Failed by an interrupted run is resumed: it keeps its
+     * start time and count.
+     */
+    async beginDecommission(
+        lift: string,
+        options: DecommissionOptions = {}
+    ): Promise<LiftTombstone> {
+        const key = { Lift: this.tenant.toKey(lift), Metadata: DECOMMISSIONED_METADATA };
+        let previous: LiftTombstone | undefined;
+        let page: Page;
+        try {
+            previous = (await this.repository.get(key)) as LiftTombstone | undefined;
+            page = await this.repository.queryPartition({ lift: key.Lift, limit: 1 });
+        } catch (error) {
+            throw new DynamoDBError("Failed to query lift data", error);
         }
 
-        if (updateExpressions.length === 0) {
-            throw new DynamoDBError("No fields to update");
+        if (page.items.length === 0) {
+            throw new NotFoundError(`No data found for ${lift}`);
         }
 
+        const resumed =
+            previous !== undefined &&
+            !isDeleted(previous) &&
+            (previous.DecommissionStatus === "InProgress" ||
+                previous.DecommissionStatus === "Failed");
+
+        return (await this.updateItem(
+            key,
+            {
+                set: {
+                    DecommissionedAt: resumed
+                        ? previous?.DecommissionedAt
+                        : new Date().toISOString(),
+                    DecommissionedBy: options.decommissionedBy,
+                    DecommissionStatus: "InProgress",
+                    DeletedRecords: resumed ? (previous?.DeletedRecords ?? 0) : 0,
+                },
+                remove: [...SOFT_DELETE_ATTRIBUTES, "CompletedAt", "FailureReason"],
+            },
+            {},
+            (error) => new DynamoDBError("Failed to write lift tombstone", error)
+        )) as LiftTombstone;
+    }
+
+    /**
+     * Delete every record of a lift but its tombstone, soft-deleted ones
+     * included, in batches, counting DeletedRecords on the tombstone after
+     * each batch. The tombstone ends Complete, or Failed with the reason when
+     * records cannot be deleted; beginning the decommission again resumes it.
+     */
+    async finishDecommission(
+        lift: string,
+        tombstone: LiftTombstone,
+        options: DecommissionOptions = {}
+    ): Promise<DecommissionResponse> {
+        const partition = this.tenant.toKey(lift);
+        let deleted = tombstone.DeletedRecords ?? 0;
+
         try {
-            const result = await this.dynamodb.send(
-                new UpdateCommand({
-                    TableName: TABLE_NAME,
-                    Key: {
-                        Lift: lift,
-                        Metadata: metadata,
-                    },
-                    UpdateExpression: `SET ${updateExpressions.join(", ")}`,
-                    ExpressionAttributeNames: expressionAttributeNames,
-                    ExpressionAttributeValues: expressionAttributeValues,
-                    ReturnValues: "ALL_NEW",
-                })
-            );
+            let page = await this.queryPartitionPage(partition);
+            for (;;) {
+                const records = page.items.filter(
+                    (item) => item.Metadata !== DECOMMISSIONED_METADATA
+                );
+                for (let start = 0; start < records.length; start += BATCH_WRITE_CHUNK_SIZE) {
+                    const chunk = records.slice(start, start + BATCH_WRITE_CHUNK_SIZE);
+                    await this.deleteBatchChunk(lift, chunk);
+                    deleted += chunk.length;
+                    await this.updateTombstone(lift, { DeletedRecords: deleted });
+                    options.onProgress?.(deleted);
+                }
 
-            return result.Attributes as SkiLiftDynamicData;
+                if (!page.lastEvaluatedKey) {
+                    break;
+                }
+                page = await this.queryPartitionPage(partition, page.lastEvaluatedKey);
+            }
         } catch (error) {
-            throw new DynamoDBError("Failed to update dynamic data", error);
+            await this.updateTombstone(lift, {
+                DecommissionStatus: "Failed",
+                FailureReason: (error as Error).message,
+            }).catch(() => undefined);
+            throw error;
+        }
+
+        await this.updateTombstone(lift, {
+            DecommissionStatus: "Complete",
+            CompletedAt: new Date().toISOString(),
+        });
+        return { Lift: lift, deleted };
+    }
+
+    private async updateTombstone(lift: string, set: Partial<LiftTombstone>): Promise<void> {
+        await this.updateItem(
+            { Lift: this.tenant.toKey(lift), Metadata: DECOMMISSIONED_METADATA },
+            { set },
+            {},
+            (error) => new DynamoDBError("Failed to update lift tombstone", error)
+        );
+    }
+
+    private async queryPartitionPage(
+        partition: string,
+        exclusiveStartKey?: Record<string, any>
+    ): Promise<Page> {
+        try {
+            return await this.repository.queryPartition({ lift: partition, exclusiveStartKey });
+        } catch (error) {
+            throw new DynamoDBError("Failed to query lift data", error);
         }
     }
 
     /**
-     * Delete ski lift data
+     * Delete up to 25 stored records, retrying UnprocessedItems with
+     * exponential backoff
      */
-    async deleteSkiLift(lift: string, metadata: string): Promise<void> {
-        try {
-            await this.dynamodb.send(
-                new DeleteCommand({
-                    TableName: TABLE_NAME,
-                    Key: {
-                        Lift: lift,
-                        Metadata: metadata,
-                    },
-                })
+    private async deleteBatchChunk(lift: string, chunk: SkiLiftRecord[]): Promise<void> {
+        const keyOf = (key: ItemKey) => `${key.Lift}|${key.Metadata}`;
+        let unprocessed = chunk;
+
+        for (let attempt = 1; attempt <= BATCH_WRITE_MAX_ATTEMPTS; attempt++) {
+            let remaining: ItemKey[];
+            try {
+                remaining = await this.repository.batchDelete(
+                    unprocessed.map((item) => ({ Lift: item.Lift, Metadata: item.Metadata }))
+                );
+            } catch (error) {
+                throw new DynamoDBError(`Failed to delete data of ${lift}`, error);
+            }
+
+            const remainingKeys = new Set(remaining.map(keyOf));
+            await this.recordChanges(
+                unprocessed
+                    .filter((item) => !remainingKeys.has(keyOf(item)))
+                    .map((item) => ({
+                        action: "delete",
+                        key: { Lift: item.Lift, Metadata: item.Metadata },
+                        before: item,
+                    }))
             );
-        } catch (error) {
-            throw new DynamoDBError("Failed to delete ski lift data", error);
+
+            unprocessed = unprocessed.filter((item) => remainingKeys.has(keyOf(item)));
+            if (unprocessed.length === 0) {
+                return;
+            }
+
+            if (attempt < BATCH_WRITE_MAX_ATTEMPTS) {
+                await sleep(BATCH_WRITE_BASE_DELAY_MS * 2 ** (attempt - 1));
+            }
         }
+
+        throw new DynamoDBError(
+            `${unprocessed.length} records of ${lift} were not deleted after ${BATCH_WRITE_MAX_ATTEMPTS} attempts, retry the request`
+        );
     }
 
     /**
-     * List all ski lifts with pagination
+     * Query the audit log of one record, newest change first
      */
-    async listSkiLifts(query: ListQueryInput): Promise<PaginatedResponse<SkiLiftRecord>> {
+    async queryAuditLog(
+        lift: string,
+        metadata: string,
+        query: AuditQueryInput = { limit: 20 }
+    ): Promise<PaginatedResponse<AuditEntry>> {
+        if (!this.audit) {
+            throw new ConfigurationError("Audit log is not configured");
+        }
+
+        const scope = this.tenant.cursorScope(`audit:${lift}/${metadata}`);
+        const exclusiveStartKey = decodeCursor(query.cursor, scope);
+
         try {
-            const params: any = {
-                TableName: TABLE_NAME,
-                Limit: query.limit,
+            const result = await this.audit.repository.query({
+                key: { Lift: this.tenant.toKey(lift), Metadata: metadata },
+                limit: query.limit,
+                exclusiveStartKey,
+            });
+
+            return {
+                items: result.items.map((entry) => ({
+                    ...entry,
+                    Lift: lift,
+                    Before: entry.Before && this.fromStored(entry.Before),
+                    After: entry.After && this.fromStored(entry.After),
+                })),
+                nextCursor: encodeCursor(result.lastEvaluatedKey, scope),
+                count: result.count,
             };
+        } catch (error) {
+            throw new DynamoDBError("Failed to query audit log", error);
+        }
+    }
 
-            if (query.lastEvaluatedLift && query.lastEvaluatedMetadata) {
-                params.ExclusiveStartKey = {
-                    Lift: query.lastEvaluatedLift,
-                    Metadata: query.lastEvaluatedMetadata,
-                };
-            }
+    /**
+     * List all of the resort's records with pagination
+     */
+    async listSkiLifts(
+        query: ListQueryInput,
+        options: ReadOptions = {}
+    ): Promise<PaginatedResponse<SkiLiftRecord>> {
+        const scope = this.tenant.cursorScope("scan");
+        const exclusiveStartKey = decodeCursor(query.cursor, scope);
 
-            const result = await this.dynamodb.send(new ScanCommand(params));
+        try {
+            const result = await this.repository.scan({
+                liftPrefix: this.tenant.keyPrefix,
+                limit: query.limit,
+                exclusiveStartKey,
+            });
+            const items = this.visibleRecords(result.items, options);
 
             return {
-                items: (result.Items as SkiLiftRecord[]) || [],
-                lastEvaluatedKey: result.LastEvaluatedKey as any,
-                count: result.Count || 0,
+                items,
+                nextCursor: encodeCursor(result.lastEvaluatedKey, scope),
+                count: items.length,
             };
         } catch (error) {
             throw new DynamoDBError("Failed to list ski lifts", error);
@@ -334,43 +1444,28 @@ export class SkiLiftService {
      */
     async queryByRiders(
         lift: string,
-        query: QueryByRidersInput
+        query: QueryByRidersInput,
+        options: ReadOptions = {}
     ): Promise<PaginatedResponse<SkiLiftRecord>> {
-        try {
-            let keyConditionExpression = "Lift = :lift";
-            const expressionAttributeValues: Record<string, any> = {
-                ":lift": lift,
-            };
+        // GSI keys include TotalUniqueLiftRiders alongside the table keys
+        const scope = this.tenant.cursorScope(`riders:${lift}`);
+        const exclusiveStartKey = decodeCursor(query.cursor, scope);
 
-            // Add range condition for riders if specified
-            if (query.minRiders !== undefined && query.maxRiders !== undefined) {
-                keyConditionExpression +=
-                    " AND TotalUniqueLiftRiders BETWEEN :minRiders AND :maxRiders";
-                expressionAttributeValues[":minRiders"] = query.minRiders;
-                expressionAttributeValues[":maxRiders"] = query.maxRiders;
-            } else if (query.minRiders !== undefined) {
-                keyConditionExpression += " AND TotalUniqueLiftRiders >= :minRiders";
-                expressionAttributeValues[":minRiders"] = query.minRiders;
-            } else if (query.maxRiders !== undefined) {
-                keyConditionExpression += " AND TotalUniqueLiftRiders <= :maxRiders";
-                expressionAttributeValues[":maxRiders"] = query.maxRiders;
-            }
+        try {
+            const result = await this.repository.queryByRiders({
+                lift: this.tenant.toKey(lift),
+                minRiders: query.minRiders,
+                maxRiders: query.maxRiders,
+                limit: query.limit,
+                exclusiveStartKey,
+            });
 
-            const result = await this.dynamodb.send(
-                new QueryCommand({
-                    TableName: TABLE_NAME,
-                    IndexName: GSI_NAME,
-                    KeyConditionExpression: keyConditionExpression,
-                    ExpressionAttributeValues: expressionAttributeValues,
-                    Limit: query.limit,
-                    ScanIndexForward: false, // Sort descending by riders
-                })
-            );
+            const items = this.visibleRecords(result.items, options);
 
             return {
-                items: (result.Items as SkiLiftRecord[]) || [],
-                lastEvaluatedKey: result.LastEvaluatedKey as any,
-                count: result.Count || 0,
+                items,
+                nextCursor: encodeCursor(result.lastEvaluatedKey, scope),
+                count: items.length,
             };
         } catch (error) {
             throw new DynamoDBError("Failed to query by riders", error);
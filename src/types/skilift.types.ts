@@ -7,7 +7,11 @@
  */
 export interface SkiLiftBase {
     Lift: string; // Partition Key: e.g., "Lift 3", "Resort Data"
-    Metadata: string; // Sort Key: e.g., "Static Data", "01/01/20"
+    Metadata: string; // Sort Key: e.g., "Static Data", "2020-01-01" (legacy "01/01/20")
+    Version: number; // Incremented by the service on every write, exposed as ETag
+    DeletedAt?: string; // ISO timestamp, set while the record is soft-deleted
+    DeletedBy?: string; // Actor that deleted the record
+    ExpiresAt?: number; // Epoch seconds after which DynamoDB TTL purges a deleted record
 }
 
 /**
@@ -20,15 +24,38 @@ export interface SkiLiftStaticData extends SkiLiftBase {
     LiftTime: string; // Format: "HH:MM"
 }
 
+/**
+ * Operating status of a lift for the day
+ */
+export type LiftStatus = "Open" | "Closed" | "Pending";
+
+/**
+ * Avalanche danger rating, from lowest to highest
+ */
+export type AvalancheDanger = "Low" | "Moderate" | "Considerable" | "High" | "Extreme";
+
+/**
+ * One change of a lift's status during the day
+ */
+export interface StatusTransition {
+    From?: LiftStatus; // Absent when the day had no status yet
+    To: LiftStatus;
+    ChangedAt: string; // ISO timestamp
+    ChangedBy?: string; // Actor that made the change
+    Reason?: string;
+    Override?: boolean; // Set when a supervisor forced a transition the rules do not allow
+}
+
 /**
  * Dynamic data for a ski lift (daily operational data)
  */
 export interface SkiLiftDynamicData extends SkiLiftBase {
-    Metadata: string; // Date in format "MM/DD/YY"
+    Metadata: string; // Date in format "YYYY-MM-DD"
     TotalUniqueLiftRiders: number;
     AverageSnowCoverageInches: number;
-    LiftStatus: "Open" | "Closed" | "Pending";
-    AvalancheDanger: "Low" | "Moderate" | "Considerable" | "High" | "Extreme";
+    LiftStatus: LiftStatus;
+    AvalancheDanger?: AvalancheDanger; // Unknown on a day created by a rider increment
+    StatusTimeline?: StatusTransition[]; // Status changes made through updates, oldest first
 }
 
 /**
@@ -36,17 +63,38 @@ export interface SkiLiftDynamicData extends SkiLiftBase {
  */
 export interface ResortData extends SkiLiftBase {
     Lift: "Resort Data";
-    Metadata: string; // Date in format "MM/DD/YY"
+    Metadata: string; // Date in format "YYYY-MM-DD"
     TotalUniqueLiftRiders: number;
     AverageSnowCoverageInches: number;
-    AvalancheDanger: "Low" | "Moderate" | "Considerable" | "High" | "Extreme";
+    AvalancheDanger?: AvalancheDanger; // Highest known level among the day's lifts
     OpenLifts: number[]; // Array of lift numbers that are open
 }
 
+/**
+ * State of the deletion a decommission runs
+ */
+export type DecommissionStatus = "InProgress" | "Complete" | "Failed";
+
+/**
+ * Left in a lift's partition when the lift is decommissioned. While it is
+ * not deleted the lift is left out of ResortData.OpenLifts. It also reports
+ * the progress of deleting the lift's data, and lets an interrupted run
+ * resume where it stopped.
+ */
+export interface LiftTombstone extends SkiLiftBase {
+    Metadata: "Decommissioned";
+    DecommissionedAt: string; // ISO timestamp the decommission started
+    DecommissionedBy?: string; // Actor that decommissioned the lift
+    DecommissionStatus?: DecommissionStatus; // Absent on tombstones that predate progress tracking
+    DeletedRecords?: number; // Records deleted so far, across resumed runs
+    CompletedAt?: string; // ISO timestamp, once Complete
+    FailureReason?: string; // Why the last run stopped, while Failed
+}
+
 /**
  * Union type for all possible ski lift records
  */
-export type SkiLiftRecord = SkiLiftStaticData | SkiLiftDynamicData | ResortData;
+export type SkiLiftRecord = SkiLiftStaticData | SkiLiftDynamicData | ResortData | LiftTombstone;
 
 /**
  * DynamoDB attribute value types
@@ -68,10 +116,7 @@ export type DynamoDBItem = Record<string, DynamoDBAttributeValue>;
  */
 export interface ListSkiLiftsParams {
     limit?: number;
-    lastEvaluatedKey?: {
-        Lift: string;
-        Metadata: string;
-    };
+    cursor?: string;
 }
 
 /**
@@ -82,6 +127,75 @@ export interface QueryByRidersParams {
     minRiders?: number;
     maxRiders?: number;
     limit?: number;
+    cursor?: string;
+}
+
+/**
+ * Options for write operations
+ */
+export interface WriteOptions {
+    expectedVersion?: number; // Parsed from If-Match, checked with a condition expression
+    upsert?: boolean; // Create routes only: replace an existing record instead of failing
+}
+
+/**
+ * Options for updates that may change a lift's status
+ */
+export interface StatusChangeOptions extends WriteOptions {
+    changedBy?: string; // Actor recorded in the status timeline
+    reason?: string; // Why the status changed, recorded in the status timeline
+    override?: boolean; // Supervisor override of the transition rules (not the safety rules)
+}
+
+/**
+ * Options for soft deletes
+ */
+export interface DeleteOptions extends WriteOptions {
+    deletedBy?: string; // Actor recorded on the deleted record
+    retentionDays?: number; // Purge this many days after deletion, 0 keeps the record
+}
+
+/**
+ * Options for decommissioning a lift
+ */
+export interface DecommissionOptions {
+    decommissionedBy?: string; // Actor recorded on the tombstone
+    onProgress?: (deleted: number) => void; // Called after every batch with DeletedRecords
+}
+
+/**
+ * Options for reads
+ */
+export interface ReadOptions {
+    includeDeleted?: boolean; // Return soft-deleted records too
+}
+
+/**
+ * Outcome of a single item in a batch write
+ */
+export interface BatchItemResult {
+    index: number; // Position of the item in the request body
+    Lift?: string;
+    Metadata?: string;
+    status: "created" | "failed";
+    reason?: string;
+}
+
+/**
+ * Response for batch writes
+ */
+export interface BatchWriteResponse {
+    results: BatchItemResult[];
+    created: number;
+    failed: number;
+}
+
+/**
+ * Response for decommissioning a lift
+ */
+export interface DecommissionResponse {
+    Lift: string;
+    deleted: number; // Records removed, the tombstone excluded, across resumed runs
 }
 
 /**
@@ -89,9 +203,36 @@ export interface QueryByRidersParams {
  */
 export interface PaginatedResponse<T> {
     items: T[];
-    lastEvaluatedKey?: {
-        Lift: string;
-        Metadata: string;
-    };
+    nextCursor?: string; // Opaque token for the next page, absent on the last page
     count: number;
 }
+
+/**
+ * Kind of write an audit entry records
+ */
+export type AuditAction = "create" | "update" | "delete" | "restore" | "batch-put" | "close-day";
+
+/**
+ * Change of one attribute between the before and after images
+ */
+export interface FieldChange {
+    from?: unknown;
+    to?: unknown;
+}
+
+/**
+ * One write to a record, with who made it and what it changed
+ */
+export interface AuditEntry {
+    AuditId: string; // "<ChangedAt>#<uuid>", sorts chronologically within a record
+    Lift: string;
+    Metadata: string;
+    ChangedAt: string; // ISO timestamp
+    Action: AuditAction;
+    Actor: string; // e.g. "jwt:alice", "apiKey:ops-dashboard", "anonymous:anonymous"
+    Route?: string; // e.g. "PUT /api/skilifts/:lift/:metadata"
+    RequestId?: string;
+    Before?: SkiLiftRecord; // Absent when the record was created (or unknown, for batch puts)
+    After?: SkiLiftRecord; // Absent when the record was deleted
+    Changes: Record<string, FieldChange>; // Attributes that differ, keys and Version excluded
+}
@@ -0,0 +1,108 @@
+import { randomUUID } from "node:crypto";
+import type { AuditRepository } from "../repositories/audit.repository.js";
+import type { ItemKey } from "../repositories/skilift.repository.js";
+import type {
+    AuditAction,
+    AuditEntry,
+    FieldChange,
+    SkiLiftRecord,
+} from "../types/skilift.types.js";
+
+/**
+ * Audit trail of writes to the SkiLifts table.
+ *
+ * Entries are appended after the write they describe has succeeded, so a
+ * failed append cannot undo it: it is reported through onError (the routes
+ * log it) and the request still succeeds.
+ */
+
+/**
+ * Attributes left out of the diff: the keys never change and Version
+ * changes on every write
+ */
+const UNDIFFED_ATTRIBUTES = new Set(["Lift", "Metadata", "Version"]);
+
+/**
+ * Who made the writes and through which request
+ */
+export interface AuditContext {
+    actor: string;
+    route?: string;
+    requestId?: string;
+}
+
+/**
+ * A write to record, with its stored key and images
+ */
+export interface AuditChange {
+    action: AuditAction;
+    key: ItemKey;
+    before?: SkiLiftRecord;
+    after?: SkiLiftRecord;
+}
+
+/**
+ * Attributes whose values differ between two images of a record
+ */
+export function diffRecords(
+    before?: SkiLiftRecord,
+    after?: SkiLiftRecord
+): Record<string, FieldChange> {
+    const previous: Record<string, unknown> = { ...before };
+    const current: Record<string, unknown> = { ...after };
+    const changes: Record<string, FieldChange> = {};
+
+    for (const attribute of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+        if (UNDIFFED_ATTRIBUTES.has(attribute)) {
+            continue;
+        }
+        const from = previous[attribute];
+        const to = current[attribute];
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+            changes[attribute] = { from, to };
+        }
+    }
+
+    return changes;
+}
+
+export class AuditTrail {
+    constructor(
+        readonly repository: AuditRepository,
+        private context: AuditContext,
+        private onError: (error: unknown, entries: AuditEntry[]) => void = () => undefined,
+        private now: () => Date = () => new Date()
+    ) { }
+
+    /**
+     * Append one entry per change. Never rejects.
+     */
+    async record(changes: AuditChange[]): Promise<void> {
+        if (changes.length === 0) {
+            return;
+        }
+
+        const changedAt = this.now().toISOString();
+        const entries = changes.map(
+            (change): AuditEntry => ({
+                AuditId: `${changedAt}#${randomUUID()}`,
+                Lift: change.key.Lift,
+                Metadata: change.key.Metadata,
+                ChangedAt: changedAt,
+                Action: change.action,
+                Actor: this.context.actor,
+                Route: this.context.route,
+                RequestId: this.context.requestId,
+                Before: change.before,
+                After: change.after,
+                Changes: diffRecords(change.before, change.after),
+            })
+        );
+
+        try {
+            await this.repository.append(entries);
+        } catch (error) {
+            this.onError(error, entries);
+        }
+    }
+}
@@ -0,0 +1,171 @@
+import { createHash } from "node:crypto";
+import { createLocalJWKSet, createRemoteJWKSet, jwtVerify } from "jose";
+import type { JWTPayload } from "jose";
+import { UnauthorizedError } from "./error-handler.js";
+
+/**
+ * Roles, from least to most privileged. Each role includes the ones before it:
+ * readers may GET, operators also write dynamic data, admins also write static
+ * data and delete.
+ */
+export const ROLES = ["reader", "operator", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Authenticated caller attached to the request
+ */
+export interface Principal {
+    id: string; // JWT subject or API key name
+    roles: Role[];
+    type: "jwt" | "apiKey" | "anonymous";
+}
+
+export interface ApiKeyEntry {
+    name: string;
+    role: Role;
+    hash: string; // SHA-256 hex digest of the key
+}
+
+/**
+ * Configuration for authentication
+ */
+export interface AuthConfig {
+    enabled: boolean;
+    jwt: {
+        secret?: string; // HS256 shared secret
+        jwks?: string; // Inline JWKS JSON, for offline verification
+        jwksUrl?: string;
+        issuer?: string;
+        audience?: string;
+        rolesClaim: string;
+    };
+    apiKeys: ApiKeyEntry[];
+}
+
+/**
+ * Used when auth is disabled, so writes still have an actor
+ */
+export const ANONYMOUS_PRINCIPAL: Principal = {
+    id: "anonymous",
+    roles: ["admin"],
+    type: "anonymous",
+};
+
+export function isRole(value: unknown): value is Role {
+    return ROLES.includes(value as Role);
+}
+
+export function hasRole(principal: Principal, required: Role): boolean {
+    const requiredRank = ROLES.indexOf(required);
+    return principal.roles.some((role) => ROLES.indexOf(role) >= requiredRank);
+}
+
+export function hashApiKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Parse API_KEYS: comma-separated "name:role:sha256hex" entries
+ */
+export function parseApiKeys(value: string | undefined): ApiKeyEntry[] {
+    return (value || "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+            const [name, role, hash] = entry.split(":");
+            if (!name || !isRole(role) || !/^[0-9a-f]{64}$/i.test(hash || "")) {
+                throw new Error(`Invalid API_KEYS entry "${entry}", expected name:role:sha256hex`);
+            }
+            return { name, role, hash: hash.toLowerCase() };
+        });
+}
+
+/**
+ * Get auth configuration from environment variables
+ */
+export function getAuthConfig(): AuthConfig {
+    return {
+        enabled: process.env.AUTH_ENABLED !== "false",
+        jwt: {
+            secret: process.env.JWT_SECRET || undefined,
+            jwks: process.env.JWT_JWKS || undefined,
+            jwksUrl: process.env.JWT_JWKS_URL || undefined,
+            issuer: process.env.JWT_ISSUER || undefined,
+            audience: process.env.JWT_AUDIENCE || undefined,
+            rolesClaim: process.env.JWT_ROLES_CLAIM || "roles",
+        },
+        apiKeys: parseApiKeys(process.env.API_KEYS),
+    };
+}
+
+function rolesFromClaim(claim: unknown): Role[] {
+    const values = Array.isArray(claim)
+        ? claim
+        : typeof claim === "string"
+            ? claim.split(" ")
+            : [];
+    return values.filter(isRole);
+}
+
+/**
+ * Build the JWT verifier for the configured key source, if any
+ */
+function createJwtVerifier(
+    config: AuthConfig
+): ((token: string) => Promise<JWTPayload>) | undefined {
+    const options = { issuer: config.jwt.issuer, audience: config.jwt.audience };
+
+    if (config.jwt.jwks || config.jwt.jwksUrl) {
+        const jwks = config.jwt.jwks
+            ? createLocalJWKSet(JSON.parse(config.jwt.jwks))
+            : createRemoteJWKSet(new URL(config.jwt.jwksUrl as string));
+        return async (token) => (await jwtVerify(token, jwks, options)).payload;
+    }
+
+    if (config.jwt.secret) {
+        const secret = new TextEncoder().encode(config.jwt.secret);
+        return async (token) => (await jwtVerify(token, secret, options)).payload;
+    }
+
+    return undefined;
+}
+
+/**
+ * Create the credential checks for a configuration. A check is undefined
+ * when its scheme is not configured.
+ */
+export function createAuthenticators(config: AuthConfig) {
+    const verifyJwt = createJwtVerifier(config);
+    const keysByHash = new Map(config.apiKeys.map((entry) => [entry.hash, entry]));
+
+    const verifyToken = verifyJwt
+        ? async (token: string): Promise<Principal> => {
+            let payload: JWTPayload;
+            try {
+                payload = await verifyJwt(token);
+            } catch {
+                throw new UnauthorizedError("Invalid or expired token");
+            }
+
+            return {
+                id: payload.sub || "unknown",
+                roles: rolesFromClaim(payload[config.jwt.rolesClaim]),
+                type: "jwt",
+            };
+        }
+        : undefined;
+
+    const verifyApiKey = keysByHash.size
+        ? async (apiKey: string): Promise<Principal> => {
+            const entry = keysByHash.get(hashApiKey(apiKey));
+            if (!entry) {
+                throw new UnauthorizedError("Invalid API key");
+            }
+            return { id: entry.name, roles: [entry.role], type: "apiKey" };
+        }
+        : undefined;
+
+    return { verifyToken, verifyApiKey };
+}
@@ -0,0 +1,228 @@
+import { randomUUID } from "node:crypto";
+import type { Writable } from "node:stream";
+import type { AuditAction, SkiLiftRecord } from "../types/skilift.types.js";
+
+/**
+ * In-process feed of changes to ski lift records.
+ *
+ * SkiLiftService publishes every write it makes; the stream route sends them
+ * to its subscribers as Server-Sent Events. Each event gets an ID made of
+ * the feed's epoch and a sequence number that increases by one, and the most
+ * recent events are kept in a bounded buffer so a client that reconnects with
+ * Last-Event-ID receives what it missed. The feed lives in one process: each
+ * instance of the service only streams the writes it made itself, and gets a
+ * new epoch when it starts, so an ID from another instance or from before a
+ * restart is never mistaken for one of its own.
+ */
+
+/**
+ * Configuration for the change stream
+ */
+export interface ChangeStreamConfig {
+    bufferSize: number; // Events kept for Last-Event-ID resume
+    heartbeatMs: number; // Idle connections get a comment this often
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Get change stream configuration from environment variables. The default
+ * heartbeat stays well inside the load balancer's 60 second idle timeout.
+ */
+export function getChangeStreamConfig(): ChangeStreamConfig {
+    return {
+        bufferSize: Math.floor(numberFromEnv("CHANGE_STREAM_BUFFER_SIZE", 1000)),
+        heartbeatMs: numberFromEnv("CHANGE_STREAM_HEARTBEAT_MS", 15000),
+    };
+}
+
+/**
+ * A write to a record, in the API form of its key
+ */
+export interface Change {
+    ResortId?: string; // Absent for the original single-resort data
+    Action: AuditAction;
+    Lift: string;
+    Metadata: string;
+    ChangedAt: string; // ISO timestamp
+    Record?: SkiLiftRecord; // The record after the write, absent when it was deleted
+}
+
+export interface ChangeEvent extends Change {
+    id: string; // "<epoch>-<sequence>"
+}
+
+export interface ChangeSubscriber {
+    send: (event: ChangeEvent) => void;
+    close: () => void; // The feed is shutting down
+}
+
+/**
+ * Where a subscription starts. resumed is false when the events after the
+ * requested ID are no longer buffered (or were never issued by this feed),
+ * in which case the client should reload its state.
+ */
+export interface Subscription {
+    missed: ChangeEvent[];
+    resumed: boolean;
+    unsubscribe: () => void;
+}
+
+export class ChangeFeed {
+    private events: { sequence: number; event: ChangeEvent }[] = [];
+    private lastSequence = 0;
+    private subscribers = new Set<ChangeSubscriber>();
+
+    constructor(
+        private bufferSize: number,
+        readonly epoch: string = randomUUID().slice(0, 8)
+    ) { }
+
+    /**
+     * ID of the most recent event, sequence 0 before the first
+     */
+    get latestId(): string {
+        return `${this.epoch}-${this.lastSequence}`;
+    }
+
+    publish(changes: Change[]): void {
+        for (const change of changes) {
+            const sequence = ++this.lastSequence;
+            const event: ChangeEvent = { id: `${this.epoch}-${sequence}`, ...change };
+
+            this.events.push({ sequence, event });
+            if (this.events.length > this.bufferSize) {
+                this.events.shift();
+            }
+
+            for (const subscriber of this.subscribers) {
+                subscriber.send(event);
+            }
+        }
+    }
+
+    /**
+     * Subscribe to new events, with the buffered events after lastEventId if any
+     */
+    subscribe(subscriber: ChangeSubscriber, lastEventId?: string): Subscription {
+        this.subscribers.add(subscriber);
+        const unsubscribe = () => {
+            this.subscribers.delete(subscriber);
+        };
+
+        if (lastEventId === undefined) {
+            return { missed: [], resumed: true, unsubscribe };
+        }
+
+        const last = this.sequenceOf(lastEventId);
+        const oldest = this.events[0]?.sequence ?? this.lastSequence + 1;
+        const resumed = last !== undefined && last >= oldest - 1 && last <= this.lastSequence;
+
+        const missed = resumed ? this.events.filter(({ sequence }) => sequence > last) : [];
+
+        return {
+            missed: missed.map(({ event }) => event),
+            resumed,
+            unsubscribe,
+        };
+    }
+
+    /**
+     * Sequence number of an ID this feed issued, undefined for any other ID
+     */
+    private sequenceOf(eventId: string): number | undefined {
+        const match = /^(.+)-(\d+)$/.exec(eventId);
+        return match?.[1] === this.epoch ? Number(match[2]) : undefined;
+    }
+
+    /**
+     * Close every subscription, e.g. when the server shuts down
+     */
+    close(): void {
+        for (const subscriber of this.subscribers) {
+            subscriber.close();
+        }
+        this.subscribers.clear();
+    }
+}
+
+/**
+ * Writes messages to one client's stream, holding them while the socket
+ * buffer is full and sending them on drain. A client that falls more than
+ * maxPending messages behind is cut off with onOverflow rather than buffered
+ * without limit.
+ */
+export class EventStreamWriter {
+    private pending: string[] = [];
+    private waiting = false;
+
+    constructor(
+        private stream: Writable,
+        private maxPending: number,
+        private onOverflow: () => void
+    ) {
+        stream.on("drain", () => this.drain());
+    }
+
+    /**
+     * Whether messages are waiting for the socket to drain
+     */
+    get blocked(): boolean {
+        return this.waiting;
+    }
+
+    write(message: string): void {
+        if (this.stream.destroyed) {
+            return;
+        }
+        if (!this.waiting) {
+            this.waiting = !this.stream.write(message);
+            return;
+        }
+        if (this.pending.length >= this.maxPending) {
+            this.pending = [];
+            this.onOverflow();
+            return;
+        }
+        this.pending.push(message);
+    }
+
+    /**
+     * End the stream, dropping a client that is not reading so it cannot
+     * hold the server open
+     */
+    end(): void {
+        this.pending = [];
+        if (this.waiting) {
+            this.stream.destroy();
+        } else {
+            this.stream.end();
+        }
+    }
+
+    private drain(): void {
+        this.waiting = false;
+        while (!this.waiting && this.pending.length > 0) {
+            this.waiting = !this.stream.write(this.pending.shift() as string);
+        }
+    }
+}
+
+/**
+ * A Server-Sent Events message. Multi-line data is split over data fields.
+ */
+export function formatServerSentEvent(message: {
+    id?: string;
+    event?: string;
+    data: string;
+}): string {
+    const lines = [
+        ...(message.id !== undefined ? [`id: ${message.id}`] : []),
+        ...(message.event ? [`event: ${message.event}`] : []),
+        ...message.data.split("\n").map((line) => `data: ${line}`),
+    ];
+    return `${lines.join("\n")}\n\n`;
+}
@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { ValidationError } from "./error-handler.js";
+
+/**
+ * Opaque, tamper-evident pagination cursors.
+ *
+ * A cursor is base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the payload).
+ * The payload binds the DynamoDB LastEvaluatedKey to the query it came from
+ * (its scope), so a cursor from one lift or index cannot be replayed against another.
+ */
+
+function cursorSecret(): string {
+    return process.env.CURSOR_SECRET || "local-development-cursor-secret";
+}
+
+function sign(payload: string): Buffer {
+    return createHmac("sha256", cursorSecret()).update(payload).digest();
+}
+
+/**
+ * Encode a LastEvaluatedKey into a cursor, or undefined on the last page
+ */
+export function encodeCursor(
+    key: Record<string, any> | undefined,
+    scope: string
+): string | undefined {
+    if (!key) {
+        return undefined;
+    }
+
+    const payload = Buffer.from(JSON.stringify({ s: scope, k: key })).toString("base64url");
+    return `${payload}.${sign(payload).toString("base64url")}`;
+}
+
+/**
+ * Decode a cursor back into an ExclusiveStartKey, verifying signature and scope
+ */
+export function decodeCursor(
+    cursor: string | undefined,
+    scope: string
+): Record<string, any> | undefined {
+    // An empty cursor (e.g. "?cursor=") means the first page
+    if (!cursor) {
+        return undefined;
+    }
+
+    const [payload, signature] = cursor.split(".");
+    if (!payload || !signature) {
+        throw new ValidationError("Invalid pagination cursor");
+    }
+
+    const expected = sign(payload);
+    const actual = Buffer.from(signature, "base64url");
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        throw new ValidationError("Invalid pagination cursor");
+    }
+
+    let decoded: { s?: unknown; k?: unknown };
+    try {
+        decoded = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    } catch {
+        throw new ValidationError("Invalid pagination cursor");
+    }
+
+    if (decoded.s !== scope || typeof decoded.k !== "object" || decoded.k === null) {
+        throw new ValidationError("Pagination cursor does not belong to this query");
+    }
+
+    return decoded.k as Record<string, any>;
+}
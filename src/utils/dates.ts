@@ -0,0 +1,40 @@
+/**
+ * Date helpers for dynamic and resort sort keys.
+ *
+ * Sort keys used to be "MM/DD/YY", which does not sort chronologically. New
+ * records use ISO "YYYY-MM-DD" so a lift's history can be range-queried.
+ * Two-digit legacy years are read as 20YY.
+ */
+
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const LEGACY_DATE_PATTERN = /^\d{2}\/\d{2}\/\d{2}$/;
+
+/**
+ * Check that an ISO date names a real calendar day
+ */
+export function isValidIsoDate(value: string): boolean {
+    if (!ISO_DATE_PATTERN.test(value)) {
+        return false;
+    }
+
+    const [year, month, day] = value.split("-").map((part) => Number.parseInt(part, 10));
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return (
+        date.getUTCFullYear() === year &&
+        date.getUTCMonth() === month - 1 &&
+        date.getUTCDate() === day
+    );
+}
+
+/**
+ * Convert a legacy "MM/DD/YY" date to "YYYY-MM-DD". ISO dates pass through
+ * unchanged; anything else is returned as-is for the caller to reject.
+ */
+export function toIsoDate(value: string): string {
+    if (!LEGACY_DATE_PATTERN.test(value)) {
+        return value;
+    }
+
+    const [month, day, year] = value.split("/");
+    return `20${year}-${month}-${day}`;
+}
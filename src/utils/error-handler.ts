@@ -1,8 +1,12 @@
+import { STATUS_CODES } from "node:http";
+
 /**
  * Custom error classes for the application
  */
 
 export class AppError extends Error {
+    public retryAfterSeconds?: number; // Sent as Retry-After by the server's error handler
+
     constructor(
         message: string,
         public statusCode: number = 500,
@@ -26,50 +30,277 @@ export class ValidationError extends AppError {
     }
 }
 
+export class UnauthorizedError extends AppError {
+    constructor(message = "Authentication required") {
+        super(message, 401, "UNAUTHORIZED");
+    }
+}
+
+export class ForbiddenError extends AppError {
+    constructor(message = "Insufficient permissions") {
+        super(message, 403, "FORBIDDEN");
+    }
+}
+
+export class ConflictError extends AppError {
+    constructor(message = "Resource already exists") {
+        super(message, 409, "CONFLICT");
+    }
+}
+
+export class PreconditionFailedError extends AppError {
+    constructor(message = "Precondition failed") {
+        super(message, 412, "PRECONDITION_FAILED");
+    }
+}
+
+export class TooManyRequestsError extends AppError {
+    constructor(message = "Too many requests", retryAfterSeconds?: number) {
+        super(message, 429, "TOO_MANY_REQUESTS");
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+/**
+ * The server is misconfigured, e.g. it points at a table that does not exist
+ */
+export class ConfigurationError extends AppError {
+    constructor(message = "Server configuration error") {
+        super(message, 500, "CONFIGURATION_ERROR");
+    }
+}
+
+/**
+ * Seconds a client should wait before retrying a throttled request
+ */
+const THROTTLE_RETRY_AFTER_SECONDS = 1;
+
+/**
+ * HTTP meaning of the DynamoDB exceptions a client can act on, keyed by SDK error name
+ */
+const SDK_ERROR_MAPPINGS: Record<string, { statusCode: number; code: string; message?: string }> = {
+    ProvisionedThroughputExceededException: {
+        statusCode: 503,
+        code: "DYNAMODB_THROTTLED",
+        message: "The database is busy, retry the request",
+    },
+    ThrottlingException: {
+        statusCode: 503,
+        code: "DYNAMODB_THROTTLED",
+        message: "The database is busy, retry the request",
+    },
+    RequestLimitExceeded: {
+        statusCode: 503,
+        code: "DYNAMODB_THROTTLED",
+        message: "The database is busy, retry the request",
+    },
+    ConditionalCheckFailedException: {
+        statusCode: 409,
+        code: "CONFLICT",
+        message: "The record was changed by another request",
+    },
+    TransactionCanceledException: {
+        statusCode: 409,
+        code: "CONFLICT",
+        message: "The records were changed by another request",
+    },
+    ValidationException: {
+        statusCode: 400,
+        code: "VALIDATION_ERROR",
+    },
+    ResourceNotFoundException: {
+        statusCode: 500,
+        code: "CONFIGURATION_ERROR",
+        message: "The DynamoDB table does not exist, check DYNAMODB_TABLE_NAME",
+    },
+};
+
+/**
+ * Wraps an SDK failure with a status that says what the client can do about it:
+ * 503 with Retry-After when throttled, 409 on a failed condition, 400 when
+ * DynamoDB rejected the request, 500 otherwise. The SDK error is kept as
+ * `cause` for logging; its stack is never copied, so it cannot reach a response.
+ */
 export class DynamoDBError extends AppError {
     public cause?: any;
 
     constructor(message: string, originalError?: any) {
-        super(message, 500, "DYNAMODB_ERROR");
+        const mapping = originalError ? SDK_ERROR_MAPPINGS[originalError.name] : undefined;
+        const mappedMessage =
+            mapping?.code === "VALIDATION_ERROR" && originalError.message
+                ? `${message}: ${originalError.message}`
+                : mapping?.message;
+
+        super(
+            mappedMessage ?? message,
+            mapping?.statusCode ?? 500,
+            mapping?.code ?? "DYNAMODB_ERROR"
+        );
         if (originalError) {
             this.cause = originalError;
-            this.stack = originalError.stack;
+        }
+        if (mapping?.statusCode === 503) {
+            this.retryAfterSeconds = THROTTLE_RETRY_AFTER_SECONDS;
         }
     }
 }
 
 /**
- * Format error response
+ * Error codes for Fastify's own 4xx errors (bad JSON, unknown content types,
+ * oversized bodies), keyed by status code
  */
-export function formatErrorResponse(error: Error) {
+const HTTP_ERROR_CODES: Record<number, string> = {
+    400: "BAD_REQUEST",
+    404: "NOT_FOUND",
+    405: "METHOD_NOT_ALLOWED",
+    406: "NOT_ACCEPTABLE",
+    413: "PAYLOAD_TOO_LARGE",
+    415: "UNSUPPORTED_MEDIA_TYPE",
+};
+
+/**
+ * Media type of RFC 9457 problem details responses
+ */
+export const PROBLEM_JSON_MEDIA_TYPE = "application/problem+json";
+
+/**
+ * One invalid field of a rejected request
+ */
+export interface FieldError {
+    path: string; // Dot-separated, e.g. "0.LiftStatus" for the first item of a batch
+    message: string;
+    code: string; // Zod issue code, e.g. "invalid_type"
+}
+
+interface ErrorDescription {
+    message: string;
+    code: string | undefined;
+    statusCode: number;
+    details?: unknown;
+    fieldErrors?: FieldError[];
+}
+
+/**
+ * Check whether an error was thrown by the AWS SDK
+ */
+export function isAwsSdkError(error: any): boolean {
+    return typeof error?.$metadata === "object" && typeof error?.name === "string";
+}
+
+interface ZodIssueLike {
+    path: (string | number)[];
+    message: string;
+    code: string;
+}
+
+function describeError(error: Error): ErrorDescription {
     if (error instanceof AppError) {
-        return {
-            error: {
-                message: error.message,
-                code: error.code,
-                statusCode: error.statusCode,
-            },
-        };
+        return { message: error.message, code: error.code, statusCode: error.statusCode };
     }
 
     // Handle Zod validation errors
     if (error.name === "ZodError") {
         return {
-            error: {
-                message: "Validation failed",
-                code: "VALIDATION_ERROR",
-                statusCode: 400,
-                details: error,
-            },
+            message: "Validation failed",
+            code: "VALIDATION_ERROR",
+            statusCode: 400,
+            details: error,
+            fieldErrors: (error as unknown as { issues: ZodIssueLike[] }).issues.map((issue) => ({
+                path: issue.path.join("."),
+                message: issue.message,
+                code: issue.code,
+            })),
         };
     }
 
-    // Generic error
+    // Fastify errors carry the status of the request problem they describe
+    const statusCode = (error as { statusCode?: unknown }).statusCode;
+    if (typeof statusCode === "number" && statusCode >= 400 && statusCode < 500) {
+        return {
+            message: error.message,
+            code: HTTP_ERROR_CODES[statusCode] ?? "BAD_REQUEST",
+            statusCode,
+        };
+    }
+
+    // AWS SDK exceptions that escaped the service layer
+    if (isAwsSdkError(error)) {
+        return describeError(new DynamoDBError("Database operation failed", error));
+    }
+
+    // Generic error: never leak internal messages to the client
+    return {
+        message: "Internal server error",
+        code: "INTERNAL_ERROR",
+        statusCode: 500,
+    };
+}
+
+/**
+ * Format error response. The request ID lets callers quote a failure that
+ * can be found in the server logs.
+ */
+export function formatErrorResponse(error: Error, requestId?: string) {
+    const { details, fieldErrors, ...description } = describeError(error);
+
     return {
         error: {
-            message: error.message || "Internal server error",
-            code: "INTERNAL_ERROR",
-            statusCode: 500,
+            ...description,
+            ...(details !== undefined && { details }),
+            ...(requestId && { requestId }),
         },
     };
 }
+
+/**
+ * Format an RFC 9457 problem details body. `code` and `requestId` are
+ * extension members carrying the same values as the envelope; validation
+ * failures list every invalid field in `errors` instead of the raw Zod error.
+ */
+export function formatProblemDetails(error: Error, instance: string, requestId?: string) {
+    const { message, code, statusCode, fieldErrors } = describeError(error);
+
+    return {
+        type: code ? `urn:problem-type:${code.toLowerCase().replaceAll("_", "-")}` : "about:blank",
+        title: STATUS_CODES[statusCode] ?? "Error",
+        status: statusCode,
+        detail: message,
+        instance,
+        ...(code && { code }),
+        ...(fieldErrors && { errors: fieldErrors }),
+        ...(requestId && { requestId }),
+    };
+}
+
+/**
+ * Quality value of one media range, e.g. 0.5 for "application/json;q=0.5"
+ */
+function qualityOf(mediaRange: string): number {
+    const match = /;\s*q=([0-9.]+)/.exec(mediaRange);
+    const quality = match ? Number(match[1]) : 1;
+    return Number.isFinite(quality) ? quality : 0;
+}
+
+/**
+ * Whether an Accept header asks for problem details: application/problem+json
+ * must be listed explicitly and rank at least as high as application/json.
+ * Clients that send no Accept header, a wildcard or application/json keep the envelope.
+ */
+export function prefersProblemDetails(accept: string | undefined): boolean {
+    if (!accept) {
+        return false;
+    }
+
+    let problemQuality = 0;
+    let jsonQuality = 0;
+    for (const mediaRange of accept.toLowerCase().split(",")) {
+        const type = mediaRange.split(";")[0].trim();
+        if (type === PROBLEM_JSON_MEDIA_TYPE) {
+            problemQuality = qualityOf(mediaRange);
+        } else if (type === "application/json") {
+            jsonQuality = qualityOf(mediaRange);
+        }
+    }
+
+    return problemQuality > 0 && problemQuality >= jsonQuality;
+}
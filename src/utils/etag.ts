@@ -0,0 +1,32 @@
+import { PreconditionFailedError } from "./error-handler.js";
+
+/**
+ * Helpers for mapping record versions to HTTP entity tags
+ */
+
+/**
+ * Format a record version as a strong ETag
+ */
+export function toETag(version: number | undefined): string {
+    return `"${version ?? 0}"`;
+}
+
+/**
+ * Parse an If-Match header into the expected record version.
+ * Returns undefined when the header is absent or "*", meaning no version check.
+ */
+export function parseIfMatch(header: string | string[] | undefined): number | undefined {
+    const value = Array.isArray(header) ? header[0] : header;
+
+    if (value === undefined || value.trim() === "*") {
+        return undefined;
+    }
+
+    const match = /^"(\d+)"$/.exec(value.trim());
+    if (!match) {
+        // A tag we never issued can never match the current representation
+        throw new PreconditionFailedError(`If-Match value ${value} does not match any version`);
+    }
+
+    return Number.parseInt(match[1], 10);
+}
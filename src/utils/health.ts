@@ -0,0 +1,169 @@
+import { DescribeTableCommand } from "@aws-sdk/client-dynamodb";
+import type { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+
+/**
+ * Readiness checks for the load balancer.
+ *
+ * Liveness only says the process is serving requests. Readiness also probes
+ * DynamoDB: the table must exist and be usable, and the SkiLiftsByRiders GSI
+ * must be ACTIVE, otherwise the task is taken out of rotation. Results are
+ * cached briefly so frequent health checks do not turn into DescribeTable
+ * traffic, and every probe is bounded by a timeout.
+ */
+
+export type DependencyStatus = "up" | "down" | "skipped";
+
+/**
+ * Outcome of probing one dependency
+ */
+export interface DependencyCheck {
+    status: DependencyStatus;
+    latencyMs?: number;
+    error?: string; // Why the dependency is down, without internal details
+    [detail: string]: unknown;
+}
+
+export interface ReadinessReport {
+    status: "ready" | "not_ready";
+    checkedAt: string;
+    checks: Record<string, DependencyCheck>;
+}
+
+/**
+ * Configuration for readiness checks
+ */
+export interface HealthConfig {
+    cacheTtlMs: number; // How long a readiness result is reused
+    timeoutMs: number; // Longest a single dependency probe may take
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Get health check configuration from environment variables
+ */
+export function getHealthConfig(): HealthConfig {
+    return {
+        cacheTtlMs: numberFromEnv("HEALTH_CACHE_TTL_MS", 5000),
+        timeoutMs: numberFromEnv("HEALTH_CHECK_TIMEOUT_MS", 2000),
+    };
+}
+
+/**
+ * Table states that still serve reads and writes
+ */
+const USABLE_TABLE_STATUSES = new Set(["ACTIVE", "UPDATING"]);
+
+export class HealthCheckTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`Timed out after ${timeoutMs}ms`);
+        this.name = "HealthCheckTimeoutError";
+    }
+}
+
+/**
+ * Probe the table and its rider count index with DescribeTable. SDK failures
+ * are reported by error name only, since the message can include account
+ * details and the report is served unauthenticated.
+ */
+export async function checkTable(
+    client: DynamoDBDocumentClient,
+    options: { tableName: string; indexName: string; timeoutMs: number }
+): Promise<DependencyCheck> {
+    const { tableName, indexName, timeoutMs } = options;
+    const startedAt = Date.now();
+    const abortController = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                abortController.abort();
+                reject(new HealthCheckTimeoutError(timeoutMs));
+            }, timeoutMs);
+        });
+        const { Table } = await Promise.race([
+            client.send(new DescribeTableCommand({ TableName: tableName }), {
+                abortSignal: abortController.signal,
+            }),
+            timeout,
+        ]);
+
+        const latencyMs = Date.now() - startedAt;
+        const tableStatus = Table?.TableStatus;
+        const indexStatus = Table?.GlobalSecondaryIndexes?.find(
+            (index) => index.IndexName === indexName
+        )?.IndexStatus;
+        const details = { table: tableName, tableStatus, index: indexName, indexStatus, latencyMs };
+
+        if (!tableStatus || !USABLE_TABLE_STATUSES.has(tableStatus)) {
+            return { status: "down", ...details, error: `Table ${tableName} is ${tableStatus}` };
+        }
+        if (indexStatus !== "ACTIVE") {
+            return {
+                status: "down",
+                ...details,
+                error: indexStatus
+                    ? `Index ${indexName} is ${indexStatus}`
+                    : `Index ${indexName} does not exist`,
+            };
+        }
+        return { status: "up", ...details };
+    } catch (error) {
+        return {
+            status: "down",
+            table: tableName,
+            index: indexName,
+            latencyMs: Date.now() - startedAt,
+            error:
+                error instanceof HealthCheckTimeoutError
+                    ? error.message
+                    : ((error as Error).name ?? "Error"),
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Runs dependency checks and reuses the report for `cacheTtlMs`. Concurrent
+ * callers share one in-flight probe instead of each starting their own.
+ */
+export class ReadinessProbe {
+    private cached?: { report: ReadinessReport; expiresAt: number };
+    private inFlight?: Promise<ReadinessReport>;
+
+    constructor(
+        private checks: Record<string, () => Promise<DependencyCheck>>,
+        private cacheTtlMs: number,
+        private now: () => number = Date.now
+    ) { }
+
+    async check(): Promise<ReadinessReport> {
+        if (this.cached && this.cached.expiresAt > this.now()) {
+            return this.cached.report;
+        }
+
+        this.inFlight ??= this.run().finally(() => {
+            this.inFlight = undefined;
+        });
+        return this.inFlight;
+    }
+
+    private async run(): Promise<ReadinessReport> {
+        const names = Object.keys(this.checks);
+        const results = await Promise.all(names.map((name) => this.checks[name]()));
+        const checks = Object.fromEntries(names.map((name, i) => [name, results[i]]));
+
+        const report: ReadinessReport = {
+            status: results.some((result) => result.status === "down") ? "not_ready" : "ready",
+            checkedAt: new Date(this.now()).toISOString(),
+            checks,
+        };
+        this.cached = { report, expiresAt: this.now() + this.cacheTtlMs };
+        return report;
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * In-process batching of counter increments.
+ *
+ * Bursts of increments to the same counter (gate scanners bumping a lift's
+ * riders) are summed for a short window and written as one ADD, trading a
+ * little latency for far fewer write units. Every caller in a batch receives
+ * the result of the combined write, and the write is told what each caller
+ * contributed so it can record them all. Batches live in one process, so
+ * each instance of the service batches on its own; pending batches are
+ * written when the batcher is closed.
+ */
+
+/**
+ * Configuration for increment batching
+ */
+export interface IncrementBatchConfig {
+    windowMs: number; // 0 writes every increment on its own
+}
+
+/**
+ * Get increment batching configuration from environment variables
+ */
+export function getIncrementBatchConfig(): IncrementBatchConfig {
+    const value = Number(process.env.RIDER_INCREMENT_BATCH_MS);
+
+    return {
+        windowMs: Number.isFinite(value) && value > 0 ? value : 0,
+    };
+}
+
+/**
+ * One caller's part of a batch
+ */
+export interface Contribution<C> {
+    amount: number;
+    contributor?: C;
+}
+
+export type BatchWrite<T, C> = (amount: number, contributions: Contribution<C>[]) => Promise<T>;
+
+interface Batch<T, C> {
+    amount: number;
+    write: BatchWrite<T, C>;
+    contributions: Contribution<C>[];
+    timer: NodeJS.Timeout;
+    waiters: { resolve: (result: T) => void; reject: (error: unknown) => void }[];
+}
+
+export class IncrementBatcher<T, C = unknown> {
+    private batches = new Map<string, Batch<T, C>>();
+
+    constructor(private windowMs: number) { }
+
+    /**
+     * Add amount to the counter identified by key, on behalf of contributor.
+     * The first increment of a batch supplies the write that applies the
+     * batch's total.
+     */
+    add(key: string, amount: number, write: BatchWrite<T, C>, contributor?: C): Promise<T> {
+        if (this.windowMs <= 0) {
+            return write(amount, [{ amount, contributor }]);
+        }
+
+        let batch = this.batches.get(key);
+        if (!batch) {
+            // A pending batch must not keep the process alive; close writes it
+            const timer = setTimeout(() => this.flush(key), this.windowMs).unref();
+            batch = { amount: 0, write, contributions: [], timer, waiters: [] };
+            this.batches.set(key, batch);
+        }
+        batch.amount += amount;
+        batch.contributions.push({ amount, contributor });
+
+        const waiters = batch.waiters;
+        return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+    }
+
+    /**
+     * Write every pending batch now, e.g. when the server shuts down
+     */
+    async close(): Promise<void> {
+        await Promise.all([...this.batches.keys()].map((key) => this.flush(key)));
+    }
+
+    private async flush(key: string): Promise<void> {
+        const batch = this.batches.get(key);
+        if (!batch) {
+            return;
+        }
+        this.batches.delete(key);
+        clearTimeout(batch.timer);
+
+        try {
+            const result = await batch.write(batch.amount, batch.contributions);
+            for (const waiter of batch.waiters) {
+                waiter.resolve(result);
+            }
+        } catch (error) {
+            for (const waiter of batch.waiters) {
+                waiter.reject(error);
+            }
+        }
+    }
+}
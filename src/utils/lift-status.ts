@@ -0,0 +1,76 @@
+import type { AvalancheDanger, LiftStatus } from "../types/skilift.types.js";
+
+/**
+ * Lift status rules.
+ *
+ * A day starts Pending, opens and closes. A closed lift may reopen (after a
+ * wind hold, say) but never goes back to Pending; a supervisor can override
+ * the transition rules. Independently of the transitions, a lift may only
+ * open while the avalanche danger is at or below the configured level, and
+ * lifts for experienced riders only, which serve steeper terrain, have a
+ * stricter level of their own.
+ */
+
+/**
+ * Avalanche danger levels ordered from lowest to highest
+ */
+export const AVALANCHE_DANGER_LEVELS: AvalancheDanger[] = [
+    "Low",
+    "Moderate",
+    "Considerable",
+    "High",
+    "Extreme",
+];
+
+/**
+ * Statuses each status may change to
+ */
+export const LIFT_STATUS_TRANSITIONS: Record<LiftStatus, LiftStatus[]> = {
+    Pending: ["Open", "Closed"],
+    Open: ["Closed"],
+    Closed: ["Open"],
+};
+
+/**
+ * Configuration for the opening safety rules
+ */
+export interface LiftSafetyConfig {
+    maxOpenDanger: AvalancheDanger;
+    maxOpenDangerExperiencedOnly: AvalancheDanger;
+}
+
+export const DEFAULT_LIFT_SAFETY: LiftSafetyConfig = {
+    maxOpenDanger: "Considerable",
+    maxOpenDangerExperiencedOnly: "Moderate",
+};
+
+function dangerLevel(value: string | undefined, fallback: AvalancheDanger): AvalancheDanger {
+    return AVALANCHE_DANGER_LEVELS.find((level) => level === value) ?? fallback;
+}
+
+/**
+ * Get lift safety configuration from environment variables
+ */
+export function getLiftSafetyConfig(): LiftSafetyConfig {
+    return {
+        maxOpenDanger: dangerLevel(
+            process.env.LIFT_MAX_OPEN_AVALANCHE_DANGER,
+            DEFAULT_LIFT_SAFETY.maxOpenDanger
+        ),
+        maxOpenDangerExperiencedOnly: dangerLevel(
+            process.env.LIFT_MAX_OPEN_AVALANCHE_DANGER_EXPERIENCED_ONLY,
+            DEFAULT_LIFT_SAFETY.maxOpenDangerExperiencedOnly
+        ),
+    };
+}
+
+export function canTransition(from: LiftStatus, to: LiftStatus): boolean {
+    return LIFT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether danger is above the maximum level
+ */
+export function dangerExceeds(danger: AvalancheDanger, max: AvalancheDanger): boolean {
+    return AVALANCHE_DANGER_LEVELS.indexOf(danger) > AVALANCHE_DANGER_LEVELS.indexOf(max);
+}
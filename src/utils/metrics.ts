@@ -0,0 +1,178 @@
+import type { InitializeMiddleware } from "@smithy/types";
+import { Counter, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+/**
+ * Prometheus metrics for HTTP requests and DynamoDB commands.
+ *
+ * Every server gets its own registry, so building several servers in one
+ * process (as the tests do) never registers a metric twice. Route labels
+ * use the route pattern, e.g. /api/skilifts/:lift/:metadata, never the raw
+ * URL, which keeps label cardinality bounded.
+ */
+
+/**
+ * Label for requests that matched no route
+ */
+export const UNMATCHED_ROUTE = "unmatched";
+
+const HTTP_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const DYNAMODB_DURATION_BUCKETS = [0.002, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+/**
+ * Commands that report consumed capacity when asked with ReturnConsumedCapacity
+ */
+const CAPACITY_REPORTING_COMMANDS = new Set([
+    "GetItemCommand",
+    "PutItemCommand",
+    "UpdateItemCommand",
+    "DeleteItemCommand",
+    "QueryCommand",
+    "ScanCommand",
+    "BatchGetItemCommand",
+    "BatchWriteItemCommand",
+    "TransactGetItemsCommand",
+    "TransactWriteItemsCommand",
+]);
+
+/**
+ * ConsumedCapacity as returned by DynamoDB: one entry for single-table
+ * commands, one per table for batches and transactions
+ */
+interface ConsumedCapacity {
+    TableName?: string;
+    CapacityUnits?: number;
+}
+
+type ReportedCapacity = ConsumedCapacity | ConsumedCapacity[];
+
+export interface DynamoDBCommandObservation {
+    operation: string; // e.g. "GetItem", "Query"
+    table: string;
+    durationSeconds: number;
+    outcome: string; // "success", or the SDK error name
+    consumedCapacity?: ReportedCapacity;
+}
+
+export class Metrics {
+    readonly registry = new Registry();
+
+    private httpRequests = new Counter({
+        name: "http_requests_total",
+        help: "HTTP requests by route pattern, method and status code",
+        labelNames: ["method", "route", "status_code"],
+        registers: [this.registry],
+    });
+
+    private httpRequestDuration = new Histogram({
+        name: "http_request_duration_seconds",
+        help: "HTTP request latency by route pattern, method and status code",
+        labelNames: ["method", "route", "status_code"],
+        buckets: HTTP_DURATION_BUCKETS,
+        registers: [this.registry],
+    });
+
+    private dynamodbCommands = new Counter({
+        name: "dynamodb_commands_total",
+        help: "DynamoDB commands by operation, table and outcome (success or SDK error name)",
+        labelNames: ["operation", "table", "outcome"],
+        registers: [this.registry],
+    });
+
+    private dynamodbCommandDuration = new Histogram({
+        name: "dynamodb_command_duration_seconds",
+        help: "DynamoDB command latency by operation and table, including SDK retries",
+        labelNames: ["operation", "table"],
+        buckets: DYNAMODB_DURATION_BUCKETS,
+        registers: [this.registry],
+    });
+
+    private dynamodbConsumedCapacity = new Counter({
+        name: "dynamodb_consumed_capacity_units_total",
+        help: "Capacity units consumed by DynamoDB commands, including indexes",
+        labelNames: ["operation", "table"],
+        registers: [this.registry],
+    });
+
+    constructor(options: { defaultMetrics?: boolean } = {}) {
+        if (options.defaultMetrics ?? true) {
+            collectDefaultMetrics({ register: this.registry });
+        }
+    }
+
+    observeRequest(method: string, route: string, statusCode: number, durationSeconds: number) {
+        const labels = { method, route, status_code: statusCode };
+        this.httpRequests.inc(labels);
+        this.httpRequestDuration.observe(labels, durationSeconds);
+    }
+
+    observeDynamoDBCommand(observation: DynamoDBCommandObservation) {
+        const { operation, table, durationSeconds, outcome, consumedCapacity } = observation;
+
+        this.dynamodbCommands.inc({ operation, table, outcome });
+        this.dynamodbCommandDuration.observe({ operation, table }, durationSeconds);
+
+        const entries = Array.isArray(consumedCapacity)
+            ? consumedCapacity
+            : consumedCapacity
+              ? [consumedCapacity]
+              : [];
+        for (const entry of entries) {
+            if (entry.CapacityUnits) {
+                this.dynamodbConsumedCapacity.inc(
+                    { operation, table: entry.TableName ?? table },
+                    entry.CapacityUnits
+                );
+            }
+        }
+    }
+
+    /**
+     * Exposition in the Prometheus text format
+     */
+    async render(): Promise<{ contentType: string; body: string }> {
+        return { contentType: this.registry.contentType, body: await this.registry.metrics() };
+    }
+}
+
+/**
+ * Client middleware that times every command and records the capacity it
+ * consumed. Commands that can report capacity are sent with
+ * ReturnConsumedCapacity=TOTAL unless the caller asked for something else.
+ * Added at the initialize step, so the timing includes SDK retries.
+ */
+export function dynamoDBMetricsMiddleware(metrics: Metrics): InitializeMiddleware<any, any> {
+    return (next, context) => async (args) => {
+        const commandName: string = context.commandName ?? "UnknownCommand";
+        const input = args.input as { TableName?: string; ReturnConsumedCapacity?: string };
+        const operation = commandName.replace(/Command$/, "");
+        const table = input.TableName ?? "";
+        const startedAt = performance.now();
+
+        const capacityInput =
+            CAPACITY_REPORTING_COMMANDS.has(commandName) && !input.ReturnConsumedCapacity
+                ? { ...input, ReturnConsumedCapacity: "TOTAL" }
+                : input;
+
+        const observe = (outcome: string, consumedCapacity?: ReportedCapacity) => {
+            metrics.observeDynamoDBCommand({
+                operation,
+                table,
+                durationSeconds: (performance.now() - startedAt) / 1000,
+                outcome,
+                consumedCapacity,
+            });
+        };
+
+        try {
+            const result = await next({ ...args, input: capacityInput });
+            observe(
+                "success",
+                (result.output as { ConsumedCapacity?: ReportedCapacity }).ConsumedCapacity
+            );
+            return result;
+        } catch (error) {
+            observe((error as Error).name ?? "Error");
+            throw error;
+        }
+    };
+}
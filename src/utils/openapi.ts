@@ -0,0 +1,77 @@
+import type { FastifySchema } from "fastify";
+import type { ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { errorResponseSchema, problemDetailsSchema } from "../schemas/skilift.schemas.js";
+import { PROBLEM_JSON_MEDIA_TYPE } from "./error-handler.js";
+
+/**
+ * Helpers that turn the Zod schemas into Fastify route schemas for the
+ * OpenAPI document. Route schemas are documentation only: handlers keep
+ * validating with Zod, so the schemas never change request handling.
+ */
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+    400: "Validation failed",
+    403: "Forbidden",
+    404: "Not found",
+    409: "Conflict",
+    412: "Precondition failed (stale If-Match)",
+    429: "Rate limit exceeded",
+    500: "Internal server error",
+};
+
+/**
+ * Convert a Zod schema to an inline JSON Schema (draft 7, valid in OpenAPI 3.1).
+ * Transforms and refinements are described by their input shape.
+ */
+export function toJsonSchema(schema: ZodTypeAny): Record<string, unknown> {
+    const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+        $refStrategy: "none",
+        effectStrategy: "input",
+    }) as Record<string, unknown>;
+    return jsonSchema;
+}
+
+export interface RouteDocs {
+    summary: string;
+    description?: string;
+    tags?: string[];
+    params?: ZodTypeAny;
+    querystring?: ZodTypeAny;
+    headers?: ZodTypeAny;
+    body?: ZodTypeAny;
+    response: Record<number, ZodTypeAny>;
+    errors?: number[]; // Statuses answered with the error envelope or problem details
+}
+
+/**
+ * Build a Fastify route schema from Zod schemas
+ */
+export function routeSchema(docs: RouteDocs): FastifySchema {
+    const response: Record<number, unknown> = {};
+
+    for (const [status, schema] of Object.entries(docs.response)) {
+        response[Number(status)] = toJsonSchema(schema);
+    }
+
+    for (const status of [...(docs.errors ?? []), 429, 500]) {
+        response[status] = {
+            description: ERROR_DESCRIPTIONS[status],
+            content: {
+                "application/json": { schema: toJsonSchema(errorResponseSchema) },
+                [PROBLEM_JSON_MEDIA_TYPE]: { schema: toJsonSchema(problemDetailsSchema) },
+            },
+        };
+    }
+
+    return {
+        summary: docs.summary,
+        ...(docs.description && { description: docs.description }),
+        tags: docs.tags ?? ["Ski Lifts"],
+        ...(docs.params && { params: toJsonSchema(docs.params) }),
+        ...(docs.querystring && { querystring: toJsonSchema(docs.querystring) }),
+        ...(docs.headers && { headers: toJsonSchema(docs.headers) }),
+        ...(docs.body && { body: toJsonSchema(docs.body) }),
+        response,
+    } as FastifySchema;
+}
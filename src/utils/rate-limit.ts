@@ -0,0 +1,143 @@
+/**
+ * Token bucket rate limiting.
+ *
+ * Each client gets one bucket per budget. A bucket holds up to `capacity`
+ * tokens and refills continuously at `refillPerSecond`; every request takes
+ * one token and is refused while the bucket is empty. Scan-backed routes use
+ * a smaller, slower budget than key lookups because each call reads the
+ * whole table. A separate bucket per client IP is charged before
+ * authentication, so requests that fail to authenticate are limited too.
+ */
+
+export const RATE_LIMIT_BUDGETS = ["default", "scan"] as const;
+
+export type RateLimitBudget = (typeof RATE_LIMIT_BUDGETS)[number];
+
+export interface TokenBucketPolicy {
+    capacity: number;
+    refillPerSecond: number;
+}
+
+/**
+ * Outcome of taking a token from a bucket
+ */
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number; // Whole tokens left after this request
+    resetSeconds: number; // Until the bucket is full again
+    retryAfterSeconds: number; // Until the next token is available, 0 when allowed
+}
+
+/**
+ * Where bucket state lives. The in-process default is enough for a single
+ * instance; a shared store (e.g. Redis) makes budgets hold across instances.
+ */
+export interface RateLimitStore {
+    take(key: string, policy: TokenBucketPolicy): Promise<RateLimitResult>;
+}
+
+/**
+ * Configuration for rate limiting
+ */
+export interface RateLimitConfig {
+    enabled: boolean;
+    budgets: Record<RateLimitBudget, TokenBucketPolicy>;
+    perIp: TokenBucketPolicy; // Every limited request from one IP, charged before auth
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Get rate limit configuration from environment variables
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+    return {
+        enabled: process.env.RATE_LIMIT_ENABLED !== "false",
+        budgets: {
+            default: {
+                capacity: numberFromEnv("RATE_LIMIT_CAPACITY", 100),
+                refillPerSecond: numberFromEnv("RATE_LIMIT_REFILL_PER_SECOND", 10),
+            },
+            scan: {
+                capacity: numberFromEnv("RATE_LIMIT_SCAN_CAPACITY", 10),
+                refillPerSecond: numberFromEnv("RATE_LIMIT_SCAN_REFILL_PER_SECOND", 0.2),
+            },
+        },
+        perIp: {
+            capacity: numberFromEnv("RATE_LIMIT_IP_CAPACITY", 300),
+            refillPerSecond: numberFromEnv("RATE_LIMIT_IP_REFILL_PER_SECOND", 30),
+        },
+    };
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number; // Milliseconds
+}
+
+/**
+ * Number of takes between sweeps of idle buckets
+ */
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * In-process bucket store. Buckets that have refilled completely carry no
+ * state worth keeping, so they are dropped periodically to bound memory.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+    private buckets = new Map<string, { bucket: Bucket; policy: TokenBucketPolicy }>();
+    private takes = 0;
+
+    constructor(private now: () => number = Date.now) { }
+
+    async take(key: string, policy: TokenBucketPolicy): Promise<RateLimitResult> {
+        const now = this.now();
+
+        if (++this.takes % SWEEP_INTERVAL === 0) {
+            this.sweep(now);
+        }
+
+        const bucket = this.refill(
+            this.buckets.get(key)?.bucket ?? { tokens: policy.capacity, updatedAt: now },
+            policy,
+            now
+        );
+
+        const allowed = bucket.tokens >= 1;
+        if (allowed) {
+            bucket.tokens -= 1;
+        }
+        this.buckets.set(key, { bucket, policy });
+
+        return {
+            allowed,
+            remaining: Math.floor(bucket.tokens),
+            resetSeconds: Math.ceil((policy.capacity - bucket.tokens) / policy.refillPerSecond),
+            retryAfterSeconds: allowed
+                ? 0
+                : Math.ceil((1 - bucket.tokens) / policy.refillPerSecond),
+        };
+    }
+
+    private refill(bucket: Bucket, policy: TokenBucketPolicy, now: number): Bucket {
+        const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+        return {
+            tokens: Math.min(
+                policy.capacity,
+                bucket.tokens + elapsedSeconds * policy.refillPerSecond
+            ),
+            updatedAt: now,
+        };
+    }
+
+    private sweep(now: number) {
+        for (const [key, { bucket, policy }] of this.buckets) {
+            if (this.refill(bucket, policy, now).tokens >= policy.capacity) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
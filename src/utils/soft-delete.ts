@@ -0,0 +1,57 @@
+import type { SkiLiftRecord } from "../types/skilift.types.js";
+
+/**
+ * Soft deletes.
+ *
+ * Deleting a record marks it with DeletedAt and DeletedBy instead of removing
+ * it, and reads hide it until it is restored. ExpiresAt is the table's TTL
+ * attribute: DynamoDB purges the record (usually within a few days) once it
+ * has passed, so deleted data is kept for the retention window and no longer.
+ */
+
+/**
+ * Attributes a soft delete sets and a restore removes
+ */
+export const SOFT_DELETE_ATTRIBUTES = ["DeletedAt", "DeletedBy", "ExpiresAt"];
+
+/**
+ * Name of the TTL attribute to enable on the table
+ */
+export const TTL_ATTRIBUTE = "ExpiresAt";
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Configuration for soft deletes
+ */
+export interface SoftDeleteConfig {
+    retentionDays: number; // 0 keeps deleted records until they are restored or removed by hand
+}
+
+/**
+ * Get soft delete configuration from environment variables
+ */
+export function getSoftDeleteConfig(): SoftDeleteConfig {
+    const value = Number(process.env.SOFT_DELETE_RETENTION_DAYS);
+
+    return {
+        retentionDays:
+            process.env.SOFT_DELETE_RETENTION_DAYS && Number.isFinite(value) && value >= 0
+                ? value
+                : 30,
+    };
+}
+
+export function isDeleted(record: SkiLiftRecord): boolean {
+    return record.DeletedAt !== undefined;
+}
+
+/**
+ * TTL of a record deleted at deletedAt, undefined when it is kept indefinitely
+ */
+export function purgeAt(deletedAt: Date, retentionDays: number): number | undefined {
+    if (retentionDays <= 0) {
+        return undefined;
+    }
+    return Math.floor(deletedAt.getTime() / 1000) + Math.round(retentionDays * SECONDS_PER_DAY);
+}
@@ -0,0 +1,61 @@
+/**
+ * Tenant-scoped partition keys for sharing one table between resorts.
+ *
+ * A resort's records are stored under "<resortId>#<Lift>", e.g. "whistler#Lift 3"
+ * and "whistler#Resort Data". The default (untenanted) scope keeps the original
+ * unprefixed keys, so single-resort data written before multi-tenancy still reads
+ * through the /api/skilifts routes. Lift names and resort IDs may not contain the
+ * separator, which keeps every key attributable to exactly one scope.
+ */
+
+export const TENANT_SEPARATOR = "#";
+
+/**
+ * Partition key of the daily resort summary within a scope
+ */
+export const RESORT_DATA_LIFT = "Resort Data";
+
+export class TenantScope {
+    private readonly prefix: string;
+
+    constructor(readonly resortId?: string) {
+        this.prefix = resortId ? `${resortId}${TENANT_SEPARATOR}` : "";
+    }
+
+    /**
+     * Prefix every partition key of this scope starts with, undefined for the default scope
+     */
+    get keyPrefix(): string | undefined {
+        return this.prefix || undefined;
+    }
+
+    /**
+     * Stored partition key for a lift name
+     */
+    toKey(lift: string): string {
+        return `${this.prefix}${lift}`;
+    }
+
+    /**
+     * Lift name for a stored partition key of this scope
+     */
+    fromKey(partitionKey: string): string {
+        return partitionKey.slice(this.prefix.length);
+    }
+
+    /**
+     * Whether a stored partition key belongs to this scope
+     */
+    owns(partitionKey: string): boolean {
+        return this.prefix
+            ? partitionKey.startsWith(this.prefix)
+            : !partitionKey.includes(TENANT_SEPARATOR);
+    }
+
+    /**
+     * Cursor scope, so a cursor issued for one resort is rejected by another
+     */
+    cursorScope(scope: string): string {
+        return this.resortId ? `resort:${this.resortId}/${scope}` : scope;
+    }
+}
@@ -0,0 +1,140 @@
+import { SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+import type { Span } from "@opentelemetry/api";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+    BatchSpanProcessor,
+    ConsoleSpanExporter,
+    SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import type { SpanProcessor } from "@opentelemetry/sdk-trace-base";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import type { InitializeMiddleware } from "@smithy/types";
+
+/**
+ * OpenTelemetry tracing.
+ *
+ * Spans are created through the global OpenTelemetry API, which is a no-op
+ * until a tracer provider is registered. `initTracing` registers one (with
+ * the W3C trace-context propagator and an async context manager) when an
+ * exporter is configured, and must run before buildServer so the first
+ * request is already traced.
+ */
+
+export const TRACER_NAME = "fastify-ddb";
+
+export const TRACES_EXPORTERS = ["none", "console", "otlp"] as const;
+
+export type TracesExporter = (typeof TRACES_EXPORTERS)[number];
+
+/**
+ * Configuration for tracing
+ */
+export interface TracingConfig {
+    exporter: TracesExporter;
+    serviceName: string;
+}
+
+/**
+ * Get tracing configuration from the standard OpenTelemetry environment
+ * variables. The OTLP exporter reads its endpoint and headers itself
+ * (OTEL_EXPORTER_OTLP_ENDPOINT, OTEL_EXPORTER_OTLP_HEADERS).
+ */
+export function getTracingConfig(): TracingConfig {
+    const exporter = (process.env.OTEL_TRACES_EXPORTER || "none") as TracesExporter;
+
+    return {
+        exporter: TRACES_EXPORTERS.includes(exporter) ? exporter : "none",
+        serviceName: process.env.OTEL_SERVICE_NAME || "fastify-ddb",
+    };
+}
+
+function spanProcessorFor(exporter: TracesExporter): SpanProcessor | undefined {
+    switch (exporter) {
+        case "console":
+            // Print each span as it ends, for local debugging
+            return new SimpleSpanProcessor(new ConsoleSpanExporter());
+        case "otlp":
+            return new BatchSpanProcessor(new OTLPTraceExporter());
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Register the tracer provider. Returns a function that flushes pending
+ * spans and shuts the provider down, or undefined when tracing is off.
+ */
+export function initTracing(
+    config: TracingConfig = getTracingConfig()
+): (() => Promise<void>) | undefined {
+    const spanProcessor = spanProcessorFor(config.exporter);
+    if (!spanProcessor) {
+        return undefined;
+    }
+
+    const provider = new NodeTracerProvider({
+        resource: resourceFromAttributes({ "service.name": config.serviceName }),
+        spanProcessors: [spanProcessor],
+    });
+    provider.register();
+
+    return () => provider.shutdown();
+}
+
+/**
+ * Mark a span as failed with the error that ended it
+ */
+export function recordSpanError(span: Span, error: unknown) {
+    span.recordException(error as Error);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+}
+
+/**
+ * Client middleware that wraps every DynamoDB command in a client span,
+ * named after the operation and carrying the table and index it targets.
+ * Added at the initialize step, so the span includes SDK retries.
+ */
+export function dynamoDBTracingMiddleware(): InitializeMiddleware<any, any> {
+    return (next, context) => async (args) => {
+        const commandName: string = context.commandName ?? "UnknownCommand";
+        const operation = commandName.replace(/Command$/, "");
+        const input = args.input as {
+            TableName?: string;
+            IndexName?: string;
+            RequestItems?: Record<string, unknown>;
+        };
+        const tableNames = input.TableName
+            ? [input.TableName]
+            : Object.keys(input.RequestItems ?? {});
+
+        const span = trace.getTracer(TRACER_NAME).startSpan(`DynamoDB.${operation}`, {
+            kind: SpanKind.CLIENT,
+            attributes: {
+                "db.system": "dynamodb",
+                "rpc.system": "aws-api",
+                "rpc.service": "DynamoDB",
+                "rpc.method": operation,
+                ...(tableNames.length > 0 && { "aws.dynamodb.table_names": tableNames }),
+                ...(input.IndexName && { "aws.dynamodb.index_name": input.IndexName }),
+            },
+        });
+
+        try {
+            const result = await next(args);
+            const output = result.output as { Count?: number; ScannedCount?: number };
+            if (output.Count !== undefined) {
+                span.setAttribute("aws.dynamodb.count", output.Count);
+            }
+            if (output.ScannedCount !== undefined) {
+                span.setAttribute("aws.dynamodb.scanned_count", output.ScannedCount);
+            }
+            return result;
+        } catch (error) {
+            recordSpanError(span, error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    };
+}
@@ -27,6 +27,7 @@ export const validStaticDataResponse: SkiLiftStaticData = {
     ExperiencedRidersOnly: false,
     VerticalFeet: 2500,
     LiftTime: '8:00',
+    Version: 1,
 };
 
 export const experiencedOnlyStaticData: CreateStaticDataInput = {
@@ -39,7 +40,7 @@ export const experiencedOnlyStaticData: CreateStaticDataInput = {
 // Dynamic Data Examples
 export const validDynamicData: CreateDynamicDataInput = {
     Lift: 'Summit Express',
-    Metadata: '01/15/24',
+    Metadata: '2024-01-15',
     TotalUniqueLiftRiders: 1250,
     AverageSnowCoverageInches: 48,
     LiftStatus: 'Open',
@@ -48,16 +49,17 @@ export const validDynamicData: CreateDynamicDataInput = {
 
 export const validDynamicDataResponse: SkiLiftDynamicData = {
     Lift: 'Summit Express',
-    Metadata: '01/15/24',
+    Metadata: '2024-01-15',
     TotalUniqueLiftRiders: 1250,
     AverageSnowCoverageInches: 48,
     LiftStatus: 'Open',
     AvalancheDanger: 'Low',
+    Version: 1,
 };
 
 export const closedLiftDynamicData: CreateDynamicDataInput = {
     Lift: 'Summit Express',
-    Metadata: '01/16/24',
+    Metadata: '2024-01-16',
     TotalUniqueLiftRiders: 0,
     AverageSnowCoverageInches: 12,
     LiftStatus: 'Closed',
@@ -66,7 +68,7 @@ export const closedLiftDynamicData: CreateDynamicDataInput = {
 
 export const highTrafficDynamicData: CreateDynamicDataInput = {
     Lift: 'Beginner Slope',
-    Metadata: '01/15/24',
+    Metadata: '2024-01-15',
     TotalUniqueLiftRiders: 5000,
     AverageSnowCoverageInches: 36,
     LiftStatus: 'Open',
@@ -75,7 +77,7 @@ export const highTrafficDynamicData: CreateDynamicDataInput = {
 
 // Resort Data Examples
 export const validResortData: CreateResortDataInput = {
-    Metadata: '01/15/24',
+    Metadata: '2024-01-15',
     TotalUniqueLiftRiders: 8500,
     AverageSnowCoverageInches: 42,
     AvalancheDanger: 'Moderate',
@@ -84,15 +86,16 @@ export const validResortData: CreateResortDataInput = {
 
 export const validResortDataResponse: ResortData = {
     Lift: 'Resort Data',
-    Metadata: '01/15/24',
+    Metadata: '2024-01-15',
     TotalUniqueLiftRiders: 8500,
     AverageSnowCoverageInches: 42,
     AvalancheDanger: 'Moderate',
     OpenLifts: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+    Version: 1,
 };
 
 export const lowTrafficResortData: CreateResortDataInput = {
-    Metadata: '01/16/24',
+    Metadata: '2024-01-16',
     TotalUniqueLiftRiders: 1200,
     AverageSnowCoverageInches: 15,
     AvalancheDanger: 'High',
@@ -135,7 +138,7 @@ export const multipleLifts = [
     },
     {
         Lift: 'Summit Express',
-        Metadata: '01/15/24',
+        Metadata: '2024-01-15',
         TotalUniqueLiftRiders: 1250,
         AverageSnowCoverageInches: 48,
         LiftStatus: 'Open',
@@ -150,7 +153,7 @@ export const multipleLifts = [
     },
     {
         Lift: 'Black Diamond Lift',
-        Metadata: '01/15/24',
+        Metadata: '2024-01-15',
         TotalUniqueLiftRiders: 450,
         AverageSnowCoverageInches: 52,
         LiftStatus: 'Open',
@@ -1,4 +1,7 @@
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { context, propagation, trace } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
 import { mockClient } from 'aws-sdk-client-mock';
 import type { AwsStub } from 'aws-sdk-client-mock';
 
@@ -59,7 +62,8 @@ export function createPutResponse() {
 }
 
 /**
- * Create a successful update response with attributes
+ * Create a successful update response with attributes (the old image, as
+ * the repository asks UpdateItem for ALL_OLD)
  */
 export function createUpdateResponse<T>(attributes: T) {
     return {
@@ -139,3 +143,25 @@ export async function expectToThrow(
 export function createPartialMock<T>(partial: Partial<T>): T {
     return partial as T;
 }
+
+/**
+ * Register a global tracer provider that keeps finished spans in memory.
+ * Call the returned shutdown to unregister it again.
+ */
+export function registerTestTracing() {
+    const exporter = new InMemorySpanExporter();
+    const provider = new NodeTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+    });
+    provider.register();
+
+    return {
+        exporter,
+        shutdown: async () => {
+            await provider.shutdown();
+            trace.disable();
+            context.disable();
+            propagation.disable();
+        },
+    };
+}
@@ -0,0 +1,273 @@
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import type { FastifyInstance } from 'fastify';
+import { SignJWT, exportJWK, generateKeyPair } from 'jose';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { build } from '../../../src/app.js';
+import { hashApiKey } from '../../../src/utils/auth.js';
+import { ConfigurationError } from '../../../src/utils/error-handler.js';
+import {
+    validDynamicData,
+    validStaticData,
+    validStaticDataResponse,
+} from '../../helpers/mock-data.js';
+import { createPutResponse, createSuccessResponse } from '../../helpers/test-utils.js';
+
+const mockDynamoDB = mockClient(DynamoDBDocumentClient);
+
+const JWT_SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+const signToken = (claims: Record<string, unknown>, expiresIn = '5m') =>
+    new SignJWT(claims)
+        .setProtectedHeader({ alg: 'HS256' })
+        .setSubject('user-1')
+        .setExpirationTime(expiresIn)
+        .sign(new TextEncoder().encode(JWT_SECRET));
+
+describe('Auth plugin', () => {
+    let app: FastifyInstance;
+
+    const startApp = async (env: Record<string, string>) => {
+        for (const [name, value] of Object.entries(env)) {
+            vi.stubEnv(name, value);
+        }
+        app = await build();
+        await app.ready();
+    };
+
+    beforeEach(() => {
+        mockDynamoDB.reset();
+        mockDynamoDB.on(GetCommand).resolves(createSuccessResponse(validStaticDataResponse));
+        mockDynamoDB.on(PutCommand).resolves(createPutResponse());
+    });
+
+    afterEach(async () => {
+        await app.close();
+        vi.unstubAllEnvs();
+    });
+
+    describe('with a JWT secret', () => {
+        beforeEach(async () => {
+            await startApp({ AUTH_ENABLED: 'true', JWT_SECRET, API_KEYS: '' });
+        });
+
+        it('should return 401 in the error envelope without credentials', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(response.headers['www-authenticate']).toContain('Bearer');
+            expect(JSON.parse(response.body)).toEqual({
+                error: {
+                    message: 'Authentication required',
+                    code: 'UNAUTHORIZED',
+                    statusCode: 401,
+                    requestId: response.headers['x-request-id'],
+                },
+            });
+        });
+
+        it('should reject expired tokens', async () => {
+            const token = await signToken({ roles: ['admin'] }, '-1m');
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+                headers: { authorization: `Bearer ${token}` },
+            });
+
+            expect(response.statusCode).toBe(401);
+        });
+
+        it('should let readers GET', async () => {
+            const token = await signToken({ roles: ['reader'] });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+                headers: { authorization: `Bearer ${token}` },
+            });
+
+            expect(response.statusCode).toBe(200);
+        });
+
+        it('should return 403 when a reader writes dynamic data', async () => {
+            const token = await signToken({ roles: ['reader'] });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic',
+                headers: { authorization: `Bearer ${token}` },
+                payload: validDynamicData,
+            });
+
+            expect(response.statusCode).toBe(403);
+            expect(JSON.parse(response.body).error.code).toBe('FORBIDDEN');
+            expect(mockDynamoDB.commandCalls(PutCommand)).toHaveLength(0);
+        });
+
+        it('should let operators write dynamic data but not static data', async () => {
+            const token = await signToken({ roles: 'operator' });
+            const headers = { authorization: `Bearer ${token}` };
+
+            const dynamic = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic',
+                headers,
+                payload: validDynamicData,
+            });
+            const staticData = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/static',
+                headers,
+                payload: validStaticData,
+            });
+
+            expect(dynamic.statusCode).toBe(201);
+            expect(staticData.statusCode).toBe(403);
+        });
+
+        it('should require admins for deletes', async () => {
+            const operator = await signToken({ roles: ['operator'] });
+            const admin = await signToken({ roles: ['admin'] });
+            mockDynamoDB.on(GetCommand).resolves({ Item: undefined });
+
+            const denied = await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+                headers: { authorization: `Bearer ${operator}` },
+            });
+            const allowed = await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+                headers: { authorization: `Bearer ${admin}` },
+            });
+
+            expect(denied.statusCode).toBe(403);
+            expect(allowed.statusCode).toBe(204);
+        });
+
+        it('should require admins to read deleted records', async () => {
+            const operator = await signToken({ roles: ['operator'] });
+            const admin = await signToken({ roles: ['admin'] });
+            const url = '/api/skilifts/Summit%20Express/Static%20Data?includeDeleted=true';
+
+            const denied = await app.inject({
+                method: 'GET',
+                url,
+                headers: { authorization: `Bearer ${operator}` },
+            });
+            const allowed = await app.inject({
+                method: 'GET',
+                url,
+                headers: { authorization: `Bearer ${admin}` },
+            });
+
+            expect(denied.statusCode).toBe(403);
+            expect(JSON.parse(denied.body).error.message).toBe(
+                'includeDeleted requires the admin role'
+            );
+            expect(allowed.statusCode).toBe(200);
+        });
+
+        it('should require admins to override status rules', async () => {
+            const operator = await signToken({ roles: ['operator'] });
+
+            const response = await app.inject({
+                method: 'PUT',
+                url: '/api/skilifts/Summit%20Express/2024-01-15?override=true&reason=Reopening',
+                headers: { authorization: `Bearer ${operator}` },
+                payload: { LiftStatus: 'Pending' },
+            });
+
+            expect(response.statusCode).toBe(403);
+            expect(JSON.parse(response.body).error.message).toBe(
+                'override requires the admin role'
+            );
+        });
+
+        it('should leave public routes open', async () => {
+            const response = await app.inject({ method: 'GET', url: '/health' });
+
+            expect(response.statusCode).toBe(200);
+        });
+    });
+
+    describe('with a local JWKS', () => {
+        it('should verify tokens signed by a key in the set', async () => {
+            const { publicKey, privateKey } = await generateKeyPair('RS256');
+            const jwk = { ...(await exportJWK(publicKey)), kid: 'test-key', alg: 'RS256' };
+            await startApp({
+                AUTH_ENABLED: 'true',
+                JWT_JWKS: JSON.stringify({ keys: [jwk] }),
+                JWT_ISSUER: 'https://issuer.test',
+            });
+            const token = await new SignJWT({ roles: ['reader'] })
+                .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+                .setIssuer('https://issuer.test')
+                .setExpirationTime('5m')
+                .sign(privateKey);
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+                headers: { authorization: `Bearer ${token}` },
+            });
+
+            expect(response.statusCode).toBe(200);
+        });
+    });
+
+    describe('with API keys', () => {
+        beforeEach(async () => {
+            await startApp({
+                AUTH_ENABLED: 'true',
+                API_KEYS: `dashboard:reader:${hashApiKey('reader-key')},ops:admin:${hashApiKey('admin-key')}`,
+            });
+        });
+
+        it('should authenticate a known key with its role', async () => {
+            const read = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+                headers: { 'x-api-key': 'reader-key' },
+            });
+            const write = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/static',
+                headers: { 'x-api-key': 'admin-key' },
+                payload: validStaticData,
+            });
+
+            expect(read.statusCode).toBe(200);
+            expect(write.statusCode).toBe(201);
+        });
+
+        it('should reject unknown keys', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts',
+                headers: { 'x-api-key': 'guessed-key' },
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(JSON.parse(response.body).error.message).toBe('Invalid API key');
+        });
+    });
+});
+
+describe('Auth plugin without a verifier', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should refuse to start', async () => {
+        vi.stubEnv('AUTH_ENABLED', 'true');
+        vi.stubEnv('JWT_SECRET', '');
+        vi.stubEnv('API_KEYS', '');
+
+        await expect(build()).rejects.toThrow(ConfigurationError);
+    });
+});
@@ -0,0 +1,55 @@
+import { DescribeTableCommand } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import type { FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { build } from '../../../src/app.js';
+import { ConfigurationError } from '../../../src/utils/error-handler.js';
+import { createDynamoDBError } from '../../helpers/test-utils.js';
+
+const mockDynamoDB = mockClient(DynamoDBDocumentClient);
+
+describe('DynamoDB plugin', () => {
+    let app: FastifyInstance;
+
+    beforeEach(async () => {
+        mockDynamoDB.reset();
+        vi.stubEnv('AUTH_ENABLED', 'false');
+        app = await build();
+    });
+
+    afterEach(async () => {
+        await app.close();
+        vi.unstubAllEnvs();
+    });
+
+    it('should check the table exists on startup', async () => {
+        await app.ready();
+
+        expect(mockDynamoDB.commandCalls(DescribeTableCommand)).toHaveLength(1);
+    });
+
+    it('should refuse to start when the table does not exist', async () => {
+        mockDynamoDB
+            .on(DescribeTableCommand)
+            .rejects(createDynamoDBError('ResourceNotFoundException', 'Table not found'));
+
+        await expect(app.ready()).rejects.toThrow(ConfigurationError);
+    });
+
+    it('should still start when DynamoDB is unreachable', async () => {
+        mockDynamoDB.on(DescribeTableCommand).rejects(new Error('connect ECONNREFUSED'));
+
+        await expect(app.ready()).resolves.toBeDefined();
+    });
+
+    it('should skip the check in memory mode', async () => {
+        await app.close();
+        vi.stubEnv('DYNAMODB_MODE', 'memory');
+        app = await build();
+
+        await app.ready();
+
+        expect(mockDynamoDB.commandCalls(DescribeTableCommand)).toHaveLength(0);
+    });
+});
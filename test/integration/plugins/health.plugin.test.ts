@@ -0,0 +1,102 @@
+import { DescribeTableCommand } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import type { FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { build } from '../../../src/app.js';
+import { createDynamoDBError } from '../../helpers/test-utils.js';
+
+const mockDynamoDB = mockClient(DynamoDBDocumentClient);
+
+const activeTable = {
+    Table: {
+        TableName: 'SkiLifts',
+        TableStatus: 'ACTIVE',
+        GlobalSecondaryIndexes: [{ IndexName: 'SkiLiftsByRiders', IndexStatus: 'ACTIVE' }],
+    },
+} as any;
+
+describe('Health plugin', () => {
+    let app: FastifyInstance;
+
+    async function start() {
+        app = await build();
+        await app.ready();
+        mockDynamoDB.resetHistory();
+    }
+
+    beforeEach(() => {
+        mockDynamoDB.reset();
+        // Every request probes DynamoDB again
+        vi.stubEnv('HEALTH_CACHE_TTL_MS', '0');
+        vi.stubEnv('AUTH_ENABLED', 'true');
+        vi.stubEnv('JWT_SECRET', 'health-test-secret-that-is-long-enough');
+    });
+
+    afterEach(async () => {
+        await app.close();
+        vi.unstubAllEnvs();
+    });
+
+    it('should answer liveness without touching DynamoDB or credentials', async () => {
+        await start();
+
+        for (const url of ['/health/live', '/health']) {
+            const response = await app.inject({ method: 'GET', url });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.body).status).toBe('ok');
+        }
+        expect(mockDynamoDB.commandCalls(DescribeTableCommand)).toHaveLength(0);
+    });
+
+    it('should be ready when the table and index are active', async () => {
+        mockDynamoDB.on(DescribeTableCommand).resolves(activeTable);
+        await start();
+
+        const response = await app.inject({ method: 'GET', url: '/health/ready' });
+
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toMatchObject({
+            status: 'ready',
+            checks: { dynamodb: { status: 'up', table: 'SkiLifts', indexStatus: 'ACTIVE' } },
+        });
+    });
+
+    it('should answer 503 when the table cannot be described', async () => {
+        await start();
+        mockDynamoDB
+            .on(DescribeTableCommand)
+            .rejects(createDynamoDBError('UnrecognizedClientException', 'Invalid token'));
+
+        const response = await app.inject({ method: 'GET', url: '/health/ready' });
+
+        expect(response.statusCode).toBe(503);
+        expect(JSON.parse(response.body)).toMatchObject({
+            status: 'not_ready',
+            checks: { dynamodb: { status: 'down', error: 'UnrecognizedClientException' } },
+        });
+    });
+
+    it('should reuse the readiness result within the cache window', async () => {
+        vi.stubEnv('HEALTH_CACHE_TTL_MS', '60000');
+        mockDynamoDB.on(DescribeTableCommand).resolves(activeTable);
+        await start();
+
+        await app.inject({ method: 'GET', url: '/health/ready' });
+        await app.inject({ method: 'GET', url: '/health/ready' });
+
+        expect(mockDynamoDB.commandCalls(DescribeTableCommand)).toHaveLength(1);
+    });
+
+    it('should skip the DynamoDB check in memory mode', async () => {
+        vi.stubEnv('DYNAMODB_MODE', 'memory');
+        await start();
+
+        const response = await app.inject({ method: 'GET', url: '/health/ready' });
+
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body).checks.dynamodb).toEqual({ status: 'skipped' });
+        expect(mockDynamoDB.commandCalls(DescribeTableCommand)).toHaveLength(0);
+    });
+});
@@ -0,0 +1,60 @@
+import type { FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { build } from '../../../src/app.js';
+import { validStaticData } from '../../helpers/mock-data.js';
+
+describe('Metrics plugin', () => {
+    let app: FastifyInstance;
+
+    beforeEach(async () => {
+        vi.stubEnv('DYNAMODB_MODE', 'memory');
+        vi.stubEnv('AUTH_ENABLED', 'false');
+        app = await build();
+        await app.ready();
+    });
+
+    afterEach(async () => {
+        await app.close();
+        vi.unstubAllEnvs();
+    });
+
+    async function scrape() {
+        const response = await app.inject({ method: 'GET', url: '/metrics' });
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['content-type']).toContain('text/plain');
+        return response.body;
+    }
+
+    it('should label requests with the route pattern', async () => {
+        await app.inject({ method: 'POST', url: '/api/skilifts/static', payload: validStaticData });
+        await app.inject({ method: 'GET', url: '/api/skilifts/Summit%20Express/Static%20Data' });
+        await app.inject({ method: 'GET', url: '/api/skilifts/Lift%202/Static%20Data' });
+
+        const body = await scrape();
+
+        expect(body).toContain(
+            'http_requests_total{method="POST",route="/api/skilifts/static",status_code="201"} 1'
+        );
+        expect(body).toContain(
+            'http_requests_total{method="GET",route="/api/skilifts/:lift/:metadata",status_code="200"} 1'
+        );
+        expect(body).toContain(
+            'http_requests_total{method="GET",route="/api/skilifts/:lift/:metadata",status_code="404"} 1'
+        );
+        expect(body).toContain(
+            'http_request_duration_seconds_bucket{le="0.005",method="POST",route="/api/skilifts/static",status_code="201"}'
+        );
+    });
+
+    it('should not label unknown URLs individually', async () => {
+        await app.inject({ method: 'GET', url: '/does-not-exist/1' });
+        await app.inject({ method: 'GET', url: '/does-not-exist/2' });
+
+        const body = await scrape();
+
+        expect(body).toContain(
+            'http_requests_total{method="GET",route="unmatched",status_code="404"} 2'
+        );
+        expect(body).not.toContain('/does-not-exist');
+    });
+});
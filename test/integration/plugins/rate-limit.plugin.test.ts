@@ -0,0 +1,138 @@
+import { DynamoDBDocumentClient, GetCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import type { FastifyInstance } from 'fastify';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { build } from '../../../src/app.js';
+import { hashApiKey } from '../../../src/utils/auth.js';
+import { multipleLifts, validStaticDataResponse } from '../../helpers/mock-data.js';
+import { createQueryResponse, createSuccessResponse } from '../../helpers/test-utils.js';
+
+const mockDynamoDB = mockClient(DynamoDBDocumentClient);
+
+describe('Rate limit plugin', () => {
+    let app: FastifyInstance;
+
+    const get = (url: string, headers: Record<string, string> = {}) =>
+        app.inject({ method: 'GET', url, headers });
+
+    beforeEach(async () => {
+        mockDynamoDB.reset();
+        mockDynamoDB.on(GetCommand).resolves(createSuccessResponse(validStaticDataResponse));
+        mockDynamoDB.on(ScanCommand).resolves(createQueryResponse(multipleLifts));
+        vi.stubEnv('AUTH_ENABLED', 'true');
+        vi.stubEnv('API_KEYS', `a:reader:${hashApiKey('key-a')},b:reader:${hashApiKey('key-b')}`);
+        vi.stubEnv('RATE_LIMIT_CAPACITY', '5');
+        vi.stubEnv('RATE_LIMIT_REFILL_PER_SECOND', '1');
+        vi.stubEnv('RATE_LIMIT_SCAN_CAPACITY', '2');
+        vi.stubEnv('RATE_LIMIT_SCAN_REFILL_PER_SECOND', '0.1');
+        app = await build();
+        await app.ready();
+    });
+
+    afterEach(async () => {
+        await app.close();
+        vi.unstubAllEnvs();
+    });
+
+    it('should set RateLimit headers', async () => {
+        const response = await get('/api/skilifts/Summit%20Express/Static%20Data', {
+            'x-api-key': 'key-a',
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['ratelimit-limit']).toBe('5');
+        expect(response.headers['ratelimit-remaining']).toBe('4');
+        expect(response.headers['ratelimit-reset']).toBeDefined();
+    });
+
+    it('should answer 429 in the error envelope once the scan budget is spent', async () => {
+        const headers = { 'x-api-key': 'key-a' };
+        await get('/api/skilifts', headers);
+        await get('/api/skilifts', headers);
+
+        const response = await get('/api/skilifts', headers);
+
+        expect(response.statusCode).toBe(429);
+        expect(response.headers['retry-after']).toBe('10');
+        expect(JSON.parse(response.body)).toEqual({
+            error: {
+                message: 'Rate limit exceeded, retry in 10 seconds',
+                code: 'TOO_MANY_REQUESTS',
+                statusCode: 429,
+                requestId: response.headers['x-request-id'],
+            },
+        });
+        expect(mockDynamoDB.commandCalls(ScanCommand)).toHaveLength(2);
+    });
+
+    it('should keep key lookups on their own, larger budget', async () => {
+        const headers = { 'x-api-key': 'key-a' };
+        await get('/api/skilifts', headers);
+        await get('/api/skilifts', headers);
+
+        const response = await get('/api/skilifts/Summit%20Express/Static%20Data', headers);
+
+        expect(response.statusCode).toBe(200);
+    });
+
+    it('should keep a bucket per API key', async () => {
+        await get('/api/skilifts', { 'x-api-key': 'key-a' });
+        await get('/api/skilifts', { 'x-api-key': 'key-a' });
+
+        const response = await get('/api/skilifts', { 'x-api-key': 'key-b' });
+
+        expect(response.statusCode).toBe(200);
+    });
+
+    it('should limit callers without a principal by IP', async () => {
+        for (let i = 0; i < 5; i++) {
+            await get('/openapi.json');
+        }
+
+        const response = await get('/openapi.json');
+
+        expect(response.statusCode).toBe(429);
+    });
+
+    it('should limit requests that fail authentication by IP', async () => {
+        await app.close();
+        vi.stubEnv('RATE_LIMIT_IP_CAPACITY', '3');
+        vi.stubEnv('RATE_LIMIT_IP_REFILL_PER_SECOND', '0.1');
+        app = await build();
+
+        const rejected = [];
+        for (let i = 0; i < 3; i++) {
+            rejected.push((await get('/api/skilifts', { 'x-api-key': 'wrong' })).statusCode);
+        }
+        const response = await get('/api/skilifts', { 'x-api-key': 'key-a' });
+
+        expect(rejected).toEqual([401, 401, 401]);
+        expect(response.statusCode).toBe(429);
+        expect(mockDynamoDB.commandCalls(ScanCommand)).toHaveLength(0);
+    });
+
+    it('should key IP buckets by X-Forwarded-For behind a trusted proxy', async () => {
+        await app.close();
+        vi.stubEnv('RATE_LIMIT_IP_CAPACITY', '1');
+        vi.stubEnv('RATE_LIMIT_IP_REFILL_PER_SECOND', '0.1');
+        vi.stubEnv('TRUST_PROXY', '1');
+        app = await build();
+
+        const first = await get('/openapi.json', { 'x-forwarded-for': '203.0.113.1' });
+        const second = await get('/openapi.json', { 'x-forwarded-for': '203.0.113.2' });
+        const again = await get('/openapi.json', { 'x-forwarded-for': '203.0.113.1' });
+
+        expect([first.statusCode, second.statusCode, again.statusCode]).toEqual([200, 200, 429]);
+    });
+
+    it('should not limit the health check', async () => {
+        for (let i = 0; i < 6; i++) {
+            await get('/health');
+        }
+
+        const response = await get('/health');
+
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['ratelimit-limit']).toBeUndefined();
+    });
+});
@@ -0,0 +1,88 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { FastifyInstance } from 'fastify';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { build } from '../../../src/app.js';
+import { registerTestTracing } from '../../helpers/test-utils.js';
+
+describe('Tracing plugin', () => {
+    let app: FastifyInstance;
+    let tracing: ReturnType<typeof registerTestTracing>;
+
+    beforeAll(() => {
+        tracing = registerTestTracing();
+    });
+
+    beforeEach(async () => {
+        vi.stubEnv('DYNAMODB_MODE', 'memory');
+        vi.stubEnv('AUTH_ENABLED', 'false');
+        app = await build();
+        await app.ready();
+    });
+
+    afterEach(async () => {
+        await app.close();
+        vi.unstubAllEnvs();
+        tracing.exporter.reset();
+    });
+
+    afterAll(async () => {
+        await tracing.shutdown();
+    });
+
+    function serverSpans() {
+        return tracing.exporter
+            .getFinishedSpans()
+            .filter((span) => span.kind === SpanKind.SERVER);
+    }
+
+    it('should name the request span after the route pattern', async () => {
+        await app.inject({ method: 'GET', url: '/api/skilifts/Summit%20Express/Static%20Data' });
+
+        const [span] = serverSpans();
+        expect(span.name).toBe('GET /api/skilifts/:lift/:metadata');
+        expect(span.attributes).toMatchObject({
+            'http.request.method': 'GET',
+            'http.route': '/api/skilifts/:lift/:metadata',
+            'url.path': '/api/skilifts/Summit%20Express/Static%20Data',
+            'http.response.status_code': 404,
+        });
+        expect(span.status.code).toBe(SpanStatusCode.UNSET);
+    });
+
+    it('should continue the caller\'s W3C trace', async () => {
+        const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+        await app.inject({
+            method: 'GET',
+            url: '/health/live',
+            headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+        });
+
+        const [span] = serverSpans();
+        expect(span.spanContext().traceId).toBe(traceId);
+        expect(span.parentSpanContext?.spanId).toBe('00f067aa0ba902b7');
+    });
+
+    it('should time serialization in a child span', async () => {
+        await app.inject({ method: 'GET', url: '/health/live' });
+
+        const spans = tracing.exporter.getFinishedSpans();
+        const request = spans.find((span) => span.kind === SpanKind.SERVER);
+        const serialize = spans.find((span) => span.name === 'serialize');
+        expect(serialize?.parentSpanContext?.spanId).toBe(request?.spanContext().spanId);
+    });
+
+    it('should fail the span on server errors', async () => {
+        vi.spyOn(app.skiLiftRepository, 'get').mockRejectedValue(new Error('disk full'));
+
+        const response = await app.inject({
+            method: 'GET',
+            url: '/api/skilifts/Summit%20Express/Static%20Data',
+        });
+
+        expect(response.statusCode).toBe(500);
+        const [span] = serverSpans();
+        expect(span.status.code).toBe(SpanStatusCode.ERROR);
+        expect(span.events.map((event) => event.name)).toContain('exception');
+    });
+});
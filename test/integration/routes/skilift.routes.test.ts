@@ -1,15 +1,18 @@
 import {
+    BatchWriteCommand,
     DynamoDBDocumentClient,
     DeleteCommand,
     GetCommand,
     PutCommand,
     QueryCommand,
     ScanCommand,
+    TransactWriteCommand,
     UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { mockClient } from 'aws-sdk-client-mock';
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { build } from '../../../src/app.js';
+import { AUDIT_TABLE_NAME } from '../../../src/db/dynamodb.client.js';
 import type { FastifyInstance } from 'fastify';
 import {
     validDynamicData,
@@ -36,12 +39,15 @@ describe('SkiLift Routes Integration Tests', () => {
 
     beforeEach(async () => {
         mockDynamoDB.reset();
+        // Role checks are covered in auth.plugin.test.ts
+        vi.stubEnv('AUTH_ENABLED', 'false');
         app = await build();
         await app.ready();
     });
 
     afterEach(async () => {
         await app.close();
+        vi.unstubAllEnvs();
     });
 
     describe('POST /api/skilifts/static', () => {
@@ -106,6 +112,61 @@ describe('SkiLift Routes Integration Tests', () => {
             expect(body).toEqual(validDynamicDataResponse);
         });
 
+        it('should store a legacy MM/DD/YY date as ISO', async () => {
+            mockDynamoDB.on(PutCommand).resolves(createPutResponse());
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic',
+                payload: { ...validDynamicData, Metadata: '01/15/24' },
+            });
+
+            expect(response.statusCode).toBe(201);
+            const body = JSON.parse(response.body);
+            expect(body.Metadata).toBe('2024-01-15');
+        });
+
+        it('should return 409 when the day already exists', async () => {
+            mockDynamoDB
+                .on(PutCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic',
+                payload: validDynamicData,
+            });
+
+            expect(response.statusCode).toBe(409);
+            const body = JSON.parse(response.body);
+            expect(body.error.code).toBe('CONFLICT');
+        });
+
+        it('should replace the day with upsert=true', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .resolves(createUpdateResponse({ ...validDynamicDataResponse, Version: 2 }));
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic?upsert=true',
+                payload: validDynamicData,
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(mockDynamoDB.commandCalls(PutCommand)).toHaveLength(0);
+        });
+
+        it('should return 400 for an invalid upsert flag', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic?upsert=yes',
+                payload: validDynamicData,
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
         it('should return 400 for invalid LiftStatus', async () => {
             const response = await app.inject({
                 method: 'POST',
@@ -133,6 +194,53 @@ describe('SkiLift Routes Integration Tests', () => {
         });
     });
 
+    describe('POST /api/skilifts/dynamic/batch', () => {
+        it('should create every item in the batch', async () => {
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic/batch',
+                payload: [validDynamicData, { ...validDynamicData, Lift: 'Beginner Slope' }],
+            });
+
+            expect(response.statusCode).toBe(201);
+            const body = JSON.parse(response.body);
+            expect(body.created).toBe(2);
+            expect(body.failed).toBe(0);
+        });
+
+        it('should return 207 with per-item reasons on partial failure', async () => {
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic/batch',
+                payload: [{ ...validDynamicData, LiftStatus: 'INVALID' }, validDynamicData],
+            });
+
+            expect(response.statusCode).toBe(207);
+            const body = JSON.parse(response.body);
+            expect(body.results[0]).toMatchObject({ index: 0, status: 'failed' });
+            expect(body.results[0].reason).toContain('LiftStatus');
+            expect(body.results[1]).toMatchObject({
+                index: 1,
+                status: 'created',
+                Lift: 'Summit Express',
+            });
+        });
+
+        it('should return 400 for an empty batch', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic/batch',
+                payload: [],
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
     describe('POST /api/skilifts/resort', () => {
         it('should create resort data', async () => {
             mockDynamoDB.on(PutCommand).resolves(createPutResponse());
@@ -176,6 +284,24 @@ describe('SkiLift Routes Integration Tests', () => {
             expect(response.statusCode).toBe(200);
             const body = JSON.parse(response.body);
             expect(body).toEqual(validStaticDataResponse);
+            expect(response.headers.etag).toBe('"1"');
+        });
+
+        it('should resolve a legacy MM/DD/YY URL to the migrated record', async () => {
+            mockDynamoDB.on(GetCommand).resolves(createSuccessResponse(validDynamicDataResponse));
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express/01%2F15%2F24',
+            });
+
+            expect(response.statusCode).toBe(200);
+            const lookups = mockDynamoDB.commandCalls(GetCommand);
+            expect(lookups[0].args[0].input.Key).toEqual({
+                Lift: 'Summit Express',
+                Metadata: '2024-01-15',
+            });
+            expect(lookups[1].args[0].input.Key?.Metadata).toBe('2024-01-15');
         });
 
         it('should return 404 when ski lift not found', async () => {
@@ -234,15 +360,56 @@ describe('SkiLift Routes Integration Tests', () => {
             expect(body.items).toHaveLength(multipleLifts.length);
         });
 
-        it('should support pagination parameters', async () => {
-            mockDynamoDB.on(ScanCommand).resolves(createQueryResponse(multipleLifts));
+        it('should return nextCursor and a Link header', async () => {
+            mockDynamoDB
+                .on(ScanCommand)
+                .resolves(
+                    createQueryResponse(multipleLifts, { Lift: 'Test', Metadata: 'Data' })
+                );
 
             const response = await app.inject({
                 method: 'GET',
-                url: '/api/skilifts?limit=10&lastEvaluatedLift=Test&lastEvaluatedMetadata=Data',
+                url: '/api/skilifts?limit=10',
             });
 
             expect(response.statusCode).toBe(200);
+            const body = JSON.parse(response.body);
+            expect(body.nextCursor).toBeDefined();
+            expect(response.headers.link).toBe(
+                `</api/skilifts?limit=10&cursor=${body.nextCursor}>; rel="next"`
+            );
+        });
+
+        it('should accept the cursor from a previous page', async () => {
+            mockDynamoDB
+                .on(ScanCommand)
+                .resolvesOnce(
+                    createQueryResponse(multipleLifts, { Lift: 'Test', Metadata: 'Data' })
+                )
+                .resolves(createQueryResponse([]));
+
+            const first = await app.inject({ method: 'GET', url: '/api/skilifts' });
+            const { nextCursor } = JSON.parse(first.body);
+            const second = await app.inject({
+                method: 'GET',
+                url: `/api/skilifts?cursor=${nextCursor}`,
+            });
+
+            expect(second.statusCode).toBe(200);
+            expect(second.headers.link).toBeUndefined();
+            const input = mockDynamoDB.commandCalls(ScanCommand)[1].args[0].input;
+            expect(input.ExclusiveStartKey).toEqual({ Lift: 'Test', Metadata: 'Data' });
+        });
+
+        it('should return 400 for a tampered cursor', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts?cursor=eyJzIjoic2NhbiJ9.Zm9yZ2Vk',
+            });
+
+            expect(response.statusCode).toBe(400);
+            const body = JSON.parse(response.body);
+            expect(body.error.message).toBe('Invalid pagination cursor');
         });
 
         it('should return 400 for invalid limit', async () => {
@@ -290,6 +457,176 @@ describe('SkiLift Routes Integration Tests', () => {
         });
     });
 
+    describe('GET /api/skilifts/:lift/history', () => {
+        it('should query a date range with BETWEEN', async () => {
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([validDynamicDataResponse]));
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Lift%203/history?from=2024-01-05&to=02%2F10%2F24',
+            });
+
+            expect(response.statusCode).toBe(200);
+            const input = mockDynamoDB.commandCalls(QueryCommand)[0].args[0].input;
+            expect(input.KeyConditionExpression).toBe(
+                'Lift = :lift AND Metadata BETWEEN :from AND :to'
+            );
+            expect(input.ExpressionAttributeValues).toEqual({
+                ':lift': 'Lift 3',
+                ':from': '2024-01-05',
+                ':to': '2024-02-10',
+            });
+            expect(input.ScanIndexForward).toBe(true);
+        });
+
+        it('should return 400 when from is after to', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Lift%203/history?from=2024-02-10&to=2024-01-05',
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should return 400 when the range is missing', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Lift%203/history',
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    describe('GET /api/skilifts/stream', () => {
+        const openStream = async (url: string, headers: Record<string, string> = {}) => {
+            const response = await app.inject({
+                method: 'GET',
+                url,
+                headers,
+                payloadAsStream: true,
+            });
+            let received = '';
+            response.stream().on('data', (chunk: Buffer) => {
+                received += chunk.toString();
+            });
+            return { response, received: () => received };
+        };
+
+        const createDay = (payload: Record<string, unknown>, url = '/api/skilifts/dynamic') =>
+            app.inject({ method: 'POST', url, payload: { ...validDynamicData, ...payload } });
+
+        beforeEach(() => {
+            mockDynamoDB.on(PutCommand).resolves(createPutResponse());
+        });
+
+        it('should send a change event with an ID for every write', async () => {
+            const stream = await openStream('/api/skilifts/stream');
+
+            await createDay({});
+
+            expect(stream.response.statusCode).toBe(200);
+            expect(stream.response.headers['content-type']).toBe(
+                'text/event-stream; charset=utf-8'
+            );
+            expect(stream.response.headers['cache-control']).toBe('no-cache');
+            await vi.waitFor(() => expect(stream.received()).toContain('event: change'));
+            const [id, event, data] = stream.received().trim().split('\n');
+            expect(id).toBe(`id: ${app.changeFeed.epoch}-1`);
+            expect(event).toBe('event: change');
+            expect(JSON.parse(data.slice('data: '.length))).toEqual({
+                Action: 'create',
+                Lift: 'Summit Express',
+                Metadata: '2024-01-15',
+                ChangedAt: expect.any(String),
+                Record: { ...validDynamicData, Version: 1 },
+            });
+        });
+
+        it('should only send changes to the requested lift of its own resort', async () => {
+            const stream = await openStream('/api/skilifts/stream?lift=Summit%20Express');
+
+            await createDay({ Lift: 'Lift 1' });
+            await createDay({}, '/api/resorts/whistler/skilifts/dynamic');
+            await createDay({ Metadata: '2024-01-16' });
+
+            await vi.waitFor(() => expect(stream.received()).toContain('2024-01-16'));
+            expect(stream.received().match(/event: change/g)).toHaveLength(1);
+            expect(stream.received()).toContain(`id: ${app.changeFeed.epoch}-3`);
+        });
+
+        it('should replay the changes missed since Last-Event-ID', async () => {
+            await createDay({});
+            await createDay({ Metadata: '2024-01-16' });
+            await createDay({ Metadata: '2024-01-17' });
+
+            const { epoch } = app.changeFeed;
+            const stream = await openStream('/api/skilifts/stream', {
+                'last-event-id': `${epoch}-1`,
+            });
+
+            await vi.waitFor(() => expect(stream.received()).toContain(`id: ${epoch}-3`));
+            expect(stream.received()).not.toContain(`id: ${epoch}-1\n`);
+            expect(stream.received()).toContain(`id: ${epoch}-2`);
+        });
+
+        it('should send a reset event when missed changes are not buffered', async () => {
+            await createDay({});
+
+            const stream = await openStream('/api/skilifts/stream', {
+                'last-event-id': `${app.changeFeed.epoch}-7`,
+            });
+
+            await vi.waitFor(() => expect(stream.received()).toContain('event: reset'));
+            expect(stream.received()).toMatch(
+                new RegExp(`^id: ${app.changeFeed.epoch}-1\nevent: reset\n`)
+            );
+        });
+
+        it('should send a reset event for an ID from before a restart', async () => {
+            await createDay({});
+
+            const stream = await openStream('/api/skilifts/stream', { 'last-event-id': '1' });
+
+            await vi.waitFor(() => expect(stream.received()).toContain('event: reset'));
+            expect(stream.received()).not.toContain('event: change');
+        });
+
+        it('should send heartbeats on an idle stream', async () => {
+            await app.close();
+            vi.stubEnv('CHANGE_STREAM_HEARTBEAT_MS', '10');
+            app = await build();
+            await app.ready();
+
+            const stream = await openStream('/api/skilifts/stream');
+
+            await vi.waitFor(() => expect(stream.received()).toContain(': heartbeat\n\n'));
+        });
+
+        it('should end open streams and stop their heartbeats when the server closes', async () => {
+            const clearIntervalSpy = vi.spyOn(globalThis, 'clearInterval');
+            const stream = await openStream('/api/skilifts/stream');
+            const ended = new Promise((resolve) => stream.response.stream().on('end', resolve));
+
+            await app.close();
+
+            await ended;
+            expect(clearIntervalSpy).toHaveBeenCalled();
+            clearIntervalSpy.mockRestore();
+            app = await build();
+        });
+
+        it('should return 400 for an invalid Last-Event-ID', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/stream',
+                headers: { 'last-event-id': 'latest event' },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
     describe('PUT /api/skilifts/:lift/static', () => {
         it('should update static ski lift data', async () => {
             const updatedData = {
@@ -325,6 +662,21 @@ describe('SkiLift Routes Integration Tests', () => {
     });
 
     describe('PUT /api/skilifts/:lift/:metadata', () => {
+        it('should return 400 for an empty body', async () => {
+            const response = await app.inject({
+                method: 'PUT',
+                url: '/api/skilifts/Summit%20Express/2024-01-15',
+                payload: {},
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(JSON.parse(response.body).error).toMatchObject({
+                code: 'VALIDATION_ERROR',
+                message: 'No fields to update',
+            });
+            expect(mockDynamoDB.commandCalls(UpdateCommand)).toHaveLength(0);
+        });
+
         it('should update dynamic ski lift data', async () => {
             const updatedData = {
                 ...validDynamicDataResponse,
@@ -345,111 +697,845 @@ describe('SkiLift Routes Integration Tests', () => {
             expect(body.LiftStatus).toBe('Closed');
         });
 
-        it('should return 400 for invalid LiftStatus', async () => {
+        it('should pass If-Match through as the expected version', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .resolves(createUpdateResponse({ ...validDynamicDataResponse, Version: 2 }));
+
             const response = await app.inject({
                 method: 'PUT',
                 url: '/api/skilifts/Summit%20Express/01%2F15%2F24',
+                headers: { 'if-match': '"2"' },
                 payload: {
-                    LiftStatus: 'INVALID',
+                    LiftStatus: 'Closed',
                 },
             });
 
-            expect(response.statusCode).toBe(400);
+            expect(response.statusCode).toBe(200);
+            expect(response.headers.etag).toBe('"3"');
+            const input = mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input as any;
+            expect(input.ExpressionAttributeValues[':expectedVersion']).toBe(2);
         });
 
-        it('should return 500 on database error', async () => {
+        it('should return 412 when If-Match is stale', async () => {
             mockDynamoDB
                 .on(UpdateCommand)
-                .rejects(createDynamoDBError('InternalServerError', 'Database error'));
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
 
             const response = await app.inject({
                 method: 'PUT',
                 url: '/api/skilifts/Summit%20Express/01%2F15%2F24',
+                headers: { 'if-match': '"1"' },
                 payload: {
                     LiftStatus: 'Closed',
                 },
             });
 
-            expect(response.statusCode).toBe(500);
+            expect(response.statusCode).toBe(412);
+            const body = JSON.parse(response.body);
+            expect(body.error.code).toBe('PRECONDITION_FAILED');
         });
-    });
-
-    describe('DELETE /api/skilifts/:lift/:metadata', () => {
-        it('should delete ski lift data', async () => {
-            mockDynamoDB.on(DeleteCommand).resolves(createDeleteResponse());
 
+        it('should return 412 for an If-Match value that was never issued', async () => {
             const response = await app.inject({
-                method: 'DELETE',
-                url: '/api/skilifts/Summit%20Express/Static%20Data',
+                method: 'PUT',
+                url: '/api/skilifts/Summit%20Express/01%2F15%2F24',
+                headers: { 'if-match': 'W/"abc"' },
+                payload: {
+                    LiftStatus: 'Closed',
+                },
             });
 
-            expect(response.statusCode).toBe(204);
-            expect(response.body).toBe('');
+            expect(response.statusCode).toBe(412);
+            expect(mockDynamoDB.commandCalls(UpdateCommand)).toHaveLength(0);
         });
 
-        it('should return 500 on database error', async () => {
-            mockDynamoDB
-                .on(DeleteCommand)
-                .rejects(createDynamoDBError('InternalServerError', 'Database error'));
+        it('should return 409 for a status transition the rules forbid', async () => {
+            mockDynamoDB.on(GetCommand).resolves(
+                createSuccessResponse({ ...validDynamicDataResponse, LiftStatus: 'Closed' })
+            );
 
             const response = await app.inject({
-                method: 'DELETE',
-                url: '/api/skilifts/Summit%20Express/Static%20Data',
+                method: 'PUT',
+                url: '/api/skilifts/Summit%20Express/2024-01-15',
+                payload: { LiftStatus: 'Pending' },
             });
 
-            expect(response.statusCode).toBe(500);
+            expect(response.statusCode).toBe(409);
+            expect(mockDynamoDB.commandCalls(UpdateCommand)).toHaveLength(0);
         });
-    });
 
-    describe('Middleware Integration', () => {
-        it('should have CORS headers', async () => {
-            mockDynamoDB.on(ScanCommand).resolves(createQueryResponse([]));
+        it('should record an override and its reason in the timeline', async () => {
+            mockDynamoDB.on(GetCommand).resolves(
+                createSuccessResponse({ ...validDynamicDataResponse, LiftStatus: 'Closed' })
+            );
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validDynamicDataResponse));
 
             const response = await app.inject({
-                method: 'GET',
-                url: '/api/skilifts',
+                method: 'PUT',
+                url:
+                    '/api/skilifts/Summit%20Express/2024-01-15' +
+                    '?override=true&reason=Closed%20by%20mistake',
+                payload: { LiftStatus: 'Pending' },
             });
 
-            expect(response.headers['access-control-allow-origin']).toBeDefined();
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.body).StatusTimeline).toEqual([
+                {
+                    From: 'Closed',
+                    To: 'Pending',
+                    ChangedAt: expect.any(String),
+                    ChangedBy: 'anonymous:anonymous',
+                    Reason: 'Closed by mistake',
+                    Override: true,
+                },
+            ]);
         });
 
-        it('should have security headers from Helmet', async () => {
-            mockDynamoDB.on(ScanCommand).resolves(createQueryResponse([]));
-
+        it('should return 400 for an override without a reason', async () => {
             const response = await app.inject({
-                method: 'GET',
-                url: '/api/skilifts',
+                method: 'PUT',
+                url: '/api/skilifts/Summit%20Express/2024-01-15?override=true',
+                payload: { LiftStatus: 'Pending' },
             });
 
-            expect(response.headers['x-content-type-options']).toBe('nosniff');
+            expect(response.statusCode).toBe(400);
+            expect(JSON.parse(response.body).error.details.issues[0].message).toBe(
+                'An override requires a reason'
+            );
         });
 
-        it('should handle compression', async () => {
-            mockDynamoDB.on(ScanCommand).resolves(createQueryResponse(multipleLifts));
-
+        it('should return 400 for invalid LiftStatus', async () => {
             const response = await app.inject({
-                method: 'GET',
-                url: '/api/skilifts',
-                headers: {
-                    'accept-encoding': 'gzip',
+                method: 'PUT',
+                url: '/api/skilifts/Summit%20Express/01%2F15%2F24',
+                payload: {
+                    LiftStatus: 'INVALID',
                 },
             });
 
-            expect(response.statusCode).toBe(200);
+            expect(response.statusCode).toBe(400);
         });
-    });
 
-    describe('Error Handling', () => {
-        it('should return 404 for unknown routes', async () => {
+        it('should return 500 on database error', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('InternalServerError', 'Database error'));
+
             const response = await app.inject({
-                method: 'GET',
-                url: '/api/unknown',
+                method: 'PUT',
+                url: '/api/skilifts/Summit%20Express/01%2F15%2F24',
+                payload: {
+                    LiftStatus: 'Closed',
+                },
             });
 
-            expect(response.statusCode).toBe(404);
+            expect(response.statusCode).toBe(500);
         });
+    });
+
+    describe('POST /api/skilifts/:lift/:metadata/riders/increment', () => {
+        it('should add riders and return the day with its ETag', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validDynamicDataResponse));
 
-        it('should handle malformed JSON', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/Summit%20Express/2024-01-15/riders/increment',
+                payload: { by: 5 },
+            });
+
+            expect(response.statusCode).toBe(200);
+            const body = JSON.parse(response.body);
+            expect(body.TotalUniqueLiftRiders).toBe(
+                validDynamicDataResponse.TotalUniqueLiftRiders + 5
+            );
+            expect(response.headers.etag).toBe(`"${body.Version}"`);
+        });
+
+        it('should increment by one without a body', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves({});
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/Summit%20Express/2024-01-15/riders/increment',
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.body)).toMatchObject({
+                TotalUniqueLiftRiders: 1,
+                LiftStatus: 'Pending',
+            });
+        });
+
+        it.each([
+            ['/api/skilifts/Summit%20Express/Static%20Data/riders/increment', { by: 1 }],
+            ['/api/skilifts/Summit%20Express/2024-01-15/riders/increment', { by: -2 }],
+            ['/api/skilifts/Summit%20Express/2024-01-15/riders/increment', { by: 1.5 }],
+        ])('should return 400 for %s with %j', async (url, payload) => {
+            const response = await app.inject({ method: 'POST', url, payload });
+
+            expect(response.statusCode).toBe(400);
+            expect(mockDynamoDB.commandCalls(UpdateCommand)).toHaveLength(0);
+        });
+    });
+
+    describe('DELETE /api/skilifts/:lift/:metadata', () => {
+        it('should soft-delete ski lift data', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validStaticDataResponse));
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+            });
+
+            expect(response.statusCode).toBe(204);
+            expect(response.body).toBe('');
+            expect(mockDynamoDB.commandCalls(DeleteCommand)).toHaveLength(0);
+            const input = mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input as any;
+            expect(input.ExpressionAttributeValues[':DeletedBy']).toBe('anonymous:anonymous');
+            expect(input.ExpressionAttributeValues[':ExpiresAt']).toEqual(expect.any(Number));
+        });
+
+        it('should return 204 when the record is already deleted', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+            });
+
+            expect(response.statusCode).toBe(204);
+        });
+
+        it('should return 412 when If-Match is stale', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+                headers: { 'if-match': '"4"' },
+            });
+
+            expect(response.statusCode).toBe(412);
+        });
+
+        it('should return 500 on database error', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('InternalServerError', 'Database error'));
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+            });
+
+            expect(response.statusCode).toBe(500);
+        });
+    });
+
+    describe('DELETE /api/skilifts/:lift', () => {
+        it('should require confirm=true', async () => {
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Summit%20Express',
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(JSON.parse(response.body).error.details.issues).toEqual([
+                expect.objectContaining({
+                    path: ['confirm'],
+                    message: 'Pass confirm=true to delete the lift and all of its data',
+                }),
+            ]);
+            expect(mockDynamoDB.commandCalls(QueryCommand)).toHaveLength(0);
+        });
+
+        it('should delete every record of the lift and leave a tombstone', async () => {
+            mockDynamoDB
+                .on(QueryCommand)
+                .resolves(createQueryResponse([validStaticDataResponse, validDynamicDataResponse]));
+            mockDynamoDB.on(UpdateCommand).resolves({});
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Summit%20Express?confirm=true',
+            });
+
+            expect(response.statusCode).toBe(202);
+            expect(response.headers.location).toBe('/api/skilifts/Summit%20Express/Decommissioned');
+            const tombstone = mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input as any;
+            expect(tombstone.Key).toEqual({ Lift: 'Summit Express', Metadata: 'Decommissioned' });
+            expect(tombstone.ExpressionAttributeValues).toMatchObject({
+                ':DecommissionedBy': 'anonymous:anonymous',
+                ':DecommissionStatus': 'InProgress',
+                ':DeletedRecords': 0,
+            });
+            await vi.waitFor(() => {
+                const complete = mockDynamoDB.commandCalls(UpdateCommand).at(-1)?.args[0].input;
+                expect(complete?.ExpressionAttributeValues).toMatchObject({
+                    ':DecommissionStatus': 'Complete',
+                });
+            });
+            const deletes = mockDynamoDB
+                .commandCalls(BatchWriteCommand)
+                .map((call) => call.args[0].input.RequestItems?.SkiLifts)
+                .filter(Boolean);
+            expect(deletes).toEqual([
+                [
+                    { DeleteRequest: { Key: { Lift: 'Summit Express', Metadata: 'Static Data' } } },
+                    { DeleteRequest: { Key: { Lift: 'Summit Express', Metadata: '2024-01-15' } } },
+                ],
+            ]);
+        });
+
+        it('should return 404 for a lift without data', async () => {
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([]));
+
+            const response = await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Unknown%20Lift?confirm=true',
+            });
+
+            expect(response.statusCode).toBe(404);
+            expect(mockDynamoDB.commandCalls(BatchWriteCommand)).toHaveLength(0);
+        });
+    });
+
+    describe('POST /api/skilifts/:lift/:metadata/restore', () => {
+        const deleted = {
+            ...validStaticDataResponse,
+            Version: 2,
+            DeletedAt: '2024-01-15T09:30:00.000Z',
+            DeletedBy: 'jwt:alice',
+            ExpiresAt: 1707910200,
+        };
+
+        it('should restore a deleted record', async () => {
+            mockDynamoDB.on(GetCommand).resolves({ Item: deleted });
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(deleted));
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/Summit%20Express/Static%20Data/restore',
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.headers.etag).toBe('"3"');
+            expect(JSON.parse(response.body)).toEqual({ ...validStaticDataResponse, Version: 3 });
+            const input = mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input as any;
+            expect(input.UpdateExpression).toContain('REMOVE #DeletedAt, #DeletedBy, #ExpiresAt');
+            expect(input.ExpressionAttributeValues[':expectedVersion']).toBe(2);
+        });
+
+        it('should return 404 when the record is not deleted', async () => {
+            mockDynamoDB.on(GetCommand).resolves({ Item: validStaticDataResponse });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/Summit%20Express/Static%20Data/restore',
+            });
+
+            expect(response.statusCode).toBe(404);
+            expect(mockDynamoDB.commandCalls(UpdateCommand)).toHaveLength(0);
+        });
+
+        it('should return 409 when the record changes while being restored', async () => {
+            mockDynamoDB.on(GetCommand).resolves({ Item: deleted });
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/Summit%20Express/Static%20Data/restore',
+            });
+
+            expect(response.statusCode).toBe(409);
+        });
+    });
+
+    describe('includeDeleted', () => {
+        const deleted = { ...validDynamicDataResponse, DeletedAt: '2024-01-15T09:30:00.000Z' };
+
+        it('should hide deleted records by default', async () => {
+            mockDynamoDB.on(GetCommand).resolves({ Item: deleted });
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([deleted]));
+
+            const record = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express/2024-01-15',
+            });
+            const list = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express',
+            });
+
+            expect(record.statusCode).toBe(404);
+            expect(JSON.parse(list.body)).toMatchObject({ items: [], count: 0 });
+        });
+
+        it('should return deleted records with includeDeleted=true', async () => {
+            mockDynamoDB.on(GetCommand).resolves({ Item: deleted });
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([deleted]));
+
+            const record = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express/2024-01-15?includeDeleted=true',
+            });
+            const list = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express?includeDeleted=true',
+            });
+
+            expect(record.statusCode).toBe(200);
+            expect(JSON.parse(record.body).DeletedAt).toBe(deleted.DeletedAt);
+            expect(JSON.parse(list.body).items).toEqual([deleted]);
+        });
+    });
+
+    describe('GET /api/skilifts/:lift/:metadata/audit', () => {
+        const auditWrites = () =>
+            mockDynamoDB
+                .commandCalls(BatchWriteCommand)
+                .flatMap((call) => call.args[0].input.RequestItems?.[AUDIT_TABLE_NAME] ?? [])
+                .map((request) => request.PutRequest?.Item);
+
+        it('should record who changed a record and its values before and after', async () => {
+            mockDynamoDB.on(GetCommand).resolves(createSuccessResponse(validDynamicDataResponse));
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validDynamicDataResponse));
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            const response = await app.inject({
+                method: 'PUT',
+                url: '/api/skilifts/Summit%20Express/2024-01-15',
+                payload: { LiftStatus: 'Closed' },
+            });
+            const transition = {
+                From: 'Open',
+                To: 'Closed',
+                ChangedAt: expect.any(String),
+                ChangedBy: 'anonymous:anonymous',
+            };
+
+            expect(response.statusCode).toBe(200);
+            expect(auditWrites()).toEqual([
+                expect.objectContaining({
+                    RecordKey: 'Summit Express#2024-01-15',
+                    Action: 'update',
+                    Actor: 'anonymous:anonymous',
+                    Route: 'PUT /api/skilifts/:lift/:metadata',
+                    RequestId: expect.any(String),
+                    Before: validDynamicDataResponse,
+                    After: {
+                        ...validDynamicDataResponse,
+                        LiftStatus: 'Closed',
+                        StatusTimeline: [transition],
+                        Version: 2,
+                    },
+                    Changes: {
+                        LiftStatus: { from: 'Open', to: 'Closed' },
+                        StatusTimeline: { from: undefined, to: [transition] },
+                    },
+                }),
+            ]);
+        });
+
+        it('should record deletes with the deleted record', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validStaticDataResponse));
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            await app.inject({
+                method: 'DELETE',
+                url: '/api/skilifts/Summit%20Express/Static%20Data',
+            });
+
+            expect(auditWrites()).toEqual([
+                expect.objectContaining({
+                    Action: 'delete',
+                    Before: validStaticDataResponse,
+                    After: expect.objectContaining({ DeletedBy: 'anonymous:anonymous' }),
+                }),
+            ]);
+        });
+
+        it('should still succeed when the audit log cannot be written', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validDynamicDataResponse));
+            mockDynamoDB
+                .on(BatchWriteCommand)
+                .rejects(createDynamoDBError('ResourceNotFoundException', 'Table not found'));
+
+            const response = await app.inject({
+                method: 'PUT',
+                url: '/api/skilifts/Summit%20Express/2024-01-15',
+                payload: { LiftStatus: 'Closed' },
+            });
+
+            expect(response.statusCode).toBe(200);
+        });
+
+        it('should list a record\'s changes newest first', async () => {
+            const entry = {
+                RecordKey: 'Summit Express#2024-01-15',
+                AuditId: '2024-01-15T09:30:00.000Z#6f1c',
+                Lift: 'Summit Express',
+                Metadata: '2024-01-15',
+                ChangedAt: '2024-01-15T09:30:00.000Z',
+                Action: 'update',
+                Actor: 'jwt:alice',
+                Changes: { LiftStatus: { from: 'Open', to: 'Closed' } },
+            };
+            mockDynamoDB.on(QueryCommand).resolves({
+                Items: [entry],
+                Count: 1,
+                LastEvaluatedKey: { RecordKey: entry.RecordKey, AuditId: entry.AuditId },
+            });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Summit%20Express/2024-01-15/audit?limit=1',
+            });
+
+            expect(response.statusCode).toBe(200);
+            const body = JSON.parse(response.body);
+            const { RecordKey, ...expected } = entry;
+            expect(body.items).toEqual([expected]);
+            expect(body.nextCursor).toBeDefined();
+            expect(response.headers.link).toContain('rel="next"');
+            expect(mockDynamoDB.commandCalls(QueryCommand)[0].args[0].input).toMatchObject({
+                TableName: AUDIT_TABLE_NAME,
+                ExpressionAttributeValues: { ':recordKey': 'Summit Express#2024-01-15' },
+                ScanIndexForward: false,
+                Limit: 1,
+            });
+        });
+    });
+
+    describe('POST /api/resort/:date/close', () => {
+        it('should write the aggregated resort data', async () => {
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([]));
+            mockDynamoDB
+                .on(QueryCommand, { ExpressionAttributeValues: { ':metadata': '2024-01-15' } })
+                .resolves(createQueryResponse([validDynamicDataResponse]));
+            mockDynamoDB.on(TransactWriteCommand).resolves({});
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/resort/01%2F15%2F24/close',
+            });
+
+            expect(response.statusCode).toBe(200);
+            const body = JSON.parse(response.body);
+            expect(body).toMatchObject({
+                Lift: 'Resort Data',
+                Metadata: '2024-01-15',
+                TotalUniqueLiftRiders: 1250,
+                OpenLifts: [],
+            });
+            expect(response.headers.etag).toBe('"1"');
+        });
+
+        it('should return 409 when lift data changes concurrently', async () => {
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([]));
+            mockDynamoDB
+                .on(QueryCommand, { ExpressionAttributeValues: { ':metadata': '2024-01-15' } })
+                .resolves(createQueryResponse([validDynamicDataResponse]));
+            mockDynamoDB
+                .on(TransactWriteCommand)
+                .rejects(createDynamoDBError('TransactionCanceledException', 'Cancelled'));
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/resort/01%2F15%2F24/close',
+            });
+
+            expect(response.statusCode).toBe(409);
+        });
+
+        it('should return 400 for an invalid date', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/resort/2024-02-30/close',
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    describe('/api/resorts/:resortId', () => {
+        it('should store records under the resort and return them without the prefix', async () => {
+            mockDynamoDB.on(PutCommand).resolves(createPutResponse());
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/resorts/whistler/skilifts/static',
+                payload: validStaticData,
+            });
+
+            expect(response.statusCode).toBe(201);
+            expect(JSON.parse(response.body)).toEqual(validStaticDataResponse);
+            const input = mockDynamoDB.commandCalls(PutCommand)[0].args[0].input;
+            expect(input.Item?.Lift).toBe('whistler#Summit Express');
+        });
+
+        it('should read from the resort partition', async () => {
+            mockDynamoDB.on(GetCommand).resolves(
+                createSuccessResponse({
+                    ...validStaticDataResponse,
+                    Lift: 'whistler#Summit Express',
+                })
+            );
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/resorts/whistler/skilifts/Summit%20Express/Static%20Data',
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.body).Lift).toBe('Summit Express');
+            const input = mockDynamoDB.commandCalls(GetCommand)[0].args[0].input;
+            expect(input.Key).toEqual({
+                Lift: 'whistler#Summit Express',
+                Metadata: 'Static Data',
+            });
+        });
+
+        it('should only list the resort\'s records', async () => {
+            mockDynamoDB.on(ScanCommand).resolves(
+                createQueryResponse([
+                    { ...validDynamicDataResponse, Lift: 'whistler#Summit Express' },
+                    { ...validDynamicDataResponse, Lift: 'vail#Summit Express' },
+                    validDynamicDataResponse,
+                ])
+            );
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/resorts/whistler/skilifts',
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.body)).toEqual({
+                items: [validDynamicDataResponse],
+                count: 1,
+            });
+            const input = mockDynamoDB.commandCalls(ScanCommand)[0].args[0].input;
+            expect(input.FilterExpression).toBe('begins_with(Lift, :liftPrefix)');
+            expect(input.ExpressionAttributeValues).toEqual({ ':liftPrefix': 'whistler#' });
+        });
+
+        it('should leave resort records out of the original routes', async () => {
+            mockDynamoDB.on(ScanCommand).resolves(
+                createQueryResponse([
+                    { ...validDynamicDataResponse, Lift: 'whistler#Summit Express' },
+                    validDynamicDataResponse,
+                ])
+            );
+
+            const response = await app.inject({ method: 'GET', url: '/api/skilifts' });
+
+            expect(JSON.parse(response.body).items).toEqual([validDynamicDataResponse]);
+        });
+
+        it('should close the day into the resort\'s own summary', async () => {
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([]));
+            mockDynamoDB
+                .on(QueryCommand, { ExpressionAttributeValues: { ':metadata': '2024-01-15' } })
+                .resolves(
+                    createQueryResponse([
+                        { ...validDynamicDataResponse, Lift: 'whistler#Summit Express' },
+                    ])
+                );
+            mockDynamoDB.on(TransactWriteCommand).resolves({});
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/resorts/whistler/resort/2024-01-15/close',
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(JSON.parse(response.body).Lift).toBe('Resort Data');
+            const input = mockDynamoDB.commandCalls(TransactWriteCommand)[0].args[0].input;
+            expect(input.TransactItems?.[0].Put?.Item?.Lift).toBe('whistler#Resort Data');
+            expect(input.TransactItems?.[1].ConditionCheck?.Key?.Lift).toBe(
+                'whistler#Summit Express'
+            );
+            const query = mockDynamoDB.commandCalls(QueryCommand)[0].args[0].input;
+            expect(query.ExpressionAttributeValues?.[':liftPrefix']).toBe('whistler#');
+        });
+
+        it('should return 400 for an invalid resort ID', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/resorts/Not%20A%20Slug/skilifts',
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(mockDynamoDB.commandCalls(ScanCommand)).toHaveLength(0);
+        });
+
+        it('should return 400 for lift names containing the key separator', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/resorts/whistler/skilifts/static',
+                payload: { ...validStaticData, Lift: 'vail#Summit Express' },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should reserve the resort summary partition for closing the day', async () => {
+            mockDynamoDB.on(GetCommand).resolves(createSuccessResponse(validResortDataResponse));
+
+            const created = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic',
+                payload: { ...validDynamicData, Lift: 'Resort Data' },
+            });
+            const read = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/Resort%20Data/2024-01-15',
+            });
+
+            expect(created.statusCode).toBe(400);
+            expect(JSON.parse(created.body).error.details.issues[0].message).toBe(
+                'Lift name "Resort Data" is reserved for the resort summaries'
+            );
+            expect(mockDynamoDB.commandCalls(PutCommand)).toHaveLength(0);
+            expect(read.statusCode).toBe(200);
+        });
+    });
+
+    describe('OpenAPI', () => {
+        it('should serve an OpenAPI 3.1 document for every route', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/openapi.json',
+            });
+
+            expect(response.statusCode).toBe(200);
+            const spec = JSON.parse(response.body);
+            expect(spec.openapi).toBe('3.1.0');
+            expect(Object.keys(spec.paths)).toEqual(
+                expect.arrayContaining([
+                    '/api/skilifts/static',
+                    '/api/skilifts/dynamic/batch',
+                    '/api/skilifts/{lift}/{metadata}',
+                    '/api/skilifts/{lift}/history',
+                    '/api/resort/{date}/close',
+                ])
+            );
+        });
+
+        it('should describe bodies, parameters and the error envelope from the Zod schemas', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/openapi.json',
+            });
+            const spec = JSON.parse(response.body);
+
+            const create = spec.paths['/api/skilifts/dynamic'].post;
+            const body = create.requestBody.content['application/json'].schema;
+            expect(body.required).toContain('Metadata');
+            expect(body.properties.LiftStatus.enum).toEqual(['Open', 'Closed', 'Pending']);
+            expect(create.responses['201']).toBeDefined();
+            expect(
+                create.responses['409'].content['application/json'].schema.properties.error
+                    .required
+            ).toEqual(['message', 'statusCode']);
+            expect(
+                create.responses['400'].content['application/problem+json'].schema.required
+            ).toEqual(['type', 'title', 'status', 'detail', 'instance']);
+
+            const update = spec.paths['/api/skilifts/{lift}/{metadata}'].put;
+            expect(update.parameters.map((parameter: any) => parameter.name)).toEqual(
+                expect.arrayContaining(['lift', 'metadata', 'if-match'])
+            );
+        });
+
+        it('should keep validating requests with Zod', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/static',
+                payload: { Lift: '' },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(JSON.parse(response.body).error.code).toBe('VALIDATION_ERROR');
+        });
+
+        it('should serve the Swagger UI docs page', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/docs',
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.headers['content-type']).toContain('text/html');
+        });
+    });
+
+    describe('Middleware Integration', () => {
+        it('should have CORS headers', async () => {
+            mockDynamoDB.on(ScanCommand).resolves(createQueryResponse([]));
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts',
+            });
+
+            expect(response.headers['access-control-allow-origin']).toBeDefined();
+        });
+
+        it('should have security headers from Helmet', async () => {
+            mockDynamoDB.on(ScanCommand).resolves(createQueryResponse([]));
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts',
+            });
+
+            expect(response.headers['x-content-type-options']).toBe('nosniff');
+        });
+
+        it('should handle compression', async () => {
+            mockDynamoDB.on(ScanCommand).resolves(createQueryResponse(multipleLifts));
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts',
+                headers: {
+                    'accept-encoding': 'gzip',
+                },
+            });
+
+            expect(response.statusCode).toBe(200);
+        });
+    });
+
+    describe('Error Handling', () => {
+        it('should return 404 for unknown routes', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/unknown',
+            });
+
+            expect(response.statusCode).toBe(404);
+            expect(JSON.parse(response.body)).toEqual({
+                error: {
+                    message: 'Route GET /api/unknown not found',
+                    code: 'NOT_FOUND',
+                    statusCode: 404,
+                    requestId: response.headers['x-request-id'],
+                },
+            });
+        });
+
+        it('should handle malformed JSON', async () => {
             const response = await app.inject({
                 method: 'POST',
                 url: '/api/skilifts/static',
@@ -460,6 +1546,167 @@ describe('SkiLift Routes Integration Tests', () => {
             });
 
             expect(response.statusCode).toBe(400);
+            expect(JSON.parse(response.body).error.code).toBe('BAD_REQUEST');
+        });
+
+        it('should answer oversized bodies in the error envelope', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/dynamic/batch',
+                payload: JSON.stringify({ padding: 'x'.repeat(1024 * 1024 + 1) }),
+                headers: {
+                    'content-type': 'application/json',
+                },
+            });
+
+            expect(response.statusCode).toBe(413);
+            expect(JSON.parse(response.body).error.code).toBe('PAYLOAD_TOO_LARGE');
+        });
+
+        it('should answer unsupported content types in the error envelope', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/static',
+                payload: '<lift/>',
+                headers: {
+                    'content-type': 'application/xml',
+                },
+            });
+
+            expect(response.statusCode).toBe(415);
+            expect(JSON.parse(response.body).error.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+        });
+
+        it('should reuse the caller\'s request ID', async () => {
+            mockDynamoDB.on(GetCommand).resolves({ Item: undefined });
+
+            const response = await app.inject({
+                method: 'GET',
+                url: '/api/skilifts/NonExistent/Static%20Data',
+                headers: { 'x-request-id': 'trace-123' },
+            });
+
+            expect(response.headers['x-request-id']).toBe('trace-123');
+            expect(JSON.parse(response.body).error.requestId).toBe('trace-123');
+        });
+
+        it('should return 503 with Retry-After when DynamoDB throttles', async () => {
+            mockDynamoDB.on(ScanCommand).rejects(
+                createDynamoDBError('ProvisionedThroughputExceededException', 'Throughput exceeded')
+            );
+
+            const response = await app.inject({ method: 'GET', url: '/api/skilifts' });
+
+            expect(response.statusCode).toBe(503);
+            expect(response.headers['retry-after']).toBe('1');
+            expect(JSON.parse(response.body).error.code).toBe('DYNAMODB_THROTTLED');
+        });
+
+        it('should return 400 when DynamoDB rejects the request', async () => {
+            mockDynamoDB.on(PutCommand).rejects(
+                createDynamoDBError('ValidationException', 'Item size has exceeded the maximum')
+            );
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/api/skilifts/static',
+                payload: validStaticData,
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(JSON.parse(response.body).error.code).toBe('VALIDATION_ERROR');
+        });
+
+        it('should hide the details of unexpected SDK errors', async () => {
+            mockDynamoDB.on(ScanCommand).rejects(
+                createDynamoDBError('InternalServerError', 'Partition 7 on host ddb-12 failed')
+            );
+
+            const response = await app.inject({ method: 'GET', url: '/api/skilifts' });
+
+            expect(response.statusCode).toBe(500);
+            expect(response.body).not.toContain('ddb-12');
+        });
+
+        describe('problem details', () => {
+            it('should answer validation failures with one entry per invalid field', async () => {
+                const response = await app.inject({
+                    method: 'POST',
+                    url: '/api/skilifts/dynamic',
+                    payload: { ...validDynamicData, LiftStatus: 'Broken', TotalUniqueLiftRiders: -1 },
+                    headers: { accept: 'application/problem+json' },
+                });
+
+                expect(response.statusCode).toBe(400);
+                expect(response.headers['content-type']).toBe(
+                    'application/problem+json; charset=utf-8'
+                );
+                const problem = JSON.parse(response.body);
+                expect(problem).toMatchObject({
+                    type: 'urn:problem-type:validation-error',
+                    title: 'Bad Request',
+                    status: 400,
+                    detail: 'Validation failed',
+                    instance: '/api/skilifts/dynamic',
+                    code: 'VALIDATION_ERROR',
+                    requestId: response.headers['x-request-id'],
+                });
+                expect(problem.errors.map((error: any) => error.path)).toEqual([
+                    'TotalUniqueLiftRiders',
+                    'LiftStatus',
+                ]);
+                expect(problem.errors[1]).toEqual({
+                    path: 'LiftStatus',
+                    message: expect.any(String),
+                    code: 'invalid_enum_value',
+                });
+            });
+
+            it('should describe unknown routes', async () => {
+                const response = await app.inject({
+                    method: 'GET',
+                    url: '/api/unknown?x=1',
+                    headers: { accept: 'application/problem+json, application/json;q=0.9' },
+                });
+
+                expect(response.statusCode).toBe(404);
+                expect(JSON.parse(response.body)).toEqual({
+                    type: 'urn:problem-type:not-found',
+                    title: 'Not Found',
+                    status: 404,
+                    detail: 'Route GET /api/unknown?x=1 not found',
+                    instance: '/api/unknown?x=1',
+                    code: 'NOT_FOUND',
+                    requestId: response.headers['x-request-id'],
+                });
+            });
+
+            it('should keep Retry-After on throttled requests', async () => {
+                mockDynamoDB.on(ScanCommand).rejects(
+                    createDynamoDBError('ThrottlingException', 'Rate exceeded')
+                );
+
+                const response = await app.inject({
+                    method: 'GET',
+                    url: '/api/skilifts',
+                    headers: { accept: 'application/problem+json' },
+                });
+
+                expect(response.statusCode).toBe(503);
+                expect(response.headers['retry-after']).toBe('1');
+                expect(JSON.parse(response.body).type).toBe('urn:problem-type:dynamodb-throttled');
+            });
+
+            it('should keep the envelope for clients that prefer application/json', async () => {
+                const response = await app.inject({
+                    method: 'GET',
+                    url: '/api/unknown',
+                    headers: { accept: 'application/json, application/problem+json;q=0.5' },
+                });
+
+                expect(response.headers['content-type']).toContain('application/json');
+                expect(JSON.parse(response.body).error.code).toBe('NOT_FOUND');
+            });
         });
 
         it('should return proper error format', async () => {
@@ -0,0 +1,299 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    ApiError,
+    ConflictError,
+    ForbiddenError,
+    NotFoundError,
+    PreconditionFailedError,
+    ServerError,
+    SkiLiftClient,
+    TooManyRequestsError,
+    UnauthorizedError,
+    ValidationError,
+} from '../../../src/client/index.js';
+import {
+    multipleLifts,
+    validDynamicData,
+    validDynamicDataResponse,
+    validStaticDataResponse,
+} from '../../helpers/mock-data.js';
+
+const json = (status: number, body?: unknown, headers: Record<string, string> = {}) =>
+    new Response(body === undefined ? null : JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json', ...headers },
+    });
+
+const errorBody = (statusCode: number, code: string, message = 'Failed') => ({
+    error: { message, code, statusCode, requestId: 'req-1' },
+});
+
+describe('SkiLiftClient', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+    let client: SkiLiftClient;
+
+    const lastRequest = () => {
+        const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+        return { url: new URL(url), init: init as RequestInit };
+    };
+
+    beforeEach(() => {
+        fetchMock = vi.fn();
+        client = new SkiLiftClient({
+            baseUrl: 'http://api.test/',
+            fetch: fetchMock as unknown as typeof fetch,
+            retryDelayMs: 1,
+        });
+    });
+
+    describe('requests', () => {
+        it('should post create requests with the upsert flag', async () => {
+            fetchMock.mockResolvedValue(json(200, validDynamicDataResponse));
+
+            const result = await client.createDynamicData(validDynamicData, { upsert: true });
+
+            expect(result).toEqual(validDynamicDataResponse);
+            const { url, init } = lastRequest();
+            expect(init.method).toBe('POST');
+            expect(url.pathname).toBe('/api/skilifts/dynamic');
+            expect(url.searchParams.get('upsert')).toBe('true');
+            expect(JSON.parse(init.body as string)).toEqual(validDynamicData);
+        });
+
+        it('should encode path segments and omit unset query parameters', async () => {
+            fetchMock.mockResolvedValue(json(200, { items: [], count: 0 }));
+
+            await client.queryByRiders('Summit Express', { minRiders: 100 });
+
+            const { url } = lastRequest();
+            expect(url.pathname).toBe('/api/skilifts/Summit%20Express/by-riders');
+            expect(url.search).toBe('?minRiders=100');
+        });
+
+        it('should address resort-scoped routes when given a resortId', async () => {
+            const resortClient = new SkiLiftClient({
+                baseUrl: 'http://api.test',
+                resortId: 'whistler',
+                fetch: fetchMock as unknown as typeof fetch,
+            });
+            fetchMock.mockResolvedValue(json(200, validStaticDataResponse));
+
+            await resortClient.getSkiLift('Summit Express', 'Static Data');
+
+            expect(lastRequest().url.pathname).toBe(
+                '/api/resorts/whistler/skilifts/Summit%20Express/Static%20Data'
+            );
+        });
+
+        it('should send the expected version as If-Match', async () => {
+            fetchMock.mockResolvedValue(json(200, validStaticDataResponse));
+
+            await client.updateStaticData(
+                'Summit Express',
+                { VerticalFeet: 3000 },
+                { expectedVersion: 3 }
+            );
+
+            const { init } = lastRequest();
+            expect((init.headers as Record<string, string>)['If-Match']).toBe('"3"');
+        });
+
+        it('should send status overrides with their reason', async () => {
+            fetchMock.mockResolvedValue(json(200, validDynamicDataResponse));
+
+            await client.updateDynamicData(
+                'Summit Express',
+                '2024-01-15',
+                { LiftStatus: 'Pending' },
+                { override: true, reason: 'Closed by mistake' }
+            );
+
+            const { url } = lastRequest();
+            expect(url.searchParams.get('override')).toBe('true');
+            expect(url.searchParams.get('reason')).toBe('Closed by mistake');
+        });
+
+        it('should resolve deletes without a body', async () => {
+            fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+            await expect(
+                client.deleteSkiLift('Summit Express', 'Static Data')
+            ).resolves.toBeUndefined();
+        });
+
+        it('should send rider increments', async () => {
+            fetchMock.mockResolvedValue(json(200, validDynamicDataResponse));
+
+            await client.incrementRiders('Summit Express', '2024-01-15', 4);
+
+            const { url, init } = lastRequest();
+            expect(init.method).toBe('POST');
+            expect(url.pathname).toBe(
+                '/api/skilifts/Summit%20Express/2024-01-15/riders/increment'
+            );
+            expect(JSON.parse(init.body as string)).toEqual({ by: 4 });
+        });
+
+        it('should confirm decommissioning a lift and read its progress', async () => {
+            const tombstone = {
+                Lift: 'Summit Express',
+                Metadata: 'Decommissioned',
+                DecommissionedAt: '2024-01-15T09:00:00.000Z',
+                DecommissionStatus: 'InProgress',
+                DeletedRecords: 0,
+                Version: 1,
+            };
+            fetchMock
+                .mockResolvedValueOnce(json(202, tombstone))
+                .mockResolvedValueOnce(json(200, { ...tombstone, DeletedRecords: 12 }));
+
+            const started = await client.decommissionLift('Summit Express');
+            const { url, init } = lastRequest();
+            const progress = await client.getDecommission('Summit Express');
+
+            expect(init.method).toBe('DELETE');
+            expect(url.pathname).toBe('/api/skilifts/Summit%20Express');
+            expect(url.search).toBe('?confirm=true');
+            expect(started.DecommissionStatus).toBe('InProgress');
+            expect(lastRequest().url.pathname).toBe('/api/skilifts/Summit%20Express/Decommissioned');
+            expect(progress.DeletedRecords).toBe(12);
+        });
+
+        it('should restore and read deleted records', async () => {
+            fetchMock
+                .mockResolvedValueOnce(json(200, validStaticDataResponse))
+                .mockResolvedValueOnce(json(200, validStaticDataResponse));
+
+            await client.restoreSkiLift('Summit Express', 'Static Data', { expectedVersion: 2 });
+            const restore = lastRequest();
+            await client.getSkiLift('Summit Express', 'Static Data', { includeDeleted: true });
+
+            expect(restore.init.method).toBe('POST');
+            expect(restore.url.pathname).toBe(
+                '/api/skilifts/Summit%20Express/Static%20Data/restore'
+            );
+            expect(lastRequest().url.search).toBe('?includeDeleted=true');
+        });
+    });
+
+    describe('pagination', () => {
+        it('should iterate every page following nextCursor', async () => {
+            fetchMock
+                .mockResolvedValueOnce(
+                    json(200, { items: multipleLifts.slice(0, 2), nextCursor: 'next', count: 2 })
+                )
+                .mockResolvedValueOnce(json(200, { items: multipleLifts.slice(2), count: 1 }));
+
+            const items = [];
+            for await (const item of client.iterateSkiLifts({ limit: 2 })) {
+                items.push(item);
+            }
+
+            expect(items).toEqual(multipleLifts);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+            expect(lastRequest().url.searchParams.get('cursor')).toBe('next');
+        });
+    });
+
+    describe('errors', () => {
+        it.each([
+            [404, 'NOT_FOUND', NotFoundError],
+            [400, 'VALIDATION_ERROR', ValidationError],
+            [401, 'UNAUTHORIZED', UnauthorizedError],
+            [403, 'FORBIDDEN', ForbiddenError],
+            [409, 'CONFLICT', ConflictError],
+            [412, 'PRECONDITION_FAILED', PreconditionFailedError],
+        ])('should map %i %s to its error class', async (status, code, ErrorClass) => {
+            fetchMock.mockResolvedValue(json(status, errorBody(status, code, 'Nope')));
+
+            const error = await client.getSkiLift('Summit Express', 'Static Data').catch((e) => e);
+
+            expect(error).toBeInstanceOf(ErrorClass);
+            expect(error).toBeInstanceOf(ApiError);
+            expect(error).toMatchObject({
+                message: 'Nope',
+                statusCode: status,
+                code,
+                requestId: 'req-1',
+            });
+        });
+
+        it('should fall back to ApiError for unknown codes', async () => {
+            fetchMock.mockResolvedValue(new Response('Teapot', { status: 418 }));
+
+            const error = await client.listSkiLifts().catch((e) => e);
+
+            expect(error.constructor).toBe(ApiError);
+            expect(error.statusCode).toBe(418);
+        });
+    });
+
+    describe('retries', () => {
+        it('should retry 5xx responses and return the eventual success', async () => {
+            fetchMock
+                .mockResolvedValueOnce(json(500, errorBody(500, 'DYNAMODB_ERROR')))
+                .mockResolvedValueOnce(new Response('Bad Gateway', { status: 502 }))
+                .mockResolvedValueOnce(json(200, validStaticDataResponse));
+
+            const result = await client.getSkiLift('Summit Express', 'Static Data');
+
+            expect(result).toEqual(validStaticDataResponse);
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+        });
+
+        it('should throw ServerError once retries are exhausted', async () => {
+            fetchMock.mockImplementation(async () => json(500, errorBody(500, 'DYNAMODB_ERROR')));
+
+            await expect(client.getSkiLift('Summit Express', 'Static Data')).rejects.toThrow(
+                ServerError
+            );
+            expect(fetchMock).toHaveBeenCalledTimes(4);
+        });
+
+        it('should retry 429 responses and throw TooManyRequestsError when exhausted', async () => {
+            fetchMock.mockImplementation(async () =>
+                json(429, errorBody(429, 'TOO_MANY_REQUESTS'))
+            );
+
+            await expect(client.listSkiLifts()).rejects.toThrow(TooManyRequestsError);
+            expect(fetchMock).toHaveBeenCalledTimes(4);
+        });
+
+        it('should not resend a create after a 5xx', async () => {
+            fetchMock.mockResolvedValue(json(500, errorBody(500, 'DYNAMODB_ERROR')));
+
+            await expect(client.createDynamicData(validDynamicData)).rejects.toThrow(ServerError);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should resend a create that was throttled', async () => {
+            fetchMock
+                .mockResolvedValueOnce(json(503, errorBody(503, 'DYNAMODB_THROTTLED')))
+                .mockResolvedValueOnce(json(429, errorBody(429, 'TOO_MANY_REQUESTS')))
+                .mockResolvedValueOnce(json(201, validDynamicDataResponse));
+
+            const result = await client.createDynamicData(validDynamicData);
+
+            expect(result).toEqual(validDynamicDataResponse);
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+        });
+
+        it('should never resend a rider increment', async () => {
+            fetchMock.mockResolvedValue(json(429, errorBody(429, 'TOO_MANY_REQUESTS')));
+
+            await expect(
+                client.incrementRiders('Summit Express', '2024-01-15', 4)
+            ).rejects.toThrow(TooManyRequestsError);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not retry 4xx responses', async () => {
+            fetchMock.mockResolvedValue(json(409, errorBody(409, 'CONFLICT')));
+
+            await expect(client.createDynamicData(validDynamicData)).rejects.toThrow(
+                ConflictError
+            );
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,393 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+    InMemoryAuditRepository,
+    InMemorySkiLiftRepository,
+} from '../../../src/repositories/memory.repository.js';
+import type { ItemKey } from '../../../src/repositories/skilift.repository.js';
+import { SkiLiftService } from '../../../src/services/skilift.service.js';
+import {
+    ConflictError,
+    PreconditionFailedError,
+} from '../../../src/utils/error-handler.js';
+import {
+    validDynamicData,
+    validDynamicDataResponse,
+    validStaticDataResponse,
+} from '../../helpers/mock-data.js';
+
+const day = (lift: string, metadata: string, riders: number) => ({
+    ...validDynamicDataResponse,
+    Lift: lift,
+    Metadata: metadata,
+    TotalUniqueLiftRiders: riders,
+});
+
+describe('InMemorySkiLiftRepository', () => {
+    let repository: InMemorySkiLiftRepository;
+
+    beforeEach(() => {
+        repository = new InMemorySkiLiftRepository();
+    });
+
+    describe('put and get', () => {
+        it('should store and return a copy of the record', async () => {
+            await repository.put(validStaticDataResponse);
+
+            const item = await repository.get({
+                Lift: 'Summit Express',
+                Metadata: 'Static Data',
+            });
+
+            expect(item).toEqual(validStaticDataResponse);
+            expect(item).not.toBe(validStaticDataResponse);
+        });
+
+        it('should reject an existing key when ifNotExists is set', async () => {
+            await repository.put(validStaticDataResponse);
+
+            await expect(
+                repository.put(validStaticDataResponse, { ifNotExists: true })
+            ).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+        });
+    });
+
+    describe('update', () => {
+        it('should create a missing record at version 1', async () => {
+            const { item, previous } = await repository.update(
+                { Lift: 'Summit Express', Metadata: '2024-01-15' },
+                { set: { LiftStatus: 'Open', AvalancheDanger: undefined } }
+            );
+
+            expect(previous).toBeUndefined();
+            expect(item).toEqual({
+                Lift: 'Summit Express',
+                Metadata: '2024-01-15',
+                LiftStatus: 'Open',
+                Version: 1,
+            });
+        });
+
+        it('should enforce the expected version', async () => {
+            await repository.put(validStaticDataResponse);
+            const key = { Lift: 'Summit Express', Metadata: 'Static Data' };
+
+            const updated = await repository.update(
+                key,
+                { set: { VerticalFeet: 3000 } },
+                { expectedVersion: 1 }
+            );
+            expect(updated.item).toMatchObject({ VerticalFeet: 3000, Version: 2 });
+            expect(updated.previous).toEqual(validStaticDataResponse);
+
+            await expect(
+                repository.update(key, { set: { VerticalFeet: 3100 } }, { expectedVersion: 1 })
+            ).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+        });
+
+        it('should add to numbers and set defaults only where absent', async () => {
+            const key = { Lift: 'Summit Express', Metadata: '2024-01-15' };
+            const changes = {
+                set: {},
+                add: { TotalUniqueLiftRiders: 2 },
+                defaults: { LiftStatus: 'Pending' },
+            };
+
+            const created = await repository.update(key, changes);
+            await repository.update(key, { set: { LiftStatus: 'Open' } });
+            const updated = await repository.update(key, changes);
+
+            expect(created.item).toMatchObject({ TotalUniqueLiftRiders: 2, LiftStatus: 'Pending' });
+            expect(updated.item).toMatchObject({
+                TotalUniqueLiftRiders: 4,
+                LiftStatus: 'Open',
+                Version: 3,
+            });
+        });
+
+        it('should treat unversioned records as version 0', async () => {
+            const { Version, ...legacy } = validStaticDataResponse;
+            await repository.put(legacy as any);
+
+            const updated = await repository.update(
+                { Lift: 'Summit Express', Metadata: 'Static Data' },
+                { set: { LiftTime: '9:00' } },
+                { expectedVersion: 0 }
+            );
+
+            expect(updated.item.Version).toBe(1);
+        });
+    });
+
+    describe('put and delete', () => {
+        it('should return the record they replaced or removed', async () => {
+            const key = { Lift: 'Summit Express', Metadata: 'Static Data' };
+
+            expect(await repository.put(validStaticDataResponse)).toBeUndefined();
+            expect(
+                await repository.put({ ...validStaticDataResponse, VerticalFeet: 3000, Version: 2 })
+            ).toEqual(validStaticDataResponse);
+            expect(await repository.delete(key)).toMatchObject({ VerticalFeet: 3000 });
+            expect(await repository.delete(key)).toBeUndefined();
+        });
+    });
+
+    describe('delete', () => {
+        it('should require an existing record when a version is expected', async () => {
+            await expect(
+                repository.delete(
+                    { Lift: 'Summit Express', Metadata: 'Static Data' },
+                    { expectedVersion: 1 }
+                )
+            ).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+        });
+    });
+
+    describe('queryPartition', () => {
+        beforeEach(async () => {
+            await repository.batchPut([
+                day('Summit Express', '2024-01-16', 100),
+                day('Summit Express', '2024-01-14', 300),
+                day('Summit Express', '2024-01-15', 200),
+                day('Other Lift', '2024-01-15', 50),
+            ]);
+        });
+
+        it('should return only the partition in sort key order', async () => {
+            const page = await repository.queryPartition({ lift: 'Summit Express' });
+
+            expect(page.items.map((item) => item.Metadata)).toEqual([
+                '2024-01-14',
+                '2024-01-15',
+                '2024-01-16',
+            ]);
+            expect(page.lastEvaluatedKey).toBeUndefined();
+        });
+
+        it('should apply an inclusive sort key range', async () => {
+            const page = await repository.queryPartition({
+                lift: 'Summit Express',
+                between: { from: '2024-01-15', to: '2024-01-16' },
+            });
+
+            expect(page.count).toBe(2);
+        });
+
+        it('should paginate with limit and exclusiveStartKey', async () => {
+            const first = await repository.queryPartition({ lift: 'Summit Express', limit: 2 });
+            expect(first.items).toHaveLength(2);
+            expect(first.lastEvaluatedKey).toEqual({
+                Lift: 'Summit Express',
+                Metadata: '2024-01-15',
+            });
+
+            const second = await repository.queryPartition({
+                lift: 'Summit Express',
+                limit: 2,
+                exclusiveStartKey: first.lastEvaluatedKey,
+            });
+            expect(second.items.map((item) => item.Metadata)).toEqual(['2024-01-16']);
+            expect(second.lastEvaluatedKey).toBeUndefined();
+        });
+
+        it('should resume after a start key whose record was deleted between pages', async () => {
+            const first = await repository.queryPartition({ lift: 'Summit Express', limit: 2 });
+            await repository.delete(first.lastEvaluatedKey as ItemKey);
+
+            const second = await repository.queryPartition({
+                lift: 'Summit Express',
+                limit: 2,
+                exclusiveStartKey: first.lastEvaluatedKey,
+            });
+
+            expect(second.items.map((item) => item.Metadata)).toEqual(['2024-01-16']);
+        });
+    });
+
+    describe('queryByRiders', () => {
+        beforeEach(async () => {
+            await repository.batchPut([
+                validStaticDataResponse,
+                day('Summit Express', '2024-01-14', 300),
+                day('Summit Express', '2024-01-15', 100),
+                day('Summit Express', '2024-01-16', 200),
+            ]);
+        });
+
+        it('should order by riders descending and skip records without riders', async () => {
+            const page = await repository.queryByRiders({ lift: 'Summit Express' });
+
+            expect(page.items).toEqual([
+                { Lift: 'Summit Express', Metadata: '2024-01-14', TotalUniqueLiftRiders: 300 },
+                { Lift: 'Summit Express', Metadata: '2024-01-16', TotalUniqueLiftRiders: 200 },
+                { Lift: 'Summit Express', Metadata: '2024-01-15', TotalUniqueLiftRiders: 100 },
+            ]);
+        });
+
+        it('should filter by rider range and paginate with index keys', async () => {
+            const first = await repository.queryByRiders({
+                lift: 'Summit Express',
+                minRiders: 150,
+                limit: 1,
+            });
+            expect(first.lastEvaluatedKey).toEqual({
+                Lift: 'Summit Express',
+                Metadata: '2024-01-14',
+                TotalUniqueLiftRiders: 300,
+            });
+
+            const second = await repository.queryByRiders({
+                lift: 'Summit Express',
+                minRiders: 150,
+                limit: 1,
+                exclusiveStartKey: first.lastEvaluatedKey,
+            });
+            expect(second.items[0].Metadata).toBe('2024-01-16');
+            expect(second.lastEvaluatedKey).toBeUndefined();
+        });
+
+        it('should resume by the index keys after the start record has moved', async () => {
+            const first = await repository.queryByRiders({ lift: 'Summit Express', limit: 1 });
+            await repository.put(day('Summit Express', '2024-01-14', 50));
+
+            const second = await repository.queryByRiders({
+                lift: 'Summit Express',
+                exclusiveStartKey: first.lastEvaluatedKey,
+            });
+
+            expect(second.items.map((item) => item.TotalUniqueLiftRiders)).toEqual([200, 100, 50]);
+        });
+    });
+
+    describe('scan', () => {
+        it('should apply the limit before the metadata filter', async () => {
+            await repository.batchPut([
+                day('A Lift', '2024-01-14', 1),
+                day('A Lift', '2024-01-15', 1),
+                day('B Lift', '2024-01-15', 1),
+            ]);
+
+            const page = await repository.scan({ metadata: '2024-01-15', limit: 1 });
+
+            expect(page.items).toHaveLength(0);
+            expect(page.lastEvaluatedKey).toEqual({ Lift: 'A Lift', Metadata: '2024-01-14' });
+        });
+
+        it('should keep any of several metadata values', async () => {
+            await repository.batchPut([
+                day('A Lift', '2024-01-14', 1),
+                day('A Lift', '2024-01-15', 1),
+                day('B Lift', '2024-01-16', 1),
+            ]);
+
+            const page = await repository.scan({ metadata: ['2024-01-14', '2024-01-16'] });
+
+            expect(page.items.map((item) => item.Metadata)).toEqual(['2024-01-14', '2024-01-16']);
+        });
+    });
+
+    describe('batchDelete', () => {
+        it('should delete every key and leave nothing unprocessed', async () => {
+            await repository.batchPut([
+                day('A Lift', '2024-01-14', 1),
+                day('A Lift', '2024-01-15', 1),
+            ]);
+
+            const unprocessed = await repository.batchDelete([
+                { Lift: 'A Lift', Metadata: '2024-01-14' },
+                { Lift: 'A Lift', Metadata: '2024-01-13' },
+            ]);
+
+            expect(unprocessed).toEqual([]);
+            const page = await repository.queryPartition({ lift: 'A Lift' });
+            expect(page.items.map((item) => item.Metadata)).toEqual(['2024-01-15']);
+        });
+    });
+
+    describe('transactWrite', () => {
+        it('should apply nothing when any condition fails', async () => {
+            await repository.put(day('Lift 1', '2024-01-15', 10));
+
+            await expect(
+                repository.transactWrite([
+                    { put: day('Lift 2', '2024-01-15', 20), condition: { ifNotExists: true } },
+                    {
+                        conditionCheck: { Lift: 'Lift 1', Metadata: '2024-01-15' },
+                        condition: { expectedVersion: 7 },
+                    },
+                ])
+            ).rejects.toMatchObject({ name: 'TransactionCanceledException' });
+            expect(await repository.get({ Lift: 'Lift 2', Metadata: '2024-01-15' })).toBeUndefined();
+        });
+    });
+
+    describe('with SkiLiftService', () => {
+        it('should map condition failures to service errors', async () => {
+            const service = new SkiLiftService(repository);
+
+            await service.createDynamicData(validDynamicData);
+            await expect(service.createDynamicData(validDynamicData)).rejects.toThrow(
+                ConflictError
+            );
+            await expect(
+                service.updateDynamicData(
+                    validDynamicData.Lift,
+                    validDynamicData.Metadata,
+                    { LiftStatus: 'Closed' },
+                    { expectedVersion: 5 }
+                )
+            ).rejects.toThrow(PreconditionFailedError);
+        });
+    });
+});
+
+describe('InMemoryAuditRepository', () => {
+    const key = { Lift: 'Summit Express', Metadata: '2024-01-15' };
+    const entry = (changedAt: string, lift = key.Lift) => ({
+        AuditId: `${changedAt}#id`,
+        Lift: lift,
+        Metadata: key.Metadata,
+        ChangedAt: changedAt,
+        Action: 'update' as const,
+        Actor: 'apiKey:ops',
+        Changes: {},
+    });
+
+    let audit: InMemoryAuditRepository;
+
+    beforeEach(async () => {
+        audit = new InMemoryAuditRepository();
+        await audit.append([
+            entry('2024-01-15T08:00:00.000Z'),
+            entry('2024-01-15T10:00:00.000Z'),
+            entry('2024-01-15T09:00:00.000Z'),
+            entry('2024-01-15T11:00:00.000Z', 'Other Lift'),
+        ]);
+    });
+
+    it('should return one record\'s entries newest first', async () => {
+        const page = await audit.query({ key });
+
+        expect(page.items.map((item) => item.ChangedAt)).toEqual([
+            '2024-01-15T10:00:00.000Z',
+            '2024-01-15T09:00:00.000Z',
+            '2024-01-15T08:00:00.000Z',
+        ]);
+        expect(page.lastEvaluatedKey).toBeUndefined();
+    });
+
+    it('should paginate with limit and exclusiveStartKey', async () => {
+        const first = await audit.query({ key, limit: 2 });
+        expect(first.lastEvaluatedKey).toEqual({
+            RecordKey: 'Summit Express#2024-01-15',
+            AuditId: '2024-01-15T09:00:00.000Z#id',
+        });
+
+        const second = await audit.query({
+            key,
+            limit: 2,
+            exclusiveStartKey: first.lastEvaluatedKey,
+        });
+        expect(second.items.map((item) => item.ChangedAt)).toEqual(['2024-01-15T08:00:00.000Z']);
+        expect(second.lastEvaluatedKey).toBeUndefined();
+    });
+});
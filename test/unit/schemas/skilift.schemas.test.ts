@@ -2,8 +2,11 @@ import { describe, expect, it } from 'vitest';
 import { ZodError } from 'zod';
 import {
     createDynamicDataSchema,
+    createQuerySchema,
     createResortDataSchema,
     createStaticDataSchema,
+    historyQuerySchema,
+    liftMetadataParamsSchema,
     listQuerySchema,
     queryByRidersSchema,
     updateDynamicDataSchema,
@@ -123,6 +126,22 @@ describe('SkiLift Schemas', () => {
             expect(result.success).toBe(false);
         });
 
+        it('should normalize legacy MM/DD/YY metadata to ISO', () => {
+            const result = createDynamicDataSchema.parse({
+                ...validDynamicData,
+                Metadata: '01/15/24',
+            });
+            expect(result.Metadata).toBe('2024-01-15');
+        });
+
+        it('should reject dates that do not exist', () => {
+            const result = createDynamicDataSchema.safeParse({
+                ...validDynamicData,
+                Metadata: '2024-02-30',
+            });
+            expect(result.success).toBe(false);
+        });
+
         it('should reject negative riders', () => {
             const result = createDynamicDataSchema.safeParse({
                 ...validDynamicData,
@@ -250,17 +269,33 @@ describe('SkiLift Schemas', () => {
         });
     });
 
+    describe('createQuerySchema', () => {
+        it('should default upsert to false', () => {
+            const result = createQuerySchema.parse({});
+            expect(result.upsert).toBe(false);
+        });
+
+        it('should parse upsert=true', () => {
+            const result = createQuerySchema.parse({ upsert: 'true' });
+            expect(result.upsert).toBe(true);
+        });
+
+        it('should reject values other than true or false', () => {
+            const result = createQuerySchema.safeParse({ upsert: '1' });
+            expect(result.success).toBe(false);
+        });
+    });
+
     describe('listQuerySchema', () => {
         it('should validate with only limit', () => {
             const result = listQuerySchema.safeParse({ limit: 20 });
             expect(result.success).toBe(true);
         });
 
-        it('should validate with pagination keys', () => {
+        it('should validate with a cursor', () => {
             const result = listQuerySchema.safeParse({
                 limit: 10,
-                lastEvaluatedLift: 'Summit Express',
-                lastEvaluatedMetadata: 'Static Data',
+                cursor: 'eyJzIjoic2NhbiJ9.c2lnbmF0dXJl',
             });
             expect(result.success).toBe(true);
         });
@@ -283,17 +318,61 @@ describe('SkiLift Schemas', () => {
             expect(result.success).toBe(false);
         });
 
-        it('should allow empty pagination keys', () => {
+        it('should allow an empty cursor', () => {
             const result = listQuerySchema.safeParse({
                 limit: 20,
-                lastEvaluatedLift: '',
-                lastEvaluatedMetadata: '',
+                cursor: '',
             });
             // Empty strings are allowed as optional fields
             expect(result.success).toBe(true);
         });
     });
 
+    describe('liftMetadataParamsSchema', () => {
+        it('should normalize legacy dates and keep the original', () => {
+            const result = liftMetadataParamsSchema.parse({ lift: 'Lift 3', metadata: '01/15/24' });
+            expect(result).toEqual({
+                lift: 'Lift 3',
+                metadata: '2024-01-15',
+                legacyMetadata: '01/15/24',
+            });
+        });
+
+        it('should pass other sort keys through unchanged', () => {
+            const result = liftMetadataParamsSchema.parse({
+                lift: 'Lift 3',
+                metadata: 'Static Data',
+            });
+            expect(result).toEqual({
+                lift: 'Lift 3',
+                metadata: 'Static Data',
+                legacyMetadata: undefined,
+            });
+        });
+    });
+
+    describe('historyQuerySchema', () => {
+        it('should accept ISO and legacy dates', () => {
+            const result = historyQuerySchema.parse({ from: '01/05/24', to: '2024-02-10' });
+            expect(result).toMatchObject({ from: '2024-01-05', to: '2024-02-10', limit: 20 });
+        });
+
+        it('should accept a single-day range', () => {
+            const result = historyQuerySchema.safeParse({ from: '2024-01-05', to: '2024-01-05' });
+            expect(result.success).toBe(true);
+        });
+
+        it('should reject a reversed range', () => {
+            const result = historyQuerySchema.safeParse({ from: '2024-02-10', to: '2024-01-05' });
+            expect(result.success).toBe(false);
+        });
+
+        it('should require both ends of the range', () => {
+            const result = historyQuerySchema.safeParse({ from: '2024-01-05' });
+            expect(result.success).toBe(false);
+        });
+    });
+
     describe('queryByRidersSchema', () => {
         it('should validate with minRiders only', () => {
             const result = queryByRidersSchema.safeParse({
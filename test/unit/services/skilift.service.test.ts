@@ -1,16 +1,35 @@
 import {
+    BatchGetCommand,
+    BatchWriteCommand,
     DynamoDBDocumentClient,
     DeleteCommand,
     GetCommand,
     PutCommand,
     QueryCommand,
     ScanCommand,
+    TransactWriteCommand,
     UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { mockClient } from 'aws-sdk-client-mock';
 import { beforeEach, describe, expect, it } from 'vitest';
+import { DynamoDBSkiLiftRepository } from '../../../src/repositories/dynamodb.repository.js';
+import {
+    InMemoryAuditRepository,
+    InMemorySkiLiftRepository,
+} from '../../../src/repositories/memory.repository.js';
 import { SkiLiftService } from '../../../src/services/skilift.service.js';
-import { DynamoDBError, NotFoundError } from '../../../src/utils/error-handler.js';
+import { AuditTrail } from '../../../src/utils/audit.js';
+import { ChangeFeed } from '../../../src/utils/change-feed.js';
+import type { ChangeEvent } from '../../../src/utils/change-feed.js';
+import { decodeCursor, encodeCursor } from '../../../src/utils/cursor.js';
+import {
+    ConfigurationError,
+    ConflictError,
+    DynamoDBError,
+    NotFoundError,
+    PreconditionFailedError,
+    ValidationError,
+} from '../../../src/utils/error-handler.js';
 import {
     closedLiftDynamicData,
     experiencedOnlyStaticData,
@@ -40,7 +59,7 @@ describe('SkiLiftService', () => {
 
     beforeEach(() => {
         mockDynamoDB.reset();
-        service = new SkiLiftService(mockDynamoDB as any);
+        service = new SkiLiftService(new DynamoDBSkiLiftRepository(mockDynamoDB as any));
     });
 
     describe('createStaticData', () => {
@@ -55,7 +74,38 @@ describe('SkiLiftService', () => {
             expect(call.args[0].input).toMatchObject({
                 TableName: 'SkiLifts',
                 Item: validStaticDataResponse,
+                ConditionExpression: 'attribute_not_exists(Lift)',
+            });
+        });
+
+        it('should throw ConflictError when the record already exists', async () => {
+            mockDynamoDB
+                .on(PutCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            await expect(service.createStaticData(validStaticData)).rejects.toThrow(
+                ConflictError
+            );
+        });
+
+        it('should replace an existing record in upsert mode', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .resolves(createUpdateResponse({ ...validStaticDataResponse, Version: 1 }));
+
+            const result = await service.createStaticData(validStaticData, { upsert: true });
+
+            expect(result.Version).toBe(2);
+            expect(mockDynamoDB.commandCalls(PutCommand)).toHaveLength(0);
+            const input = mockDynamoDB.call(0).args[0].input as any;
+            expect(input.Key).toEqual({ Lift: 'Summit Express', Metadata: 'Static Data' });
+            expect(input.ConditionExpression).toBeUndefined();
+            expect(input.ExpressionAttributeValues).toMatchObject({
+                ':ExperiencedRidersOnly': false,
+                ':VerticalFeet': 2500,
+                ':LiftTime': '8:00',
             });
+            expect(input.ExpressionAttributeNames).not.toHaveProperty('#Lift');
         });
 
         it('should create static data for experienced riders only lift', async () => {
@@ -88,6 +138,16 @@ describe('SkiLiftService', () => {
             expect(mockDynamoDB.calls()).toHaveLength(1);
         });
 
+        it('should refuse to overwrite an existing day', async () => {
+            mockDynamoDB
+                .on(PutCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            await expect(service.createDynamicData(validDynamicData)).rejects.toThrow(
+                'Ski lift data already exists for Summit Express - 2024-01-15'
+            );
+        });
+
         it('should create dynamic data for closed lift', async () => {
             mockDynamoDB.on(PutCommand).resolves(createPutResponse());
 
@@ -117,6 +177,143 @@ describe('SkiLiftService', () => {
         });
     });
 
+    describe('createDynamicDataBatch', () => {
+        const batchRows = Array.from({ length: 30 }, (_, i) => ({
+            ...validDynamicData,
+            Lift: `Lift ${i + 1}`,
+        }));
+
+        it('should write items in chunks of 25', async () => {
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            const results = await service.createDynamicDataBatch(batchRows);
+
+            const calls = mockDynamoDB.commandCalls(BatchWriteCommand);
+            expect(calls).toHaveLength(2);
+            expect(calls[0].args[0].input.RequestItems?.SkiLifts).toHaveLength(25);
+            expect(calls[1].args[0].input.RequestItems?.SkiLifts).toHaveLength(5);
+            expect(results).toHaveLength(30);
+            expect(results.every((r) => r.status === 'created')).toBe(true);
+            expect(results[29]).toMatchObject({ index: 29, Lift: 'Lift 30' });
+        });
+
+        it('should retry unprocessed items', async () => {
+            const unprocessedItem = { ...validDynamicDataResponse, Lift: 'Lift 2' };
+            mockDynamoDB
+                .on(BatchWriteCommand)
+                .resolvesOnce({
+                    UnprocessedItems: {
+                        SkiLifts: [{ PutRequest: { Item: unprocessedItem } }],
+                    },
+                })
+                .resolves({ UnprocessedItems: {} });
+
+            const results = await service.createDynamicDataBatch(batchRows.slice(0, 3));
+
+            const calls = mockDynamoDB.commandCalls(BatchWriteCommand);
+            expect(calls).toHaveLength(2);
+            expect(calls[1].args[0].input.RequestItems?.SkiLifts).toEqual([
+                { PutRequest: { Item: unprocessedItem } },
+            ]);
+            expect(results.map((r) => r.status)).toEqual(['created', 'created', 'created']);
+        });
+
+        it('should report duplicate keys as failed', async () => {
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            const results = await service.createDynamicDataBatch([
+                validDynamicData,
+                validDynamicData,
+            ]);
+
+            expect(results[0].status).toBe('created');
+            expect(results[1]).toMatchObject({
+                status: 'failed',
+                reason: 'Duplicate Lift and Metadata in batch',
+            });
+        });
+
+        it('should report a failed chunk without failing the others', async () => {
+            mockDynamoDB
+                .on(BatchWriteCommand)
+                .rejectsOnce(createDynamoDBError('ValidationException', 'Item too large'))
+                .resolves({ UnprocessedItems: {} });
+
+            const results = await service.createDynamicDataBatch(batchRows);
+
+            expect(results.slice(0, 25).every((r) => r.reason === 'Item too large')).toBe(true);
+            expect(results.slice(25).every((r) => r.status === 'created')).toBe(true);
+        });
+
+        it('should fail rows for days that already exist instead of replacing them', async () => {
+            mockDynamoDB.on(BatchGetCommand).resolves({
+                Responses: { SkiLifts: [{ ...validDynamicDataResponse, Lift: 'Lift 2' }] },
+            });
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            const results = await service.createDynamicDataBatch(batchRows.slice(0, 3));
+
+            expect(results.map((r) => r.status)).toEqual(['created', 'failed', 'created']);
+            expect(results[1].reason).toBe('Ski lift data already exists for Lift 2 - 2024-01-15');
+            const [get] = mockDynamoDB.commandCalls(BatchGetCommand);
+            expect(get.args[0].input.RequestItems?.SkiLifts).toMatchObject({
+                ConsistentRead: true,
+            });
+            const [write] = mockDynamoDB.commandCalls(BatchWriteCommand);
+            expect(write.args[0].input.RequestItems?.SkiLifts).toHaveLength(2);
+        });
+
+        it('should retry unprocessed keys and fail the chunk when they cannot be read', async () => {
+            mockDynamoDB
+                .on(BatchGetCommand)
+                .resolvesOnce({
+                    UnprocessedKeys: {
+                        SkiLifts: { Keys: [{ Lift: 'Lift 1', Metadata: '2024-01-15' }] },
+                    },
+                })
+                .resolves({})
+                .on(BatchGetCommand, {
+                    RequestItems: {
+                        SkiLifts: { Keys: [{ Lift: 'Lift 26', Metadata: '2024-01-15' }] },
+                    },
+                })
+                .rejects(createDynamoDBError('ServiceUnavailable', 'Service down'));
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            const results = await service.createDynamicDataBatch(batchRows.slice(0, 26));
+
+            expect(mockDynamoDB.commandCalls(BatchGetCommand)).toHaveLength(3);
+            expect(results.slice(0, 25).every((r) => r.status === 'created')).toBe(true);
+            expect(results[25]).toMatchObject({
+                status: 'failed',
+                reason: 'Failed to check for existing data',
+            });
+        });
+
+        it('should keep existing and deleted days as they are', async () => {
+            const memoryService = new SkiLiftService(new InMemorySkiLiftRepository());
+            await memoryService.createDynamicData({ ...validDynamicData, LiftStatus: 'Pending' });
+            await memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                LiftStatus: 'Closed',
+            });
+            await memoryService.createDynamicData({ ...validDynamicData, Metadata: '2024-01-16' });
+            await memoryService.deleteSkiLift('Summit Express', '2024-01-16');
+
+            const results = await memoryService.createDynamicDataBatch([
+                validDynamicData,
+                { ...validDynamicData, Metadata: '2024-01-16' },
+            ]);
+
+            expect(results.map((r) => r.reason)).toEqual([
+                'Ski lift data already exists for Summit Express - 2024-01-15',
+                'Ski lift data for Summit Express - 2024-01-16 is deleted, restore it first',
+            ]);
+            await expect(
+                memoryService.getSkiLift('Summit Express', '2024-01-15')
+            ).resolves.toMatchObject({ LiftStatus: 'Closed', Version: 2, StatusTimeline: [{}] });
+        });
+    });
+
     describe('createResortData', () => {
         it('should create resort data successfully', async () => {
             mockDynamoDB.on(PutCommand).resolves(createPutResponse());
@@ -147,6 +344,42 @@ describe('SkiLiftService', () => {
         });
     });
 
+    describe('resolveMetadata', () => {
+        it('should return non-legacy keys without a lookup', async () => {
+            const metadata = await service.resolveMetadata({
+                lift: 'Summit Express',
+                metadata: 'Static Data',
+            });
+
+            expect(metadata).toBe('Static Data');
+            expect(mockDynamoDB.calls()).toHaveLength(0);
+        });
+
+        it('should prefer the migrated ISO key when it exists', async () => {
+            mockDynamoDB.on(GetCommand).resolves(createSuccessResponse({ Lift: 'Summit Express' }));
+
+            const metadata = await service.resolveMetadata({
+                lift: 'Summit Express',
+                metadata: '2024-01-15',
+                legacyMetadata: '01/15/24',
+            });
+
+            expect(metadata).toBe('2024-01-15');
+        });
+
+        it('should fall back to the legacy key before migration', async () => {
+            mockDynamoDB.on(GetCommand).resolves({ Item: undefined });
+
+            const metadata = await service.resolveMetadata({
+                lift: 'Summit Express',
+                metadata: '2024-01-15',
+                legacyMetadata: '01/15/24',
+            });
+
+            expect(metadata).toBe('01/15/24');
+        });
+    });
+
     describe('getSkiLift', () => {
         it('should get ski lift data successfully', async () => {
             mockDynamoDB
@@ -202,7 +435,7 @@ describe('SkiLiftService', () => {
             const liftData = multipleLifts.slice(0, 5);
             mockDynamoDB.on(QueryCommand).resolves(createQueryResponse(liftData));
 
-            const result = await service.queryLiftData('Summit Express', 5);
+            const result = await service.queryLiftData('Summit Express', { limit: 5 });
 
             const call = mockDynamoDB.call(0);
             expect((call.args[0].input as any).Limit).toBe(5);
@@ -216,7 +449,31 @@ describe('SkiLiftService', () => {
 
             const result = await service.queryLiftData('Summit Express');
 
-            expect(result.lastEvaluatedKey).toEqual(lastKey);
+            expect(result.nextCursor).toBeDefined();
+            expect(result).not.toHaveProperty('lastEvaluatedKey');
+            expect(decodeCursor(result.nextCursor, 'lift:Summit Express')).toEqual(lastKey);
+        });
+
+        it('should resume from a cursor', async () => {
+            const lastKey = { Lift: 'Summit Express', Metadata: '2024-01-15' };
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([]));
+
+            await service.queryLiftData('Summit Express', {
+                limit: 20,
+                cursor: encodeCursor(lastKey, 'lift:Summit Express'),
+            });
+
+            const call = mockDynamoDB.call(0);
+            expect((call.args[0].input as any).ExclusiveStartKey).toEqual(lastKey);
+        });
+
+        it('should reject a cursor issued for another lift', async () => {
+            const cursor = encodeCursor({ Lift: 'Other', Metadata: 'Static Data' }, 'lift:Other');
+
+            await expect(
+                service.queryLiftData('Summit Express', { limit: 20, cursor })
+            ).rejects.toThrow(ValidationError);
+            expect(mockDynamoDB.calls()).toHaveLength(0);
         });
 
         it('should throw DynamoDBError on failure', async () => {
@@ -266,17 +523,76 @@ describe('SkiLiftService', () => {
             expect(result.ExperiencedRidersOnly).toBe(true);
         });
 
-        it('should throw error when no fields to update', async () => {
+        it('should throw ValidationError when no fields to update', async () => {
             await expect(service.updateStaticData('Summit Express', {})).rejects.toThrow(
-                DynamoDBError
+                ValidationError
             );
         });
 
-        it('should throw DynamoDBError on failure', async () => {
+        it('should increment the version on every update', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .resolves(createUpdateResponse({ ...validStaticDataResponse, Version: 1 }));
+
+            const result = await service.updateStaticData('Summit Express', {
+                VerticalFeet: 3000,
+            });
+
+            expect(result.Version).toBe(2);
+            const input = mockDynamoDB.call(0).args[0].input as any;
+            expect(input.UpdateExpression).toContain(
+                '#version = if_not_exists(#version, :zero) + :one'
+            );
+            expect(input.ConditionExpression).toBe('attribute_not_exists(DeletedAt)');
+        });
+
+        it('should add a version condition when an expected version is given', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .resolves(createUpdateResponse({ ...validStaticDataResponse, Version: 4 }));
+
+            await service.updateStaticData(
+                'Summit Express',
+                { VerticalFeet: 3000 },
+                { expectedVersion: 3 }
+            );
+
+            const input = mockDynamoDB.call(0).args[0].input as any;
+            expect(input.ConditionExpression).toBe(
+                'attribute_exists(Lift) AND #version = :expectedVersion AND attribute_not_exists(DeletedAt)'
+            );
+            expect(input.ExpressionAttributeValues[':expectedVersion']).toBe(3);
+        });
+
+        it('should throw PreconditionFailedError when the version is stale', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            await expect(
+                service.updateStaticData(
+                    'Summit Express',
+                    { VerticalFeet: 3000 },
+                    { expectedVersion: 1 }
+                )
+            ).rejects.toThrow(PreconditionFailedError);
+        });
+
+        it('should throw NotFoundError when the record is deleted', async () => {
             mockDynamoDB
                 .on(UpdateCommand)
                 .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
 
+            await expect(
+                service.updateStaticData('Summit Express', { VerticalFeet: 3000 })
+            ).rejects.toThrow(NotFoundError);
+        });
+
+        it('should throw DynamoDBError on failure', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('InternalServerError', 'Database error'));
+
             await expect(
                 service.updateStaticData('Summit Express', { VerticalFeet: 3000 })
             ).rejects.toThrow(DynamoDBError);
@@ -293,7 +609,7 @@ describe('SkiLiftService', () => {
 
             const result = await service.updateDynamicData(
                 'Summit Express',
-                '01/15/24',
+                '2024-01-15',
                 {
                     LiftStatus: 'Closed',
                 }
@@ -313,7 +629,7 @@ describe('SkiLiftService', () => {
 
             const result = await service.updateDynamicData(
                 'Summit Express',
-                '01/15/24',
+                '2024-01-15',
                 {
                     LiftStatus: 'Closed',
                     AvalancheDanger: 'High',
@@ -326,10 +642,41 @@ describe('SkiLiftService', () => {
             expect(result.TotalUniqueLiftRiders).toBe(0);
         });
 
-        it('should throw error when no fields to update', async () => {
+        it('should throw ValidationError when no fields to update', async () => {
             await expect(
-                service.updateDynamicData('Summit Express', '01/15/24', {})
-            ).rejects.toThrow(DynamoDBError);
+                service.updateDynamicData('Summit Express', '2024-01-15', {})
+            ).rejects.toThrow(ValidationError);
+        });
+
+        it('should accept unversioned records when expecting version 0', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .resolves(createUpdateResponse({ ...validDynamicDataResponse, Version: 1 }));
+
+            await service.updateDynamicData(
+                'Summit Express',
+                '2024-01-15',
+                { LiftStatus: 'Closed' },
+                { expectedVersion: 0 }
+            );
+
+            const input = mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input as any;
+            expect(input.ConditionExpression).toContain('attribute_not_exists(#version)');
+        });
+
+        it('should throw PreconditionFailedError when the version is stale', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            await expect(
+                service.updateDynamicData(
+                    'Summit Express',
+                    '2024-01-15',
+                    { LiftStatus: 'Closed' },
+                    { expectedVersion: 2 }
+                )
+            ).rejects.toThrow(PreconditionFailedError);
         });
 
         it('should throw DynamoDBError on failure', async () => {
@@ -338,33 +685,364 @@ describe('SkiLiftService', () => {
                 .rejects(createDynamoDBError('ResourceNotFoundException', 'Item not found'));
 
             await expect(
-                service.updateDynamicData('Summit Express', '01/15/24', {
+                service.updateDynamicData('Summit Express', '2024-01-15', {
                     LiftStatus: 'Closed',
                 })
             ).rejects.toThrow(DynamoDBError);
         });
     });
 
+    describe('incrementRiders', () => {
+        it('should ADD to the count and default the attributes of a new day', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves({});
+
+            const result = await service.incrementRiders('Summit Express', '2024-01-15', 3);
+
+            expect(result).toEqual({
+                Lift: 'Summit Express',
+                Metadata: '2024-01-15',
+                TotalUniqueLiftRiders: 3,
+                AverageSnowCoverageInches: 0,
+                LiftStatus: 'Pending',
+                Version: 1,
+            });
+            const input = mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input;
+            expect(input.UpdateExpression).toBe(
+                'SET #AverageSnowCoverageInches = if_not_exists(#AverageSnowCoverageInches, :defaultAverageSnowCoverageInches), ' +
+                    '#LiftStatus = if_not_exists(#LiftStatus, :defaultLiftStatus), ' +
+                    '#version = if_not_exists(#version, :zero) + :one ' +
+                    'ADD #TotalUniqueLiftRiders :addTotalUniqueLiftRiders'
+            );
+            expect(input.ExpressionAttributeValues?.[':addTotalUniqueLiftRiders']).toBe(3);
+            expect(input.ConditionExpression).toBe('attribute_not_exists(DeletedAt)');
+        });
+
+        it('should return the new count of an existing day', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validDynamicDataResponse));
+
+            const result = await service.incrementRiders('Summit Express', '2024-01-15', 2);
+
+            expect(result).toEqual({
+                ...validDynamicDataResponse,
+                TotalUniqueLiftRiders: validDynamicDataResponse.TotalUniqueLiftRiders + 2,
+                Version: validDynamicDataResponse.Version + 1,
+            });
+        });
+
+        it('should not lose concurrent increments', async () => {
+            const memoryService = new SkiLiftService(new InMemorySkiLiftRepository());
+            await memoryService.createDynamicData(validDynamicData);
+
+            await Promise.all(
+                Array.from({ length: 10 }, () =>
+                    memoryService.incrementRiders('Summit Express', validDynamicData.Metadata, 1)
+                )
+            );
+
+            const day = await memoryService.getSkiLift('Summit Express', validDynamicData.Metadata);
+            expect(day).toMatchObject({
+                TotalUniqueLiftRiders: validDynamicData.TotalUniqueLiftRiders + 10,
+                LiftStatus: validDynamicData.LiftStatus,
+                Version: 11,
+            });
+        });
+
+        it('should keep a new day closed until its avalanche danger is known', async () => {
+            const memoryService = new SkiLiftService(new InMemorySkiLiftRepository());
+            await memoryService.incrementRiders('Summit Express', '2024-01-15', 1);
+
+            await expect(
+                memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                    LiftStatus: 'Open',
+                })
+            ).rejects.toThrow('avalanche danger is not known');
+            const opened = await memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                LiftStatus: 'Open',
+                AvalancheDanger: 'Low',
+            });
+            const summary = await memoryService.closeDay('2024-01-15');
+
+            expect(opened.LiftStatus).toBe('Open');
+            expect(summary.AvalancheDanger).toBe('Low');
+        });
+
+        it('should throw NotFoundError when the day is deleted', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            await expect(
+                service.incrementRiders('Summit Express', '2024-01-15', 1)
+            ).rejects.toThrow(NotFoundError);
+        });
+    });
+
+    describe('status rules', () => {
+        let repository: InMemorySkiLiftRepository;
+        let memoryService: SkiLiftService;
+        const day = { ...validDynamicData, LiftStatus: 'Pending' as const };
+        const blackDiamondDay = { ...day, Lift: 'Black Diamond Lift' };
+
+        beforeEach(async () => {
+            repository = new InMemorySkiLiftRepository();
+            memoryService = new SkiLiftService(repository);
+            await memoryService.createStaticData(experiencedOnlyStaticData);
+            await memoryService.createDynamicData(day);
+        });
+
+        it('should record each status change in the day\'s timeline', async () => {
+            await memoryService.updateDynamicData(
+                'Summit Express',
+                '2024-01-15',
+                { LiftStatus: 'Open' },
+                { changedBy: 'jwt:alice' }
+            );
+            await memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                TotalUniqueLiftRiders: 10,
+            });
+            const result = await memoryService.updateDynamicData(
+                'Summit Express',
+                '2024-01-15',
+                { LiftStatus: 'Closed' },
+                { changedBy: 'jwt:bob', reason: 'Wind hold' }
+            );
+
+            expect(result.StatusTimeline).toEqual([
+                {
+                    From: 'Pending',
+                    To: 'Open',
+                    ChangedAt: expect.any(String),
+                    ChangedBy: 'jwt:alice',
+                },
+                {
+                    From: 'Open',
+                    To: 'Closed',
+                    ChangedAt: expect.any(String),
+                    ChangedBy: 'jwt:bob',
+                    Reason: 'Wind hold',
+                },
+            ]);
+            expect(result.Version).toBe(4);
+        });
+
+        it('should not add an entry when the status is unchanged', async () => {
+            const result = await memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                LiftStatus: 'Pending',
+            });
+
+            expect(result.StatusTimeline).toBeUndefined();
+        });
+
+        it('should reject transitions the rules forbid', async () => {
+            await memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                LiftStatus: 'Closed',
+            });
+
+            await expect(
+                memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                    LiftStatus: 'Pending',
+                })
+            ).rejects.toThrow('Summit Express cannot go from Closed to Pending');
+        });
+
+        it('should allow a forbidden transition with an override and mark it', async () => {
+            await memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                LiftStatus: 'Closed',
+            });
+
+            const result = await memoryService.updateDynamicData(
+                'Summit Express',
+                '2024-01-15',
+                { LiftStatus: 'Pending' },
+                { override: true, reason: 'Closed by mistake' }
+            );
+
+            expect(result.LiftStatus).toBe('Pending');
+            expect(result.StatusTimeline?.[1]).toMatchObject({
+                From: 'Closed',
+                To: 'Pending',
+                Reason: 'Closed by mistake',
+                Override: true,
+            });
+        });
+
+        it('should check and record status changes made by an upsert', async () => {
+            const opened = await memoryService.createDynamicData(
+                { ...day, LiftStatus: 'Open' },
+                { upsert: true, changedBy: 'jwt:alice' }
+            );
+
+            expect(opened.StatusTimeline).toEqual([
+                {
+                    From: 'Pending',
+                    To: 'Open',
+                    ChangedAt: expect.any(String),
+                    ChangedBy: 'jwt:alice',
+                },
+            ]);
+            await memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                LiftStatus: 'Closed',
+            });
+            await expect(
+                memoryService.createDynamicData(day, { upsert: true })
+            ).rejects.toThrow('Summit Express cannot go from Closed to Pending');
+            await expect(
+                memoryService.createDynamicData(
+                    { ...day, LiftStatus: 'Closed', TotalUniqueLiftRiders: 10 },
+                    { upsert: true }
+                )
+            ).resolves.toMatchObject({ TotalUniqueLiftRiders: 10, StatusTimeline: [{}, {}] });
+        });
+
+        it('should never open a lift above the maximum danger, even with an override', async () => {
+            await expect(
+                memoryService.updateDynamicData(
+                    'Summit Express',
+                    '2024-01-15',
+                    { LiftStatus: 'Open', AvalancheDanger: 'High' },
+                    { override: true, reason: 'Busy day' }
+                )
+            ).rejects.toThrow(ConflictError);
+            await expect(
+                memoryService.createDynamicData({
+                    ...validDynamicData,
+                    Metadata: '2024-01-16',
+                    AvalancheDanger: 'Extreme',
+                })
+            ).rejects.toThrow('avalanche danger Extreme is above Considerable');
+        });
+
+        it('should use the stricter level for experienced riders only lifts', async () => {
+            await memoryService.createDynamicData(blackDiamondDay);
+            await memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                AvalancheDanger: 'Considerable',
+            });
+            await memoryService.updateDynamicData('Black Diamond Lift', '2024-01-15', {
+                AvalancheDanger: 'Considerable',
+            });
+
+            const opened = await memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                LiftStatus: 'Open',
+            });
+
+            expect(opened.LiftStatus).toBe('Open');
+            await expect(
+                memoryService.updateDynamicData('Black Diamond Lift', '2024-01-15', {
+                    LiftStatus: 'Open',
+                })
+            ).rejects.toThrow('for an experienced riders only lift');
+        });
+
+        it('should read the levels from its safety configuration', async () => {
+            const strictService = new SkiLiftService(repository, undefined, undefined, {
+                maxOpenDanger: 'Low',
+                maxOpenDangerExperiencedOnly: 'Low',
+            });
+
+            await expect(
+                strictService.updateDynamicData('Summit Express', '2024-01-15', {
+                    LiftStatus: 'Open',
+                    AvalancheDanger: 'Moderate',
+                })
+            ).rejects.toThrow('avalanche danger Moderate is above Low');
+        });
+
+        it('should fail batch rows that would open a lift against the safety rules', async () => {
+            const results = await memoryService.createDynamicDataBatch([
+                { ...blackDiamondDay, LiftStatus: 'Open', AvalancheDanger: 'Considerable' },
+                { ...validDynamicData, Metadata: '2024-01-16', AvalancheDanger: 'High' },
+                { ...validDynamicData, Metadata: '2024-01-17', AvalancheDanger: 'Considerable' },
+            ]);
+
+            expect(results.map((result) => result.status)).toEqual(['failed', 'failed', 'created']);
+            expect(results[0].reason).toBe(
+                'Cannot open: avalanche danger Considerable is above Moderate' +
+                    ' for an experienced riders only lift'
+            );
+        });
+
+        it('should return 409 when the day changes while its status is updated', async () => {
+            mockDynamoDB.on(GetCommand).resolves(createSuccessResponse(validDynamicDataResponse));
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            await expect(
+                service.updateDynamicData('Summit Express', '2024-01-15', { LiftStatus: 'Closed' })
+            ).rejects.toThrow(ConflictError);
+            const input = mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input as any;
+            expect(input.ExpressionAttributeValues[':expectedVersion']).toBe(1);
+        });
+    });
+
     describe('deleteSkiLift', () => {
-        it('should delete ski lift data successfully', async () => {
-            mockDynamoDB.on(DeleteCommand).resolves(createDeleteResponse());
+        it('should mark the record deleted instead of removing it', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validStaticDataResponse));
 
-            await service.deleteSkiLift('Summit Express', 'Static Data');
+            await service.deleteSkiLift('Summit Express', 'Static Data', {
+                deletedBy: 'jwt:alice',
+                retentionDays: 30,
+            });
 
-            expect(mockDynamoDB.calls()).toHaveLength(1);
-            const call = mockDynamoDB.call(0);
-            expect(call.args[0].input).toMatchObject({
+            expect(mockDynamoDB.commandCalls(DeleteCommand)).toHaveLength(0);
+            const input = mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input as any;
+            expect(input).toMatchObject({
                 TableName: 'SkiLifts',
-                Key: {
-                    Lift: 'Summit Express',
-                    Metadata: 'Static Data',
-                },
+                Key: { Lift: 'Summit Express', Metadata: 'Static Data' },
+                ConditionExpression: 'attribute_exists(Lift) AND attribute_not_exists(DeletedAt)',
             });
+            const { ':DeletedAt': deletedAt, ':DeletedBy': deletedBy, ':ExpiresAt': expiresAt } =
+                input.ExpressionAttributeValues;
+            expect(deletedBy).toBe('jwt:alice');
+            expect(expiresAt).toBe(
+                Math.floor(Date.parse(deletedAt) / 1000) + 30 * 24 * 60 * 60
+            );
+        });
+
+        it('should not set a TTL without a retention window', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validStaticDataResponse));
+
+            await service.deleteSkiLift('Summit Express', 'Static Data', { retentionDays: 0 });
+
+            const input = mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input as any;
+            expect(input.UpdateExpression).not.toContain('ExpiresAt');
+        });
+
+        it('should ignore records that are missing or already deleted', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            await expect(
+                service.deleteSkiLift('Summit Express', 'Static Data')
+            ).resolves.toBeUndefined();
+        });
+
+        it('should delete conditionally when an expected version is given', async () => {
+            mockDynamoDB.on(UpdateCommand).resolves(createUpdateResponse(validStaticDataResponse));
+
+            await service.deleteSkiLift('Summit Express', 'Static Data', { expectedVersion: 5 });
+
+            const input = mockDynamoDB.call(0).args[0].input as any;
+            expect(input.ConditionExpression).toBe(
+                'attribute_exists(Lift) AND #version = :expectedVersion AND attribute_not_exists(DeletedAt)'
+            );
+            expect(input.ExpressionAttributeValues[':expectedVersion']).toBe(5);
+        });
+
+        it('should throw PreconditionFailedError when the version is stale', async () => {
+            mockDynamoDB
+                .on(UpdateCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            await expect(
+                service.deleteSkiLift('Summit Express', 'Static Data', { expectedVersion: 5 })
+            ).rejects.toThrow(PreconditionFailedError);
         });
 
         it('should throw DynamoDBError on failure', async () => {
             mockDynamoDB
-                .on(DeleteCommand)
+                .on(UpdateCommand)
                 .rejects(createDynamoDBError('InternalServerError', 'Database error'));
 
             await expect(
@@ -373,6 +1051,110 @@ describe('SkiLiftService', () => {
         });
     });
 
+    describe('soft delete', () => {
+        let repository: InMemorySkiLiftRepository;
+        let memoryService: SkiLiftService;
+
+        beforeEach(async () => {
+            repository = new InMemorySkiLiftRepository();
+            memoryService = new SkiLiftService(repository);
+            await memoryService.createStaticData(validStaticData);
+            await memoryService.createDynamicData(validDynamicData);
+            await memoryService.deleteSkiLift('Summit Express', '2024-01-15', {
+                deletedBy: 'jwt:alice',
+            });
+        });
+
+        it('should hide deleted records from reads', async () => {
+            await expect(
+                memoryService.getSkiLift('Summit Express', '2024-01-15')
+            ).rejects.toThrow(NotFoundError);
+            expect(
+                (await memoryService.queryLiftData('Summit Express')).items.map(
+                    (item) => item.Metadata
+                )
+            ).toEqual(['Static Data']);
+            expect((await memoryService.listSkiLifts({ limit: 20 })).count).toBe(1);
+            expect((await memoryService.queryByRiders('Summit Express', { limit: 20 })).items)
+                .toEqual([]);
+            expect(
+                (
+                    await memoryService.queryLiftHistory('Summit Express', {
+                        from: '2024-01-01',
+                        to: '2024-01-31',
+                        limit: 20,
+                    })
+                ).items
+            ).toEqual([]);
+        });
+
+        it('should return deleted records when asked to include them', async () => {
+            const record = await memoryService.getSkiLift('Summit Express', '2024-01-15', {
+                includeDeleted: true,
+            });
+
+            expect(record).toMatchObject({ DeletedBy: 'jwt:alice', Version: 2 });
+            expect(record.DeletedAt).toBeDefined();
+            expect(
+                (await memoryService.listSkiLifts({ limit: 20 }, { includeDeleted: true })).count
+            ).toBe(2);
+        });
+
+        it('should refuse updates to deleted records', async () => {
+            await expect(
+                memoryService.updateDynamicData('Summit Express', '2024-01-15', {
+                    LiftStatus: 'Closed',
+                })
+            ).rejects.toThrow(NotFoundError);
+        });
+
+        it('should leave deleted rows out of the day\'s summary', async () => {
+            await memoryService.createDynamicData({ ...validDynamicData, Lift: 'Lift 2' });
+
+            const summary = await memoryService.closeDay('2024-01-15');
+
+            expect(summary.TotalUniqueLiftRiders).toBe(validDynamicData.TotalUniqueLiftRiders);
+            expect(summary.OpenLifts).toEqual([2]);
+        });
+
+        it('should restore a deleted record', async () => {
+            const restored = await memoryService.restoreSkiLift('Summit Express', '2024-01-15');
+
+            expect(restored).toEqual({ ...validDynamicDataResponse, Version: 3 });
+            await expect(
+                memoryService.getSkiLift('Summit Express', '2024-01-15')
+            ).resolves.toEqual(restored);
+        });
+
+        it('should only restore deleted records', async () => {
+            await expect(
+                memoryService.restoreSkiLift('Summit Express', 'Static Data')
+            ).rejects.toThrow(NotFoundError);
+            await expect(
+                memoryService.restoreSkiLift('Summit Express', '2024-02-01')
+            ).rejects.toThrow(NotFoundError);
+        });
+
+        it('should honour an expected version when restoring', async () => {
+            await expect(
+                memoryService.restoreSkiLift('Summit Express', '2024-01-15', {
+                    expectedVersion: 1,
+                })
+            ).rejects.toThrow(PreconditionFailedError);
+        });
+
+        it('should make an upserted record live again', async () => {
+            const result = await memoryService.createDynamicData(validDynamicData, {
+                upsert: true,
+            });
+
+            expect(result.DeletedAt).toBeUndefined();
+            await expect(
+                memoryService.getSkiLift('Summit Express', '2024-01-15')
+            ).resolves.toMatchObject({ Version: 3 });
+        });
+    });
+
     describe('listSkiLifts', () => {
         it('should list all ski lifts', async () => {
             mockDynamoDB.on(ScanCommand).resolves(createQueryResponse(multipleLifts));
@@ -391,11 +1173,13 @@ describe('SkiLiftService', () => {
 
             const result = await service.listSkiLifts({
                 limit: 10,
-                lastEvaluatedLift: 'Previous Lift',
-                lastEvaluatedMetadata: 'Previous Metadata',
+                cursor: encodeCursor(
+                    { Lift: 'Previous Lift', Metadata: 'Previous Metadata' },
+                    'scan'
+                ),
             });
 
-            expect(result.lastEvaluatedKey).toEqual(lastKey);
+            expect(decodeCursor(result.nextCursor, 'scan')).toEqual(lastKey);
             const call = mockDynamoDB.call(0);
             expect((call.args[0].input as any).ExclusiveStartKey).toEqual({
                 Lift: 'Previous Lift',
@@ -461,6 +1245,28 @@ describe('SkiLiftService', () => {
             expect(result.items.length).toBeGreaterThan(0);
         });
 
+        it('should paginate with GSI keys', async () => {
+            const lastKey = {
+                Lift: 'Summit Express',
+                Metadata: '2024-01-15',
+                TotalUniqueLiftRiders: 1250,
+            };
+            mockDynamoDB
+                .on(QueryCommand)
+                .resolvesOnce(createQueryResponse(multipleLifts, lastKey))
+                .resolves(createQueryResponse([]));
+
+            const firstPage = await service.queryByRiders('Summit Express', { limit: 2 });
+            const secondPage = await service.queryByRiders('Summit Express', {
+                limit: 2,
+                cursor: firstPage.nextCursor,
+            });
+
+            expect(secondPage.nextCursor).toBeUndefined();
+            const call = mockDynamoDB.call(1);
+            expect((call.args[0].input as any).ExclusiveStartKey).toEqual(lastKey);
+        });
+
         it('should sort descending by riders', async () => {
             mockDynamoDB.on(QueryCommand).resolves(createQueryResponse(multipleLifts));
 
@@ -483,4 +1289,654 @@ describe('SkiLiftService', () => {
             ).rejects.toThrow(DynamoDBError);
         });
     });
+
+    describe('closeDay', () => {
+        const dayRows = [
+            {
+                Lift: 'Lift 3',
+                Metadata: '2024-01-15',
+                TotalUniqueLiftRiders: 1000,
+                AverageSnowCoverageInches: 40,
+                LiftStatus: 'Open',
+                AvalancheDanger: 'Low',
+                Version: 2,
+            },
+            {
+                Lift: 'Lift 1',
+                Metadata: '2024-01-15',
+                TotalUniqueLiftRiders: 500,
+                AverageSnowCoverageInches: 45,
+                LiftStatus: 'Open',
+                AvalancheDanger: 'Considerable',
+                Version: 1,
+            },
+            {
+                Lift: 'Lift 2',
+                Metadata: '2024-01-15',
+                TotalUniqueLiftRiders: 0,
+                AverageSnowCoverageInches: 50,
+                LiftStatus: 'Closed',
+                AvalancheDanger: 'Moderate',
+            },
+        ];
+
+        const onDay = (metadata: string) => ({
+            IndexName: 'SkiLiftsByDate',
+            ExpressionAttributeValues: { ':metadata': metadata },
+        });
+
+        beforeEach(() => {
+            mockDynamoDB.on(GetCommand).resolves({ Item: undefined });
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([]));
+        });
+
+        it('should aggregate the day and write it in one transaction', async () => {
+            mockDynamoDB.on(QueryCommand, onDay('2024-01-15')).resolves(createQueryResponse(dayRows));
+            mockDynamoDB.on(TransactWriteCommand).resolves({});
+
+            const result = await service.closeDay('2024-01-15');
+
+            expect(result).toEqual({
+                Lift: 'Resort Data',
+                Metadata: '2024-01-15',
+                TotalUniqueLiftRiders: 1500,
+                AverageSnowCoverageInches: 45,
+                AvalancheDanger: 'Considerable',
+                OpenLifts: [1, 3],
+                Version: 1,
+            });
+
+            const input = mockDynamoDB.commandCalls(TransactWriteCommand)[0].args[0].input;
+            expect(input.TransactItems).toHaveLength(4);
+            expect(input.TransactItems?.[0].Put?.ConditionExpression).toBe(
+                'attribute_not_exists(Lift)'
+            );
+            expect(input.TransactItems?.[1].ConditionCheck).toMatchObject({
+                Key: { Lift: 'Lift 3', Metadata: '2024-01-15' },
+                ExpressionAttributeValues: { ':expectedVersion': 2 },
+            });
+            expect(input.TransactItems?.[3].ConditionCheck?.ConditionExpression).toContain(
+                'attribute_not_exists(#version)'
+            );
+        });
+
+        it('should bump the version of an existing resort record', async () => {
+            mockDynamoDB
+                .on(GetCommand)
+                .resolves(createSuccessResponse({ ...validResortDataResponse, Version: 4 }));
+            mockDynamoDB
+                .on(QueryCommand, onDay('2024-01-15'))
+                .resolves(createQueryResponse([{ ...validResortDataResponse, Version: 4 }, ...dayRows]));
+            mockDynamoDB.on(TransactWriteCommand).resolves({});
+
+            const result = await service.closeDay('2024-01-15');
+
+            expect(result.Version).toBe(5);
+            expect(result.TotalUniqueLiftRiders).toBe(1500);
+            expect(mockDynamoDB.commandCalls(GetCommand)[0].args[0].input.Key).toEqual({
+                Lift: 'Resort Data',
+                Metadata: '2024-01-15',
+            });
+            const input = mockDynamoDB.commandCalls(TransactWriteCommand)[0].args[0].input;
+            expect(input.TransactItems?.[0].Put?.ExpressionAttributeValues).toEqual({
+                ':expectedVersion': 4,
+            });
+        });
+
+        it('should throw NotFoundError when the day has no lift rows', async () => {
+            await expect(service.closeDay('2024-01-15')).rejects.toThrow(NotFoundError);
+        });
+
+        it('should throw ValidationError when the day exceeds the transaction limit', async () => {
+            const manyRows = Array.from({ length: 100 }, (_, i) => ({
+                ...dayRows[0],
+                Lift: `Lift ${i + 1}`,
+            }));
+            mockDynamoDB.on(QueryCommand, onDay('2024-01-15')).resolves(createQueryResponse(manyRows));
+
+            await expect(service.closeDay('2024-01-15')).rejects.toThrow(ValidationError);
+        });
+
+        it('should throw ConflictError when a row changes during the transaction', async () => {
+            mockDynamoDB.on(QueryCommand, onDay('2024-01-15')).resolves(createQueryResponse(dayRows));
+            mockDynamoDB
+                .on(TransactWriteCommand)
+                .rejects(createDynamoDBError('TransactionCanceledException', 'Cancelled'));
+
+            await expect(service.closeDay('2024-01-15')).rejects.toThrow(ConflictError);
+        });
+
+        it('should query the day and the lift tombstones instead of scanning', async () => {
+            mockDynamoDB.on(QueryCommand, onDay('2024-01-15')).resolves(createQueryResponse(dayRows));
+            mockDynamoDB.on(QueryCommand, onDay('Decommissioned')).resolves(
+                createQueryResponse([
+                    {
+                        Lift: 'Lift 3',
+                        Metadata: 'Decommissioned',
+                        DecommissionedAt: '2024-01-10T08:00:00.000Z',
+                        Version: 1,
+                    },
+                ])
+            );
+            mockDynamoDB.on(TransactWriteCommand).resolves({});
+
+            const result = await service.closeDay('2024-01-15');
+
+            expect(result.OpenLifts).toEqual([1]);
+            expect(result.TotalUniqueLiftRiders).toBe(1500);
+            expect(mockDynamoDB.commandCalls(ScanCommand)).toHaveLength(0);
+            const input = mockDynamoDB.commandCalls(QueryCommand)[0].args[0].input;
+            expect(input.KeyConditionExpression).toBe('Metadata = :metadata');
+            const transaction = mockDynamoDB.commandCalls(TransactWriteCommand)[0].args[0].input;
+            expect(transaction.TransactItems).toHaveLength(4);
+        });
+
+        it('should only query the resort\'s own lifts', async () => {
+            const whistler = new SkiLiftService(
+                new DynamoDBSkiLiftRepository(mockDynamoDB as any),
+                'whistler'
+            );
+
+            await expect(whistler.closeDay('2024-01-15')).rejects.toThrow(NotFoundError);
+
+            const input = mockDynamoDB.commandCalls(QueryCommand)[0].args[0].input;
+            expect(input.KeyConditionExpression).toBe(
+                'Metadata = :metadata AND begins_with(Lift, :liftPrefix)'
+            );
+            expect(input.ExpressionAttributeValues?.[':liftPrefix']).toBe('whistler#');
+        });
+    });
+
+    describe('decommissionLift', () => {
+        const days = (count: number) =>
+            Array.from({ length: count }, (_, i) => ({
+                ...validDynamicDataResponse,
+                Metadata: `2024-01-${String(i + 1).padStart(2, '0')}`,
+            }));
+
+        describe('in memory', () => {
+            let repository: InMemorySkiLiftRepository;
+            let memoryService: SkiLiftService;
+
+            beforeEach(async () => {
+                repository = new InMemorySkiLiftRepository();
+                memoryService = new SkiLiftService(repository);
+                await repository.batchPut([
+                    validStaticDataResponse,
+                    ...days(3),
+                    { ...validDynamicDataResponse, Lift: 'Lift 1' },
+                ]);
+                await memoryService.deleteSkiLift('Summit Express', '2024-01-02');
+            });
+
+            it('should delete every record of the lift and leave a tombstone', async () => {
+                const progress: number[] = [];
+
+                const result = await memoryService.decommissionLift('Summit Express', {
+                    decommissionedBy: 'jwt:alice',
+                    onProgress: (deleted) => progress.push(deleted),
+                });
+
+                expect(result).toEqual({ Lift: 'Summit Express', deleted: 4 });
+                expect(progress).toEqual([4]);
+                const page = await repository.queryPartition({ lift: 'Summit Express' });
+                expect(page.items).toEqual([
+                    {
+                        Lift: 'Summit Express',
+                        Metadata: 'Decommissioned',
+                        DecommissionedAt: expect.any(String),
+                        DecommissionedBy: 'jwt:alice',
+                        DecommissionStatus: 'Complete',
+                        DeletedRecords: 4,
+                        CompletedAt: expect.any(String),
+                        Version: 3,
+                    },
+                ]);
+                expect(
+                    await repository.get({ Lift: 'Lift 1', Metadata: '2024-01-15' })
+                ).toBeDefined();
+            });
+
+            it('should be repeatable', async () => {
+                await memoryService.decommissionLift('Summit Express');
+
+                const again = await memoryService.decommissionLift('Summit Express');
+
+                expect(again.deleted).toBe(0);
+            });
+
+            it('should throw NotFoundError for a lift without data', async () => {
+                await expect(memoryService.decommissionLift('Unknown Lift')).rejects.toThrow(
+                    NotFoundError
+                );
+            });
+
+            it('should resume a failed decommission where it stopped', async () => {
+                await repository.put({
+                    Lift: 'Summit Express',
+                    Metadata: 'Decommissioned',
+                    DecommissionedAt: '2024-01-20T08:00:00.000Z',
+                    DecommissionStatus: 'Failed',
+                    DeletedRecords: 7,
+                    FailureReason: 'Throttled',
+                    Version: 4,
+                });
+
+                const started = await memoryService.beginDecommission('Summit Express');
+                const result = await memoryService.finishDecommission('Summit Express', started);
+
+                expect(started).toMatchObject({
+                    DecommissionedAt: '2024-01-20T08:00:00.000Z',
+                    DecommissionStatus: 'InProgress',
+                    DeletedRecords: 7,
+                });
+                expect(started.FailureReason).toBeUndefined();
+                expect(result.deleted).toBe(11);
+            });
+
+            it('should keep the lift out of OpenLifts until the tombstone is deleted', async () => {
+                await memoryService.decommissionLift('Summit Express');
+                await repository.batchPut([
+                    { ...validDynamicDataResponse, Lift: 'Lift 3', Metadata: '2024-01-15' },
+                    {
+                        ...validDynamicDataResponse,
+                        Lift: 'Summit Express 2',
+                        Metadata: '2024-01-15',
+                    },
+                ]);
+                await memoryService.decommissionLift('Summit Express 2');
+                await repository.put({
+                    ...validDynamicDataResponse,
+                    Lift: 'Summit Express 2',
+                    Metadata: '2024-01-15',
+                });
+
+                const closed = await memoryService.closeDay('2024-01-15');
+                await memoryService.deleteSkiLift('Summit Express 2', 'Decommissioned');
+                const reopened = await memoryService.closeDay('2024-01-15');
+
+                expect(closed.OpenLifts).toEqual([1, 3]);
+                expect(reopened.OpenLifts).toEqual([1, 2, 3]);
+            });
+        });
+
+        it('should delete in batches of 25, retry unprocessed keys and report progress', async () => {
+            const records = [validStaticDataResponse, ...days(29)];
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse(records));
+            mockDynamoDB.on(UpdateCommand).resolves({});
+            mockDynamoDB
+                .on(BatchWriteCommand)
+                .resolvesOnce({
+                    UnprocessedItems: {
+                        SkiLifts: [
+                            {
+                                DeleteRequest: {
+                                    Key: { Lift: 'Summit Express', Metadata: 'Static Data' },
+                                },
+                            },
+                        ],
+                    },
+                })
+                .resolves({ UnprocessedItems: {} });
+            const progress: number[] = [];
+
+            const result = await service.decommissionLift('Summit Express', {
+                onProgress: (deleted) => progress.push(deleted),
+            });
+
+            expect(result.deleted).toBe(30);
+            expect(progress).toEqual([25, 30]);
+            const calls = mockDynamoDB.commandCalls(BatchWriteCommand);
+            expect(calls.map((call) => call.args[0].input.RequestItems?.SkiLifts)).toEqual([
+                expect.arrayContaining([expect.anything()]),
+                [{ DeleteRequest: { Key: { Lift: 'Summit Express', Metadata: 'Static Data' } } }],
+                expect.arrayContaining([expect.anything()]),
+            ]);
+            expect(calls[0].args[0].input.RequestItems?.SkiLifts).toHaveLength(25);
+            expect(calls[2].args[0].input.RequestItems?.SkiLifts).toHaveLength(5);
+            expect(mockDynamoDB.commandCalls(UpdateCommand)[0].args[0].input.Key).toEqual({
+                Lift: 'Summit Express',
+                Metadata: 'Decommissioned',
+            });
+        });
+
+        it('should follow the partition across query pages', async () => {
+            mockDynamoDB
+                .on(QueryCommand)
+                .resolvesOnce(createQueryResponse(days(1)))
+                .resolvesOnce(
+                    createQueryResponse(days(2), {
+                        Lift: 'Summit Express',
+                        Metadata: '2024-01-02',
+                    })
+                )
+                .resolves(createQueryResponse(days(3).slice(2)));
+            mockDynamoDB.on(UpdateCommand).resolves({});
+            mockDynamoDB.on(BatchWriteCommand).resolves({ UnprocessedItems: {} });
+
+            const result = await service.decommissionLift('Summit Express');
+
+            expect(result.deleted).toBe(3);
+            const secondPage = mockDynamoDB.commandCalls(QueryCommand)[2].args[0].input;
+            expect(secondPage.ExclusiveStartKey).toEqual({
+                Lift: 'Summit Express',
+                Metadata: '2024-01-02',
+            });
+        });
+
+        it('should throw DynamoDBError when keys stay unprocessed', async () => {
+            mockDynamoDB.on(QueryCommand).resolves(createQueryResponse([validStaticDataResponse]));
+            mockDynamoDB.on(UpdateCommand).resolves({});
+            mockDynamoDB.on(BatchWriteCommand).callsFake((input) => ({
+                UnprocessedItems: input.RequestItems,
+            }));
+
+            await expect(service.decommissionLift('Summit Express')).rejects.toThrow(
+                '1 records of Summit Express were not deleted after 5 attempts, retry the request'
+            );
+            expect(mockDynamoDB.commandCalls(BatchWriteCommand)).toHaveLength(5);
+            const failed = mockDynamoDB.commandCalls(UpdateCommand).at(-1)?.args[0].input;
+            expect(failed?.ExpressionAttributeValues).toMatchObject({
+                ':DecommissionStatus': 'Failed',
+                ':FailureReason': expect.stringContaining('were not deleted'),
+            });
+        });
+    });
+
+    describe('resort scope', () => {
+        let repository: InMemorySkiLiftRepository;
+        let whistler: SkiLiftService;
+        let vail: SkiLiftService;
+
+        beforeEach(() => {
+            repository = new InMemorySkiLiftRepository();
+            whistler = new SkiLiftService(repository, 'whistler');
+            vail = new SkiLiftService(repository, 'vail');
+        });
+
+        it('should store records under resort-prefixed partition keys', async () => {
+            const result = await whistler.createStaticData(validStaticData);
+
+            expect(result.Lift).toBe('Summit Express');
+            expect(
+                await repository.get({ Lift: 'whistler#Summit Express', Metadata: 'Static Data' })
+            ).toMatchObject({ VerticalFeet: validStaticData.VerticalFeet });
+        });
+
+        it('should not read or write another resort\'s records', async () => {
+            await whistler.createStaticData(validStaticData);
+
+            await expect(vail.getSkiLift('Summit Express', 'Static Data')).rejects.toThrow(
+                NotFoundError
+            );
+            await expect(vail.createStaticData(validStaticData)).resolves.toMatchObject({
+                Lift: 'Summit Express',
+            });
+            expect((await vail.queryLiftData('Summit Express')).items).toHaveLength(1);
+        });
+
+        it('should only list the resort\'s own records', async () => {
+            await whistler.createDynamicData(validDynamicData);
+            await vail.createDynamicData(highTrafficDynamicData);
+            await new SkiLiftService(repository).createStaticData(validStaticData);
+
+            const result = await whistler.listSkiLifts({ limit: 20 });
+
+            expect(result.items).toEqual([validDynamicDataResponse]);
+        });
+
+        it('should reject a cursor issued for another resort', async () => {
+            const cursor = encodeCursor(
+                { Lift: 'vail#Lift 1', Metadata: 'Static Data' },
+                'resort:vail/scan'
+            );
+
+            await expect(whistler.listSkiLifts({ limit: 20, cursor })).rejects.toThrow(
+                ValidationError
+            );
+        });
+
+        it('should close the day from the resort\'s rows into its own summary', async () => {
+            await whistler.createDynamicData(validDynamicData);
+            await vail.createDynamicData({ ...validDynamicData, TotalUniqueLiftRiders: 10 });
+
+            const summary = await whistler.closeDay(validDynamicData.Metadata);
+
+            expect(summary).toMatchObject({
+                Lift: 'Resort Data',
+                TotalUniqueLiftRiders: validDynamicData.TotalUniqueLiftRiders,
+            });
+            expect(
+                await repository.get({ Lift: 'whistler#Resort Data', Metadata: summary.Metadata })
+            ).toBeDefined();
+            expect(
+                await repository.get({ Lift: 'Resort Data', Metadata: summary.Metadata })
+            ).toBeUndefined();
+        });
+    });
+
+    describe('change feed', () => {
+        it('should publish every write in the API form of its key', async () => {
+            const feed = new ChangeFeed(10, 'boot1');
+            const received: ChangeEvent[] = [];
+            feed.subscribe({ send: (event) => received.push(event), close: () => undefined });
+            const whistler = new SkiLiftService(
+                new InMemorySkiLiftRepository(),
+                'whistler',
+                undefined,
+                undefined,
+                feed
+            );
+
+            await whistler.createDynamicData(validDynamicData);
+            await whistler.updateDynamicData('Summit Express', '2024-01-15', {
+                TotalUniqueLiftRiders: 1300,
+            });
+            await whistler.deleteSkiLift('Summit Express', '2024-01-15');
+
+            expect(received).toEqual([
+                expect.objectContaining({
+                    id: 'boot1-1',
+                    ResortId: 'whistler',
+                    Action: 'create',
+                    Lift: 'Summit Express',
+                    Metadata: '2024-01-15',
+                    Record: { ...validDynamicData, Version: 1 },
+                }),
+                expect.objectContaining({
+                    id: 'boot1-2',
+                    Action: 'update',
+                    Record: expect.objectContaining({
+                        Lift: 'Summit Express',
+                        TotalUniqueLiftRiders: 1300,
+                    }),
+                }),
+                expect.objectContaining({ id: 'boot1-3', Action: 'delete', Record: undefined }),
+            ]);
+        });
+
+        it('should not publish failed writes', async () => {
+            const feed = new ChangeFeed(10, 'boot1');
+            mockDynamoDB
+                .on(PutCommand)
+                .rejects(createDynamoDBError('ConditionalCheckFailedException', 'Condition failed'));
+
+            await expect(
+                new SkiLiftService(
+                    new DynamoDBSkiLiftRepository(mockDynamoDB as any),
+                    undefined,
+                    undefined,
+                    undefined,
+                    feed
+                ).createStaticData(validStaticData)
+            ).rejects.toThrow(ConflictError);
+            expect(feed.latestId).toBe('boot1-0');
+        });
+    });
+
+    describe('audit log', () => {
+        let repository: InMemorySkiLiftRepository;
+        let auditRepository: InMemoryAuditRepository;
+        let audited: SkiLiftService;
+
+        let tick: number;
+
+        // Entries sort by time, so every write gets a later one
+        const auditFor = (resortId?: string) =>
+            new SkiLiftService(
+                repository,
+                resortId,
+                new AuditTrail(
+                    auditRepository,
+                    { actor: 'apiKey:ops', requestId: 'req-1' },
+                    undefined,
+                    () => new Date(Date.UTC(2024, 0, 15, 8, 0, tick++))
+                )
+            );
+
+        beforeEach(() => {
+            tick = 0;
+            repository = new InMemorySkiLiftRepository();
+            auditRepository = new InMemoryAuditRepository();
+            audited = auditFor();
+        });
+
+        it('should record creates, updates and deletes with before and after values', async () => {
+            const { Lift, Metadata } = validDynamicData;
+            await audited.createDynamicData(validDynamicData);
+            await audited.updateDynamicData(Lift, Metadata, { LiftStatus: 'Closed' });
+            await audited.deleteSkiLift(Lift, Metadata, { deletedBy: 'jwt:alice' });
+
+            const { items } = await audited.queryAuditLog(Lift, Metadata);
+
+            expect(items.map((entry) => entry.Action)).toEqual(['delete', 'update', 'create']);
+            const [deleted, updated, created] = items;
+            expect(created).toMatchObject({
+                Actor: 'apiKey:ops',
+                RequestId: 'req-1',
+                After: validDynamicDataResponse,
+            });
+            expect(created.Before).toBeUndefined();
+            expect(updated).toMatchObject({
+                Before: validDynamicDataResponse,
+                After: { ...validDynamicDataResponse, LiftStatus: 'Closed', Version: 2 },
+                Changes: { LiftStatus: { from: 'Open', to: 'Closed' } },
+            });
+            expect(deleted.Before).toMatchObject({ LiftStatus: 'Closed', Version: 2 });
+            expect(deleted.After).toMatchObject({ Version: 3, DeletedBy: 'jwt:alice' });
+            expect(Object.keys(deleted.Changes)).toEqual(['DeletedAt', 'DeletedBy']);
+        });
+
+        it('should record an upsert of a missing record as a create', async () => {
+            await audited.createStaticData(validStaticData, { upsert: true });
+
+            const { items } = await audited.queryAuditLog('Summit Express', 'Static Data');
+
+            expect(items).toMatchObject([{ Action: 'create', After: validStaticDataResponse }]);
+        });
+
+        it('should not record failed writes or deletes of missing records', async () => {
+            await audited.createDynamicData(validDynamicData);
+            await expect(audited.createDynamicData(validDynamicData)).rejects.toThrow(
+                ConflictError
+            );
+            await audited.deleteSkiLift('Summit Express', 'Static Data');
+
+            expect((await audited.queryAuditLog('Summit Express', '2024-01-15')).count).toBe(1);
+            expect((await audited.queryAuditLog('Summit Express', 'Static Data')).count).toBe(0);
+        });
+
+        it('should record each share of a batched rider increment as its own principal', async () => {
+            const { Lift, Metadata } = validDynamicData;
+            await audited.createDynamicData(validDynamicData);
+            const scanner = new SkiLiftService(
+                repository,
+                undefined,
+                new AuditTrail(
+                    auditRepository,
+                    { actor: 'apiKey:gate', requestId: 'req-2' },
+                    undefined,
+                    () => new Date(Date.UTC(2024, 0, 15, 8, 0, tick++))
+                )
+            );
+
+            const result = await audited.incrementRiders(Lift, Metadata, 5, [
+                { by: 2, service: audited },
+                { by: 3, service: scanner },
+            ]);
+
+            expect(result.TotalUniqueLiftRiders).toBe(1255);
+            const { items } = await audited.queryAuditLog(Lift, Metadata);
+            expect(items.slice(0, 2)).toMatchObject([
+                {
+                    Actor: 'apiKey:gate',
+                    RequestId: 'req-2',
+                    Changes: { TotalUniqueLiftRiders: { from: 1252, to: 1255 } },
+                },
+                {
+                    Actor: 'apiKey:ops',
+                    RequestId: 'req-1',
+                    Changes: { TotalUniqueLiftRiders: { from: 1250, to: 1252 } },
+                },
+            ]);
+        });
+
+        it('should record batch puts and closing the day', async () => {
+            await audited.createDynamicDataBatch([validDynamicData]);
+            const summary = await audited.closeDay(validDynamicData.Metadata);
+
+            const lift = await audited.queryAuditLog('Summit Express', '2024-01-15');
+            expect(lift.items).toMatchObject([
+                { Action: 'batch-put', After: validDynamicDataResponse },
+            ]);
+            const resort = await audited.queryAuditLog('Resort Data', summary.Metadata);
+            expect(resort.items).toMatchObject([{ Action: 'close-day', After: summary }]);
+        });
+
+        it('should store entries under resort keys and return them in API form', async () => {
+            await auditFor('whistler').createStaticData(validStaticData);
+
+            const { items } = await auditFor('whistler').queryAuditLog(
+                'Summit Express',
+                'Static Data'
+            );
+
+            expect(items[0]).toMatchObject({
+                Lift: 'Summit Express',
+                After: { Lift: 'Summit Express' },
+            });
+            expect(
+                (await auditRepository.query({
+                    key: { Lift: 'whistler#Summit Express', Metadata: 'Static Data' },
+                })).count
+            ).toBe(1);
+            expect((await audited.queryAuditLog('Summit Express', 'Static Data')).count).toBe(0);
+        });
+
+        it('should paginate with a cursor bound to the record', async () => {
+            await audited.createDynamicData(validDynamicData);
+            await audited.updateDynamicData('Summit Express', '2024-01-15', { LiftStatus: 'Closed' });
+
+            const first = await audited.queryAuditLog('Summit Express', '2024-01-15', { limit: 1 });
+            expect(first.nextCursor).toBeDefined();
+
+            const second = await audited.queryAuditLog('Summit Express', '2024-01-15', {
+                limit: 1,
+                cursor: first.nextCursor,
+            });
+            expect(second.items.map((entry) => entry.Action)).toEqual(['create']);
+            await expect(
+                audited.queryAuditLog('Summit Express', 'Static Data', {
+                    limit: 1,
+                    cursor: first.nextCursor,
+                })
+            ).rejects.toThrow(ValidationError);
+        });
+
+        it('should refuse to query without an audit trail', async () => {
+            await expect(service.queryAuditLog('Summit Express', 'Static Data')).rejects.toThrow(
+                ConfigurationError
+            );
+        });
+    });
 });
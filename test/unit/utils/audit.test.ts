@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { InMemoryAuditRepository } from '../../../src/repositories/memory.repository.js';
+import { AuditTrail, diffRecords } from '../../../src/utils/audit.js';
+import { validDynamicDataResponse, validResortDataResponse } from '../../helpers/mock-data.js';
+
+describe('diffRecords', () => {
+    it('should list changed attributes without keys or Version', () => {
+        const changes = diffRecords(validDynamicDataResponse, {
+            ...validDynamicDataResponse,
+            LiftStatus: 'Closed',
+            Version: 2,
+        });
+
+        expect(changes).toEqual({ LiftStatus: { from: 'Open', to: 'Closed' } });
+    });
+
+    it('should compare arrays by value', () => {
+        const same = diffRecords(validResortDataResponse, {
+            ...validResortDataResponse,
+            OpenLifts: [...validResortDataResponse.OpenLifts],
+        });
+
+        expect(same).toEqual({});
+    });
+
+    it('should report every attribute of a created or deleted record', () => {
+        expect(Object.keys(diffRecords(undefined, validDynamicDataResponse))).toEqual([
+            'TotalUniqueLiftRiders',
+            'AverageSnowCoverageInches',
+            'LiftStatus',
+            'AvalancheDanger',
+        ]);
+        expect(diffRecords(validDynamicDataResponse, undefined).LiftStatus).toEqual({
+            from: 'Open',
+            to: undefined,
+        });
+    });
+});
+
+describe('AuditTrail', () => {
+    const key = { Lift: 'Summit Express', Metadata: '2024-01-15' };
+    const context = { actor: 'jwt:alice', route: 'PUT /api/skilifts/:lift/:metadata', requestId: 'req-1' };
+    const now = () => new Date('2024-01-15T09:30:00.000Z');
+
+    it('should append an entry with the actor, request and diff', async () => {
+        const repository = new InMemoryAuditRepository();
+        const trail = new AuditTrail(repository, context, undefined, now);
+
+        await trail.record([
+            {
+                action: 'update',
+                key,
+                before: validDynamicDataResponse,
+                after: { ...validDynamicDataResponse, LiftStatus: 'Closed', Version: 2 },
+            },
+        ]);
+
+        const { items } = await repository.query({ key });
+        expect(items).toHaveLength(1);
+        expect(items[0]).toMatchObject({
+            Lift: 'Summit Express',
+            Metadata: '2024-01-15',
+            ChangedAt: '2024-01-15T09:30:00.000Z',
+            Action: 'update',
+            Actor: 'jwt:alice',
+            Route: 'PUT /api/skilifts/:lift/:metadata',
+            RequestId: 'req-1',
+            Changes: { LiftStatus: { from: 'Open', to: 'Closed' } },
+        });
+        expect(items[0].AuditId).toMatch(/^2024-01-15T09:30:00\.000Z#[0-9a-f-]{36}$/);
+    });
+
+    it('should report a failed append instead of rejecting', async () => {
+        const repository = new InMemoryAuditRepository();
+        const failure = new Error('throttled');
+        vi.spyOn(repository, 'append').mockRejectedValue(failure);
+        const onError = vi.fn();
+        const trail = new AuditTrail(repository, context, onError, now);
+
+        await expect(
+            trail.record([{ action: 'delete', key, before: validDynamicDataResponse }])
+        ).resolves.toBeUndefined();
+        expect(onError).toHaveBeenCalledWith(failure, [
+            expect.objectContaining({ Action: 'delete', Actor: 'jwt:alice' }),
+        ]);
+    });
+
+    it('should not append when nothing changed', async () => {
+        const repository = new InMemoryAuditRepository();
+        const append = vi.spyOn(repository, 'append');
+
+        await new AuditTrail(repository, context).record([]);
+
+        expect(append).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,167 @@
+import { PassThrough } from 'node:stream';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    ChangeFeed,
+    EventStreamWriter,
+    formatServerSentEvent,
+    getChangeStreamConfig,
+} from '../../../src/utils/change-feed.js';
+import type { Change, ChangeEvent } from '../../../src/utils/change-feed.js';
+
+const change = (Metadata: string): Change => ({
+    Action: 'update',
+    Lift: 'Summit Express',
+    Metadata,
+    ChangedAt: '2024-01-15T09:00:00.000Z',
+});
+
+describe('ChangeFeed', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should number events within its epoch and send them to every subscriber', () => {
+        const feed = new ChangeFeed(10, 'boot1');
+        const received: ChangeEvent[] = [];
+        feed.subscribe({ send: (event) => received.push(event), close: () => undefined });
+
+        feed.publish([change('2024-01-15'), change('2024-01-16')]);
+
+        expect(received.map((event) => [event.id, event.Metadata])).toEqual([
+            ['boot1-1', '2024-01-15'],
+            ['boot1-2', '2024-01-16'],
+        ]);
+        expect(feed.latestId).toBe('boot1-2');
+        expect(new ChangeFeed(10).epoch).not.toBe(new ChangeFeed(10).epoch);
+    });
+
+    it('should stop sending after unsubscribe', () => {
+        const feed = new ChangeFeed(10);
+        const send = vi.fn();
+
+        feed.subscribe({ send, close: () => undefined }).unsubscribe();
+        feed.publish([change('2024-01-15')]);
+
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should resume from any ID still in the buffer', () => {
+        const feed = new ChangeFeed(3, 'boot1');
+        feed.publish(['01', '02', '03', '04', '05'].map((day) => change(`2024-01-${day}`)));
+        const subscriber = { send: () => undefined, close: () => undefined };
+
+        const fromOldest = feed.subscribe(subscriber, 'boot1-2');
+        const upToDate = feed.subscribe(subscriber, 'boot1-5');
+        const tooOld = feed.subscribe(subscriber, 'boot1-1');
+        const unknown = feed.subscribe(subscriber, 'boot1-9');
+
+        expect(fromOldest).toMatchObject({ resumed: true });
+        expect(fromOldest.missed.map((event) => event.id)).toEqual([
+            'boot1-3',
+            'boot1-4',
+            'boot1-5',
+        ]);
+        expect(upToDate).toMatchObject({ resumed: true, missed: [] });
+        expect(tooOld).toMatchObject({ resumed: false, missed: [] });
+        expect(unknown).toMatchObject({ resumed: false, missed: [] });
+    });
+
+    it('should not resume from an ID of another epoch', () => {
+        const feed = new ChangeFeed(10, 'boot2');
+        feed.publish([change('2024-01-15'), change('2024-01-16')]);
+        const subscriber = { send: () => undefined, close: () => undefined };
+
+        expect(feed.subscribe(subscriber, 'boot1-1')).toMatchObject({ resumed: false, missed: [] });
+        expect(feed.subscribe(subscriber, '1')).toMatchObject({ resumed: false, missed: [] });
+    });
+
+    it('should close every subscription', () => {
+        const feed = new ChangeFeed(10);
+        const close = vi.fn();
+        const send = vi.fn();
+        feed.subscribe({ send, close });
+
+        feed.close();
+        feed.publish([change('2024-01-15')]);
+
+        expect(close).toHaveBeenCalledOnce();
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should read the buffer size and heartbeat from the environment', () => {
+        expect(getChangeStreamConfig()).toEqual({ bufferSize: 1000, heartbeatMs: 15000 });
+
+        vi.stubEnv('CHANGE_STREAM_BUFFER_SIZE', '50');
+        vi.stubEnv('CHANGE_STREAM_HEARTBEAT_MS', 'often');
+
+        expect(getChangeStreamConfig()).toEqual({ bufferSize: 50, heartbeatMs: 15000 });
+    });
+});
+
+describe('EventStreamWriter', () => {
+    // Any message fills this stream until it is read
+    const slowStream = () => new PassThrough({ highWaterMark: 1 });
+
+    const readAll = (stream: PassThrough) => {
+        const chunks: string[] = [];
+        for (let chunk = stream.read(); chunk !== null; chunk = stream.read()) {
+            chunks.push(chunk.toString());
+        }
+        return chunks.join('');
+    };
+
+    it('should hold messages while the stream is full and send them in order on drain', async () => {
+        const stream = slowStream();
+        const writer = new EventStreamWriter(stream, 10, vi.fn());
+
+        writer.write('a');
+        writer.write('b');
+        writer.write('c');
+
+        expect(writer.blocked).toBe(true);
+        expect(stream.writableLength).toBe(1);
+        let received = readAll(stream);
+        await vi.waitFor(() => {
+            received += readAll(stream);
+            expect(received).toBe('abc');
+        });
+    });
+
+    it('should cut off a client that falls more than maxPending messages behind', () => {
+        const stream = slowStream();
+        const onOverflow = vi.fn();
+        const writer = new EventStreamWriter(stream, 2, onOverflow);
+
+        for (const message of ['a', 'b', 'c']) {
+            writer.write(message);
+        }
+        expect(onOverflow).not.toHaveBeenCalled();
+
+        writer.write('d');
+        expect(onOverflow).toHaveBeenCalledOnce();
+    });
+
+    it('should end a stream that is reading and destroy one that is not', () => {
+        const reading = new PassThrough();
+        const stalled = slowStream();
+        const first = new EventStreamWriter(reading, 10, vi.fn());
+        const second = new EventStreamWriter(stalled, 10, vi.fn());
+        second.write('a');
+
+        first.end();
+        second.end();
+
+        expect(reading.writableEnded).toBe(true);
+        expect(reading.destroyed).toBe(false);
+        expect(stalled.destroyed).toBe(true);
+    });
+});
+
+describe('formatServerSentEvent', () => {
+    it('should write the ID, event name and one data field per line', () => {
+        expect(formatServerSentEvent({ id: 'boot1-4', event: 'change', data: 'a\nb' })).toBe(
+            'id: boot1-4\nevent: change\ndata: a\ndata: b\n\n'
+        );
+        expect(formatServerSentEvent({ data: '{}' })).toBe('data: {}\n\n');
+    });
+});
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { decodeCursor, encodeCursor } from '../../../src/utils/cursor.js';
+import { ValidationError } from '../../../src/utils/error-handler.js';
+
+describe('Pagination cursors', () => {
+    const key = { Lift: 'Lift 3', Metadata: '01/15/24', TotalUniqueLiftRiders: 1250 };
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should round-trip a key through a cursor', () => {
+        const cursor = encodeCursor(key, 'riders:Lift 3');
+        expect(decodeCursor(cursor, 'riders:Lift 3')).toEqual(key);
+    });
+
+    it('should return undefined on the last page', () => {
+        expect(encodeCursor(undefined, 'scan')).toBeUndefined();
+    });
+
+    it('should treat a missing or empty cursor as the first page', () => {
+        expect(decodeCursor(undefined, 'scan')).toBeUndefined();
+        expect(decodeCursor('', 'scan')).toBeUndefined();
+    });
+
+    it('should not expose the raw key as plain text', () => {
+        const cursor = encodeCursor(key, 'scan') as string;
+        expect(cursor).not.toContain('Lift 3');
+    });
+
+    it('should reject a cursor with a modified payload', () => {
+        const [, signature] = (encodeCursor(key, 'scan') as string).split('.');
+        const forged = Buffer.from(
+            JSON.stringify({ s: 'scan', k: { Lift: 'Lift 9', Metadata: 'Static Data' } })
+        ).toString('base64url');
+
+        expect(() => decodeCursor(`${forged}.${signature}`, 'scan')).toThrow(ValidationError);
+    });
+
+    it('should reject a cursor without a signature', () => {
+        expect(() => decodeCursor('not-a-cursor', 'scan')).toThrow('Invalid pagination cursor');
+    });
+
+    it('should reject a cursor from another scope', () => {
+        const cursor = encodeCursor(key, 'lift:Lift 3');
+        expect(() => decodeCursor(cursor, 'lift:Lift 4')).toThrow(
+            'Pagination cursor does not belong to this query'
+        );
+    });
+
+    it('should reject a cursor signed with another secret', () => {
+        const cursor = encodeCursor(key, 'scan');
+        vi.stubEnv('CURSOR_SECRET', 'rotated-secret');
+        expect(() => decodeCursor(cursor, 'scan')).toThrow(ValidationError);
+    });
+});
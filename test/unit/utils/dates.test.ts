@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { isValidIsoDate, toIsoDate } from '../../../src/utils/dates.js';
+
+describe('Date sort keys', () => {
+    describe('toIsoDate', () => {
+        it('should convert legacy MM/DD/YY dates', () => {
+            expect(toIsoDate('01/15/24')).toBe('2024-01-15');
+            expect(toIsoDate('12/31/99')).toBe('2099-12-31');
+        });
+
+        it('should pass ISO dates through unchanged', () => {
+            expect(toIsoDate('2024-01-15')).toBe('2024-01-15');
+        });
+
+        it('should leave other values untouched', () => {
+            expect(toIsoDate('Static Data')).toBe('Static Data');
+        });
+    });
+
+    describe('isValidIsoDate', () => {
+        it('should accept real calendar days', () => {
+            expect(isValidIsoDate('2024-02-29')).toBe(true);
+        });
+
+        it('should reject impossible days', () => {
+            expect(isValidIsoDate('2023-02-29')).toBe(false);
+            expect(isValidIsoDate('2024-13-01')).toBe(false);
+        });
+
+        it('should reject other formats', () => {
+            expect(isValidIsoDate('01/15/24')).toBe(false);
+            expect(isValidIsoDate('2024-1-5')).toBe(false);
+        });
+    });
+});
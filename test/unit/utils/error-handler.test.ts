@@ -1,9 +1,16 @@
 import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
 import {
+    ConflictError,
     DynamoDBError,
     NotFoundError,
+    PreconditionFailedError,
     ValidationError,
+    formatErrorResponse,
+    formatProblemDetails,
+    prefersProblemDetails,
 } from '../../../src/utils/error-handler.js';
+import { createDynamoDBError } from '../../helpers/test-utils.js';
 
 describe('Error Handlers', () => {
     describe('DynamoDBError', () => {
@@ -31,6 +38,44 @@ describe('Error Handlers', () => {
             const error = new DynamoDBError('Test error');
             expect(error.statusCode).toBe(500);
         });
+
+        it('should not copy the SDK stack trace', () => {
+            const cause = createDynamoDBError('InternalServerError', 'Boom');
+            const error = new DynamoDBError('Test error', cause);
+            expect(error.stack).not.toBe(cause.stack);
+            expect(error.stack).toContain('DynamoDBError: Test error');
+        });
+
+        it.each([
+            ['ProvisionedThroughputExceededException', 503, 'DYNAMODB_THROTTLED'],
+            ['ThrottlingException', 503, 'DYNAMODB_THROTTLED'],
+            ['ConditionalCheckFailedException', 409, 'CONFLICT'],
+            ['ValidationException', 400, 'VALIDATION_ERROR'],
+            ['ResourceNotFoundException', 500, 'CONFIGURATION_ERROR'],
+            ['InternalServerError', 500, 'DYNAMODB_ERROR'],
+        ])('should map %s to %i %s', (name, statusCode, code) => {
+            const error = new DynamoDBError('Test error', createDynamoDBError(name, 'SDK message'));
+            expect(error).toMatchObject({ statusCode, code });
+        });
+
+        it('should ask throttled clients to retry later', () => {
+            const error = new DynamoDBError(
+                'Test error',
+                createDynamoDBError('ThrottlingException', 'Rate exceeded')
+            );
+            expect(error.retryAfterSeconds).toBe(1);
+            expect(new DynamoDBError('Test error').retryAfterSeconds).toBeUndefined();
+        });
+
+        it('should keep the reason DynamoDB rejected a request', () => {
+            const error = new DynamoDBError(
+                'Failed to create static data',
+                createDynamoDBError('ValidationException', 'Item size has exceeded the maximum')
+            );
+            expect(error.message).toBe(
+                'Failed to create static data: Item size has exceeded the maximum'
+            );
+        });
     });
 
     describe('NotFoundError', () => {
@@ -83,6 +128,34 @@ describe('Error Handlers', () => {
         });
     });
 
+    describe('ConflictError', () => {
+        it('should create error with message', () => {
+            const error = new ConflictError('Lift 3 already exists');
+            expect(error.message).toBe('Lift 3 already exists');
+            expect(error.name).toBe('ConflictError');
+            expect(error.code).toBe('CONFLICT');
+        });
+
+        it('should have correct status code', () => {
+            const error = new ConflictError();
+            expect(error.statusCode).toBe(409);
+        });
+    });
+
+    describe('PreconditionFailedError', () => {
+        it('should create error with message', () => {
+            const error = new PreconditionFailedError('Version 2 is stale');
+            expect(error.message).toBe('Version 2 is stale');
+            expect(error.name).toBe('PreconditionFailedError');
+            expect(error.code).toBe('PRECONDITION_FAILED');
+        });
+
+        it('should have correct status code', () => {
+            const error = new PreconditionFailedError();
+            expect(error.statusCode).toBe(412);
+        });
+    });
+
     describe('Error hierarchy', () => {
         it('should maintain proper error chain', () => {
             const originalError = new Error('Original error');
@@ -130,4 +203,66 @@ describe('Error Handlers', () => {
             expect(new ValidationError('test').statusCode).toBe(400);
         });
     });
+
+    describe('formatProblemDetails', () => {
+        it('should describe an AppError as RFC 9457 problem details', () => {
+            expect(
+                formatProblemDetails(new ConflictError('Lift exists'), '/api/skilifts/static', 'req-1')
+            ).toEqual({
+                type: 'urn:problem-type:conflict',
+                title: 'Conflict',
+                status: 409,
+                detail: 'Lift exists',
+                instance: '/api/skilifts/static',
+                code: 'CONFLICT',
+                requestId: 'req-1',
+            });
+        });
+
+        it('should list each invalid field of a Zod error', () => {
+            const result = z
+                .array(z.object({ Lift: z.string(), Riders: z.number() }))
+                .safeParse([{ Lift: 'Lift 1', Riders: 'many' }]);
+            if (result.success) throw new Error('expected a validation failure');
+
+            const problem = formatProblemDetails(result.error, '/api/skilifts/dynamic/batch');
+
+            expect(problem.errors).toEqual([
+                { path: '0.Riders', message: 'Expected number, received string', code: 'invalid_type' },
+            ]);
+            expect(problem).not.toHaveProperty('requestId');
+        });
+
+        it('should not leak internal messages', () => {
+            expect(formatProblemDetails(new Error('socket hang up'), '/api/skilifts')).toMatchObject({
+                status: 500,
+                title: 'Internal Server Error',
+                detail: 'Internal server error',
+            });
+        });
+
+        it('should leave the envelope unchanged', () => {
+            const result = z.object({ Lift: z.string() }).safeParse({});
+            if (result.success) throw new Error('expected a validation failure');
+
+            expect(formatErrorResponse(result.error).error).not.toHaveProperty('fieldErrors');
+            expect(formatErrorResponse(result.error).error.details).toBe(result.error);
+        });
+    });
+
+    describe('prefersProblemDetails', () => {
+        it.each([
+            ['application/problem+json', true],
+            ['application/problem+json, application/json', true],
+            ['application/json;q=0.5, application/problem+json', true],
+            ['Application/Problem+JSON', true],
+            [undefined, false],
+            ['*/*', false],
+            ['application/json', false],
+            ['application/json, application/problem+json;q=0.9', false],
+            ['application/problem+json;q=0', false],
+        ])('should treat Accept %s as %s', (accept, expected) => {
+            expect(prefersProblemDetails(accept)).toBe(expected);
+        });
+    });
 });
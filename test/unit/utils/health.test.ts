@@ -0,0 +1,153 @@
+import { DescribeTableCommand, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReadinessProbe, checkTable } from '../../../src/utils/health.js';
+import { createDynamoDBError } from '../../helpers/test-utils.js';
+
+const mockDynamoDB = mockClient(DynamoDBDocumentClient);
+const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: 'us-east-1' }));
+
+const options = { tableName: 'SkiLifts', indexName: 'SkiLiftsByRiders', timeoutMs: 50 };
+
+function describeTable(tableStatus: string, indexStatus?: string) {
+    return {
+        Table: {
+            TableName: 'SkiLifts',
+            TableStatus: tableStatus,
+            GlobalSecondaryIndexes: indexStatus
+                ? [{ IndexName: 'SkiLiftsByRiders', IndexStatus: indexStatus }]
+                : [],
+        },
+    } as any;
+}
+
+describe('checkTable', () => {
+    beforeEach(() => {
+        mockDynamoDB.reset();
+    });
+
+    it('should be up when the table and index are active', async () => {
+        mockDynamoDB.on(DescribeTableCommand).resolves(describeTable('ACTIVE', 'ACTIVE'));
+
+        const result = await checkTable(client, options);
+
+        expect(result).toMatchObject({
+            status: 'up',
+            table: 'SkiLifts',
+            tableStatus: 'ACTIVE',
+            index: 'SkiLiftsByRiders',
+            indexStatus: 'ACTIVE',
+        });
+        expect(result.latencyMs).toEqual(expect.any(Number));
+        expect(mockDynamoDB.commandCalls(DescribeTableCommand)[0].args[0].input).toEqual({
+            TableName: 'SkiLifts',
+        });
+    });
+
+    it('should stay up while the table is updating', async () => {
+        mockDynamoDB.on(DescribeTableCommand).resolves(describeTable('UPDATING', 'ACTIVE'));
+
+        expect((await checkTable(client, options)).status).toBe('up');
+    });
+
+    it('should be down while the index is still being built', async () => {
+        mockDynamoDB.on(DescribeTableCommand).resolves(describeTable('ACTIVE', 'CREATING'));
+
+        expect(await checkTable(client, options)).toMatchObject({
+            status: 'down',
+            error: 'Index SkiLiftsByRiders is CREATING',
+        });
+    });
+
+    it('should be down when the index is missing', async () => {
+        mockDynamoDB.on(DescribeTableCommand).resolves(describeTable('ACTIVE'));
+
+        expect(await checkTable(client, options)).toMatchObject({
+            status: 'down',
+            error: 'Index SkiLiftsByRiders does not exist',
+        });
+    });
+
+    it('should be down when the table is being deleted', async () => {
+        mockDynamoDB.on(DescribeTableCommand).resolves(describeTable('DELETING', 'ACTIVE'));
+
+        expect(await checkTable(client, options)).toMatchObject({
+            status: 'down',
+            error: 'Table SkiLifts is DELETING',
+        });
+    });
+
+    it('should report SDK failures by name only', async () => {
+        mockDynamoDB
+            .on(DescribeTableCommand)
+            .rejects(
+                createDynamoDBError(
+                    'AccessDeniedException',
+                    'User arn:aws:iam::123456789012:role/task is not authorized'
+                )
+            );
+
+        const result = await checkTable(client, options);
+
+        expect(result).toMatchObject({ status: 'down', error: 'AccessDeniedException' });
+        expect(JSON.stringify(result)).not.toContain('123456789012');
+    });
+
+    it('should give up after the timeout', async () => {
+        mockDynamoDB.on(DescribeTableCommand).callsFake(() => new Promise(() => undefined));
+
+        expect(await checkTable(client, options)).toMatchObject({
+            status: 'down',
+            error: 'Timed out after 50ms',
+        });
+    });
+});
+
+describe('ReadinessProbe', () => {
+    it('should be ready when no check is down', async () => {
+        const probe = new ReadinessProbe(
+            {
+                dynamodb: async () => ({ status: 'up' }),
+                cache: async () => ({ status: 'skipped' }),
+            },
+            1000
+        );
+
+        expect(await probe.check()).toEqual({
+            status: 'ready',
+            checkedAt: expect.any(String),
+            checks: { dynamodb: { status: 'up' }, cache: { status: 'skipped' } },
+        });
+    });
+
+    it('should not be ready when a check is down', async () => {
+        const probe = new ReadinessProbe({ dynamodb: async () => ({ status: 'down' }) }, 1000);
+
+        expect((await probe.check()).status).toBe('not_ready');
+    });
+
+    it('should reuse a report until it expires', async () => {
+        let now = 0;
+        const check = vi.fn(async () => ({ status: 'up' as const }));
+        const probe = new ReadinessProbe({ dynamodb: check }, 1000, () => now);
+
+        await probe.check();
+        now = 999;
+        await probe.check();
+        expect(check).toHaveBeenCalledTimes(1);
+
+        now = 1000;
+        await probe.check();
+        expect(check).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share one probe between concurrent callers', async () => {
+        const check = vi.fn(async () => ({ status: 'up' as const }));
+        const probe = new ReadinessProbe({ dynamodb: check }, 0);
+
+        await Promise.all([probe.check(), probe.check(), probe.check()]);
+
+        expect(check).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    IncrementBatcher,
+    getIncrementBatchConfig,
+} from '../../../src/utils/increment-batcher.js';
+
+describe('IncrementBatcher', () => {
+    let total: number;
+    let writes: number[];
+    const write = async (amount: number) => {
+        writes.push(amount);
+        total += amount;
+        return total;
+    };
+
+    beforeEach(() => {
+        total = 0;
+        writes = [];
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllEnvs();
+    });
+
+    it('should write every increment without a window', async () => {
+        const batcher = new IncrementBatcher<number>(0);
+
+        expect(await batcher.add('day', 2, write)).toBe(2);
+        expect(await batcher.add('day', 3, write)).toBe(5);
+        expect(writes).toEqual([2, 3]);
+    });
+
+    it('should sum increments within the window into one write', async () => {
+        const batcher = new IncrementBatcher<number>(50);
+
+        const results = Promise.all([
+            batcher.add('day', 1, write),
+            batcher.add('day', 2, write),
+            batcher.add('day', 3, write),
+        ]);
+        await vi.advanceTimersByTimeAsync(50);
+
+        expect(await results).toEqual([6, 6, 6]);
+        expect(writes).toEqual([6]);
+    });
+
+    it('should keep a batch per key and start a new one after a flush', async () => {
+        const batcher = new IncrementBatcher<number>(50);
+
+        const first = Promise.all([batcher.add('a', 1, write), batcher.add('b', 10, write)]);
+        await vi.advanceTimersByTimeAsync(50);
+        const second = batcher.add('a', 4, write);
+        await vi.advanceTimersByTimeAsync(50);
+
+        expect(await first).toEqual([1, 11]);
+        expect(await second).toBe(15);
+        expect(writes).toEqual([1, 10, 4]);
+    });
+
+    it('should reject every caller when the write fails', async () => {
+        const batcher = new IncrementBatcher<number>(50);
+        const failing = () => Promise.reject(new Error('throttled'));
+
+        const results = Promise.allSettled([
+            batcher.add('day', 1, failing),
+            batcher.add('day', 1, failing),
+        ]);
+        await vi.advanceTimersByTimeAsync(50);
+
+        expect((await results).map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    });
+
+    it('should tell the write what each caller contributed', async () => {
+        const batcher = new IncrementBatcher<number, string>(50);
+        const spy = vi.fn(write);
+
+        const results = Promise.all([
+            batcher.add('day', 1, spy, 'gate-1'),
+            batcher.add('day', 2, spy, 'gate-2'),
+        ]);
+        await vi.advanceTimersByTimeAsync(50);
+        await results;
+
+        expect(spy).toHaveBeenCalledExactlyOnceWith(3, [
+            { amount: 1, contributor: 'gate-1' },
+            { amount: 2, contributor: 'gate-2' },
+        ]);
+    });
+
+    it('should write pending batches on close without waiting for the window', async () => {
+        const batcher = new IncrementBatcher<number>(60000);
+
+        const results = Promise.all([batcher.add('a', 1, write), batcher.add('b', 2, write)]);
+        await batcher.close();
+
+        expect(await results).toEqual([1, 3]);
+        expect(writes).toEqual([1, 2]);
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should read the window from RIDER_INCREMENT_BATCH_MS', () => {
+        vi.stubEnv('RIDER_INCREMENT_BATCH_MS', '25');
+        expect(getIncrementBatchConfig()).toEqual({ windowMs: 25 });
+
+        vi.stubEnv('RIDER_INCREMENT_BATCH_MS', 'soon');
+        expect(getIncrementBatchConfig()).toEqual({ windowMs: 0 });
+    });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Metrics, dynamoDBMetricsMiddleware } from '../../../src/utils/metrics.js';
+
+async function sample(metrics: Metrics, name: string, labels: Record<string, string>) {
+    const metric = await metrics.registry.getSingleMetric(name)?.get();
+    return metric?.values.find((value) =>
+        Object.entries(labels).every(([key, label]) => String(value.labels[key]) === label)
+    )?.value;
+}
+
+describe('Metrics', () => {
+    it('should count and time requests by route pattern', async () => {
+        const metrics = new Metrics({ defaultMetrics: false });
+
+        metrics.observeRequest('GET', '/api/skilifts/:lift/:metadata', 200, 0.02);
+        metrics.observeRequest('GET', '/api/skilifts/:lift/:metadata', 200, 0.03);
+
+        const labels = { method: 'GET', route: '/api/skilifts/:lift/:metadata', status_code: '200' };
+        expect(await sample(metrics, 'http_requests_total', labels)).toBe(2);
+        const { body } = await metrics.render();
+        expect(body).toContain(
+            'http_request_duration_seconds_count{method="GET",route="/api/skilifts/:lift/:metadata",status_code="200"} 2'
+        );
+    });
+
+    it('should add up consumed capacity per table', async () => {
+        const metrics = new Metrics({ defaultMetrics: false });
+
+        metrics.observeDynamoDBCommand({
+            operation: 'Query',
+            table: 'SkiLifts',
+            durationSeconds: 0.01,
+            outcome: 'success',
+            consumedCapacity: { TableName: 'SkiLifts', CapacityUnits: 1.5 },
+        });
+        metrics.observeDynamoDBCommand({
+            operation: 'BatchWriteItem',
+            table: '',
+            durationSeconds: 0.01,
+            outcome: 'success',
+            consumedCapacity: [
+                { TableName: 'SkiLifts', CapacityUnits: 25 },
+                { TableName: 'SkiLiftsAudit', CapacityUnits: 2 },
+            ],
+        });
+
+        expect(
+            await sample(metrics, 'dynamodb_consumed_capacity_units_total', {
+                operation: 'Query',
+                table: 'SkiLifts',
+            })
+        ).toBe(1.5);
+        expect(
+            await sample(metrics, 'dynamodb_consumed_capacity_units_total', {
+                operation: 'BatchWriteItem',
+                table: 'SkiLiftsAudit',
+            })
+        ).toBe(2);
+    });
+
+    it('should include process metrics by default', async () => {
+        const { contentType, body } = await new Metrics().render();
+
+        expect(contentType).toContain('text/plain');
+        expect(body).toContain('process_cpu_seconds_total');
+    });
+});
+
+describe('dynamoDBMetricsMiddleware', () => {
+    function run(
+        commandName: string,
+        input: Record<string, unknown>,
+        next: (args: any) => Promise<any>
+    ) {
+        const metrics = new Metrics({ defaultMetrics: false });
+        const handler = dynamoDBMetricsMiddleware(metrics)(next, { commandName } as any);
+        return { metrics, result: handler({ input } as any) };
+    }
+
+    it('should ask for and record consumed capacity', async () => {
+        const next = vi.fn(async () => ({
+            output: { ConsumedCapacity: { TableName: 'SkiLifts', CapacityUnits: 0.5 } },
+            response: {},
+        }));
+
+        const { metrics, result } = run('GetItemCommand', { TableName: 'SkiLifts' }, next);
+        await result;
+
+        expect(next.mock.calls[0][0].input).toEqual({
+            TableName: 'SkiLifts',
+            ReturnConsumedCapacity: 'TOTAL',
+        });
+        expect(
+            await sample(metrics, 'dynamodb_commands_total', {
+                operation: 'GetItem',
+                table: 'SkiLifts',
+                outcome: 'success',
+            })
+        ).toBe(1);
+        expect(
+            await sample(metrics, 'dynamodb_consumed_capacity_units_total', {
+                operation: 'GetItem',
+            })
+        ).toBe(0.5);
+    });
+
+    it('should keep a ReturnConsumedCapacity set by the caller', async () => {
+        const next = vi.fn(async () => ({ output: {}, response: {} }));
+
+        await run('QueryCommand', { TableName: 'SkiLifts', ReturnConsumedCapacity: 'INDEXES' }, next)
+            .result;
+
+        expect(next.mock.calls[0][0].input.ReturnConsumedCapacity).toBe('INDEXES');
+    });
+
+    it('should leave commands without capacity reporting unchanged', async () => {
+        const next = vi.fn(async () => ({ output: {}, response: {} }));
+
+        await run('DescribeTableCommand', { TableName: 'SkiLifts' }, next).result;
+
+        expect(next.mock.calls[0][0].input).toEqual({ TableName: 'SkiLifts' });
+    });
+
+    it('should record failures by SDK error name and rethrow', async () => {
+        const error = Object.assign(new Error('Throughput exceeded'), {
+            name: 'ProvisionedThroughputExceededException',
+        });
+
+        const { metrics, result } = run('ScanCommand', { TableName: 'SkiLifts' }, async () => {
+            throw error;
+        });
+
+        await expect(result).rejects.toBe(error);
+        expect(
+            await sample(metrics, 'dynamodb_commands_total', {
+                operation: 'Scan',
+                outcome: 'ProvisionedThroughputExceededException',
+            })
+        ).toBe(1);
+    });
+});
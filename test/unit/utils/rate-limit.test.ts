@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { InMemoryRateLimitStore } from '../../../src/utils/rate-limit.js';
+
+describe('InMemoryRateLimitStore', () => {
+    const policy = { capacity: 3, refillPerSecond: 1 };
+    let now: number;
+    let store: InMemoryRateLimitStore;
+
+    beforeEach(() => {
+        now = 0;
+        store = new InMemoryRateLimitStore(() => now);
+    });
+
+    it('should allow a burst up to the capacity', async () => {
+        const results = [];
+        for (let i = 0; i < 4; i++) {
+            results.push(await store.take('client', policy));
+        }
+
+        expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+        expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+        expect(results[3]).toMatchObject({ retryAfterSeconds: 1, resetSeconds: 3 });
+    });
+
+    it('should refill tokens over time', async () => {
+        for (let i = 0; i < 3; i++) {
+            await store.take('client', policy);
+        }
+
+        now = 1500;
+        const result = await store.take('client', policy);
+
+        expect(result.allowed).toBe(true);
+        expect(result.remaining).toBe(0);
+    });
+
+    it('should never refill beyond the capacity', async () => {
+        await store.take('client', policy);
+
+        now = 60_000;
+        const result = await store.take('client', policy);
+
+        expect(result.remaining).toBe(2);
+    });
+
+    it('should keep separate buckets per key', async () => {
+        for (let i = 0; i < 3; i++) {
+            await store.take('noisy', policy);
+        }
+
+        expect((await store.take('noisy', policy)).allowed).toBe(false);
+        expect((await store.take('quiet', policy)).allowed).toBe(true);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { TenantScope } from '../../../src/utils/tenant.js';
+
+describe('TenantScope', () => {
+    describe('for a resort', () => {
+        const scope = new TenantScope('whistler');
+
+        it('should prefix partition keys with the resort', () => {
+            expect(scope.toKey('Lift 3')).toBe('whistler#Lift 3');
+            expect(scope.fromKey('whistler#Lift 3')).toBe('Lift 3');
+            expect(scope.keyPrefix).toBe('whistler#');
+        });
+
+        it('should only own keys of the same resort', () => {
+            expect(scope.owns('whistler#Lift 3')).toBe(true);
+            expect(scope.owns('vail#Lift 3')).toBe(false);
+            expect(scope.owns('Lift 3')).toBe(false);
+        });
+
+        it('should bind cursor scopes to the resort', () => {
+            expect(scope.cursorScope('scan')).toBe('resort:whistler/scan');
+        });
+    });
+
+    describe('without a resort', () => {
+        const scope = new TenantScope();
+
+        it('should keep the original unprefixed keys', () => {
+            expect(scope.toKey('Resort Data')).toBe('Resort Data');
+            expect(scope.fromKey('Resort Data')).toBe('Resort Data');
+            expect(scope.keyPrefix).toBeUndefined();
+            expect(scope.cursorScope('scan')).toBe('scan');
+        });
+
+        it('should not own any resort key', () => {
+            expect(scope.owns('Lift 3')).toBe(true);
+            expect(scope.owns('whistler#Lift 3')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,111 @@
+import { SpanKind, SpanStatusCode, context, trace } from '@opentelemetry/api';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+    dynamoDBTracingMiddleware,
+    getTracingConfig,
+    initTracing,
+} from '../../../src/utils/tracing.js';
+import { registerTestTracing } from '../../helpers/test-utils.js';
+
+describe('getTracingConfig', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('should be off by default', () => {
+        vi.stubEnv('OTEL_TRACES_EXPORTER', '');
+
+        expect(getTracingConfig()).toEqual({ exporter: 'none', serviceName: 'fastify-ddb' });
+        expect(initTracing(getTracingConfig())).toBeUndefined();
+    });
+
+    it('should read the exporter and service name', () => {
+        vi.stubEnv('OTEL_TRACES_EXPORTER', 'otlp');
+        vi.stubEnv('OTEL_SERVICE_NAME', 'skilifts-api');
+
+        expect(getTracingConfig()).toEqual({ exporter: 'otlp', serviceName: 'skilifts-api' });
+    });
+
+    it('should ignore unknown exporters', () => {
+        vi.stubEnv('OTEL_TRACES_EXPORTER', 'zipkin');
+
+        expect(getTracingConfig().exporter).toBe('none');
+    });
+});
+
+describe('dynamoDBTracingMiddleware', () => {
+    let tracing: ReturnType<typeof registerTestTracing>;
+
+    beforeAll(() => {
+        tracing = registerTestTracing();
+    });
+
+    afterEach(() => {
+        tracing.exporter.reset();
+    });
+
+    afterAll(async () => {
+        await tracing.shutdown();
+    });
+
+    function run(commandName: string, input: Record<string, unknown>, next: () => Promise<any>) {
+        return dynamoDBTracingMiddleware()(next, { commandName } as any)({ input } as any);
+    }
+
+    it('should wrap a command in a client span with table and index attributes', async () => {
+        const parent = trace.getTracer('test').startSpan('GET /api/skilifts/:lift/by-riders');
+
+        await context.with(trace.setSpan(context.active(), parent), () =>
+            run('QueryCommand', { TableName: 'SkiLifts', IndexName: 'SkiLiftsByRiders' }, async () => ({
+                output: { Count: 3, ScannedCount: 5 },
+                response: {},
+            }))
+        );
+        parent.end();
+
+        const [span] = tracing.exporter.getFinishedSpans();
+        expect(span.name).toBe('DynamoDB.Query');
+        expect(span.kind).toBe(SpanKind.CLIENT);
+        expect(span.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+        expect(span.attributes).toEqual({
+            'db.system': 'dynamodb',
+            'rpc.system': 'aws-api',
+            'rpc.service': 'DynamoDB',
+            'rpc.method': 'Query',
+            'aws.dynamodb.table_names': ['SkiLifts'],
+            'aws.dynamodb.index_name': 'SkiLiftsByRiders',
+            'aws.dynamodb.count': 3,
+            'aws.dynamodb.scanned_count': 5,
+        });
+    });
+
+    it('should name the tables of a batch', async () => {
+        await run('BatchWriteItemCommand', { RequestItems: { SkiLifts: [] } }, async () => ({
+            output: {},
+            response: {},
+        }));
+
+        const [span] = tracing.exporter.getFinishedSpans();
+        expect(span.name).toBe('DynamoDB.BatchWriteItem');
+        expect(span.attributes['aws.dynamodb.table_names']).toEqual(['SkiLifts']);
+    });
+
+    it('should mark the span failed and rethrow', async () => {
+        const error = Object.assign(new Error('The conditional request failed'), {
+            name: 'ConditionalCheckFailedException',
+        });
+
+        await expect(
+            run('PutItemCommand', { TableName: 'SkiLifts' }, async () => {
+                throw error;
+            })
+        ).rejects.toBe(error);
+
+        const [span] = tracing.exporter.getFinishedSpans();
+        expect(span.status).toEqual({
+            code: SpanStatusCode.ERROR,
+            message: 'The conditional request failed',
+        });
+        expect(span.events[0].name).toBe('exception');
+    });
+});